@@ -0,0 +1,16 @@
+// Local mock backend - only answers when MOCK_API=true (see MOCK_BACKEND.md)
+
+import { handleMockRequest } from '@/lib/mock-api/handlers'
+
+export const dynamic = 'force-dynamic'
+
+async function handle(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  if (process.env.MOCK_API !== 'true') {
+    return Response.json({ success: false, message: 'Mock API is disabled' }, { status: 404 })
+  }
+
+  const { path } = await params
+  return handleMockRequest(request, `/${path.join('/')}`)
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as PATCH, handle as DELETE }
@@ -69,18 +69,27 @@ import {
   Share2,
   Target,
   BarChart3,
+  History,
 } from "lucide-react"
 import { useAuth } from "@/components/auth/auth-provider"
 import { useToast } from "@/hooks/use-toast"
 import { useAsyncTask } from "@/hooks/useAsyncTask"
-import { apiClient } from "@/lib/api"
+import { apiClient, isAbortError } from "@/lib/api"
+import type { SettlementSummary } from "@/lib/api-types"
+import { sessionStore } from "@/lib/session"
 import { useEffect, useMemo, useRef, useCallback } from "react"
 import { useDeviceType } from "@/hooks/use-mobile"
+import { useWindowVirtualizer } from "@/hooks/useWindowVirtualizer"
 import { InventoryAggregation, InventoryAggregationRef } from "@/components/admin/inventory/inventory-aggregation"
 import { NotificationDialog } from "./notification-dialog"
 import { RTOFocusDialog } from "./inventory/rto-focus-dialog"
 import { CriticalOrdersDialog } from "./inventory/critical-orders-dialog"
 import { AnalyticsDialog } from "./analytics-dialog"
+import { OrderTimelineDrawer } from "./order-timeline-drawer"
+import { SettlementBeneficiaryDetails, describePayoutMethod } from "@/components/payout-beneficiary"
+import { SettlementProgress, SettlementTimeline, getSettlementRemaining } from "@/components/settlement-timeline"
+import { SettlementReconciliationDialog } from "./settlement-reconciliation-dialog"
+import { SettlementBulkActionDialog, type SettlementBulkAction } from "./settlement-bulk-action-dialog"
 
 // Mock data for admin dashboard
 const mockVendors = [
@@ -191,7 +200,7 @@ const mockSettlements = [
 ]
 
 export function AdminDashboard() {
-  const { user, logout, authHeader } = useAuth()
+  const { user, logout } = useAuth()
   const { toast } = useToast()
   const { submitTask, isTaskActive } = useAsyncTask()
   const [activeTab, setActiveTab] = useState("orders")
@@ -304,12 +313,18 @@ export function AdminDashboard() {
   const [settlementsLoading, setSettlementsLoading] = useState(false)
   const [currentSettlement, setCurrentSettlement] = useState<any>(null)
   const [showSettlementDialog, setShowSettlementDialog] = useState(false)
-  const [settlementModalAction, setSettlementModalAction] = useState<"view" | "approve" | "reject" | null>(null)
+  const [showReconciliationDialog, setShowReconciliationDialog] = useState(false)
+  const [settlementModalAction, setSettlementModalAction] = useState<"view" | "approve" | "pay" | "reject" | null>(null)
   const [approvalData, setApprovalData] = useState({ amountPaid: "", transactionId: "", paymentProof: null as File | null })
   const [settlementRejectionReason, setSettlementRejectionReason] = useState("")
   const [settlementFilters, setSettlementFilters] = useState({ status: "all", vendorName: "", startDate: "", endDate: "" })
+  // What is typed in the vendor search - applied to settlementFilters once typing pauses
+  const [settlementVendorSearch, setSettlementVendorSearch] = useState("")
   const [settlementPage, setSettlementPage] = useState(1)
   const [settlementPagination, setSettlementPagination] = useState({ totalPages: 1, totalItems: 0 })
+  const [settlementSummary, setSettlementSummary] = useState<SettlementSummary | null>(null)
+  const [selectedSettlementIds, setSelectedSettlementIds] = useState<string[]>([])
+  const [settlementBulkAction, setSettlementBulkAction] = useState<SettlementBulkAction | null>(null)
   const [selectedProofUrl, setSelectedProofUrl] = useState<string | null>(null)
 
   // Notification management state
@@ -356,6 +371,9 @@ export function AdminDashboard() {
   const [selectedImageProduct, setSelectedImageProduct] = useState<string | null>(null)
   const [showImageModal, setShowImageModal] = useState(false)
 
+  // Order timeline drawer state
+  const [timelineOrder, setTimelineOrder] = useState<any | null>(null)
+
   // Vendor assignment state
   const [vendors, setVendors] = useState<any[]>([])
   const [vendorsLoading, setVendorsLoading] = useState(false)
@@ -389,6 +407,7 @@ export function AdminDashboard() {
   const dashboardStatsCacheRef = useRef<Map<string, CacheEntry>>(new Map())
   const ordersScrollSentinelRef = useRef<HTMLDivElement>(null)
   const fetchMoreRef = useRef<(() => void) | null>(null)
+  const ordersFetchControllerRef = useRef<AbortController | null>(null) // Cancels a superseded orders fetch
 
   // Helper function to generate cache key from filters
   const generateCacheKey = (tab: string, filters: any, page?: number): string => {
@@ -463,6 +482,11 @@ export function AdminDashboard() {
     is_handover: number;
   }>>([]);
 
+  // Cancel any orders fetch still running when the dashboard unmounts
+  useEffect(() => {
+    return () => ordersFetchControllerRef.current?.abort();
+  }, []);
+
   // Fetch shipment status mapping from database on mount (public API, no auth needed)
   useEffect(() => {
     async function fetchStatusMapping() {
@@ -717,6 +741,19 @@ export function AdminDashboard() {
     return filteredOrders
   }, [filteredOrders])
 
+  // Only the orders near the viewport are rendered - pages keep appending to `orders`
+  const {
+    containerRef: ordersListRef,
+    rows: visibleOrderRows,
+    paddingTop: ordersPaddingTop,
+    paddingBottom: ordersPaddingBottom,
+    measureRow: measureOrderRow,
+  } = useWindowVirtualizer({
+    items: filteredOrders,
+    getItemKey: (order: any) => order.unique_id,
+    estimateSize: isMobile ? 190 : 57,
+  })
+
   // Debug: Log when checkbox state changes
   useEffect(() => {
     console.log('✅ showInactiveStoreOrders state is now:', showInactiveStoreOrders)
@@ -1009,7 +1046,8 @@ export function AdminDashboard() {
     if (cached && !silentRefresh) {
       console.log('📦 Using cached settlements data');
       // Show cached data immediately
-      setAllSettlements(cached.data);
+      setAllSettlements(cached.data.settlements);
+      setSettlementSummary(cached.data.summary || null);
       if (cached.pagination) {
         setSettlementPagination(cached.pagination);
       }
@@ -1045,14 +1083,18 @@ export function AdminDashboard() {
       if (response.success) {
         const settlementsData = response.data.settlements;
         const pagination = response.data.pagination;
+        const summary = response.data.summary || null;
 
         // Cache the data
         const cacheKey = generateCacheKey('settlements', settlementFilters, settlementPage);
-        setCachedData(settlementsCacheRef, cacheKey, settlementsData, pagination);
+        setCachedData(settlementsCacheRef, cacheKey, { settlements: settlementsData, summary }, pagination);
 
         // Update state
         setAllSettlements(settlementsData);
+        setSettlementSummary(summary);
         setSettlementPagination(pagination);
+        // Drop selections that are no longer pending (approved elsewhere, or by a background refresh)
+        setSelectedSettlementIds(prev => prev.filter(id => settlementsData.some(settlement => String(settlement.id) === id && settlement.status === "pending")));
 
         if (silentRefresh) {
           console.log('✅ Silently refreshed settlements cache');
@@ -1073,10 +1115,52 @@ export function AdminDashboard() {
     }
   };
 
-  // Auto-load settlements when component mounts or settlement filters change
+  // Load settlements when the settlements tab is open and whenever its filters or page change
+  useEffect(() => {
+    if (activeTab === 'settlement-management') {
+      fetchSettlements();
+    }
+  }, [activeTab, settlementPage, settlementFilters]);
+
+  // Any filter change starts again from the first page; selections only apply to the rows on screen
+  const updateSettlementFilters = (changes: Partial<typeof settlementFilters>) => {
+    setSettlementFilters(prev => ({ ...prev, ...changes }));
+    setSettlementPage(1);
+    setSelectedSettlementIds([]);
+  };
+
+  // Debounce the vendor search so typing a name doesn't refetch the list on every keystroke
   useEffect(() => {
-    fetchSettlements();
-  }, [settlementPage, settlementFilters]);
+    if (settlementVendorSearch === settlementFilters.vendorName) return;
+    const timeoutId = setTimeout(() => updateSettlementFilters({ vendorName: settlementVendorSearch }), 500);
+    return () => clearTimeout(timeoutId);
+  }, [settlementVendorSearch, settlementFilters.vendorName]);
+
+  const clearSettlementFilters = () => {
+    setSettlementVendorSearch("");
+    updateSettlementFilters({ status: "all", vendorName: "", startDate: "", endDate: "" });
+  };
+
+  const changeSettlementPage = (page: number) => {
+    setSettlementPage(page);
+    setSelectedSettlementIds([]);
+  };
+
+  const pendingSettlementsOnPage = allSettlements.filter((settlement: any) => settlement.status === "pending");
+  const selectedSettlements = allSettlements.filter((settlement: any) => selectedSettlementIds.includes(String(settlement.id)));
+
+  const toggleSettlementSelection = (settlementId: string, checked: boolean) => {
+    setSelectedSettlementIds(prev => checked ? [...prev, settlementId] : prev.filter(id => id !== settlementId));
+  };
+
+  const toggleAllPendingSettlements = (checked: boolean) => {
+    setSelectedSettlementIds(checked ? pendingSettlementsOnPage.map((settlement: any) => String(settlement.id)) : []);
+  };
+
+  const handleSettlementBulkCompleted = () => {
+    setSelectedSettlementIds([]);
+    fetchSettlements(true);
+  };
 
   const handleViewSettlement = async (settlement: any) => {
     setCurrentSettlement(settlement);
@@ -1091,6 +1175,14 @@ export function AdminDashboard() {
     setShowSettlementDialog(true);
   };
 
+  // Another part-payment against an approved settlement, prefilled with what is still owed
+  const handleRecordSettlementPayment = async (settlement: any) => {
+    setCurrentSettlement(settlement);
+    setSettlementModalAction("pay");
+    setApprovalData({ amountPaid: getSettlementRemaining(settlement).toString(), transactionId: "", paymentProof: null });
+    setShowSettlementDialog(true);
+  };
+
   const handleRejectSettlement = async (settlement: any) => {
     setCurrentSettlement(settlement);
     setSettlementModalAction("reject");
@@ -1102,7 +1194,7 @@ export function AdminDashboard() {
     if (!currentSettlement) return;
 
     try {
-      if (settlementModalAction === "approve") {
+      if (settlementModalAction === "approve" || settlementModalAction === "pay") {
         if (!approvalData.amountPaid || !approvalData.transactionId) {
           toast({
             title: "Missing Information",
@@ -1113,32 +1205,30 @@ export function AdminDashboard() {
         }
 
         const paidAmount = parseFloat(approvalData.amountPaid);
-        if (paidAmount > currentSettlement.amount) {
+        if (paidAmount > getSettlementRemaining(currentSettlement)) {
           toast({
             title: "Invalid Amount",
-            description: "Amount cannot exceed the requested amount",
+            description: "Amount cannot exceed the amount still owed",
             variant: "destructive",
           });
           return;
         }
 
-        const response = await apiClient.approveSettlement(
-          currentSettlement.id,
-          parseFloat(approvalData.amountPaid),
-          approvalData.transactionId,
-          approvalData.paymentProof || undefined
-        );
+        const paymentProof = approvalData.paymentProof || undefined;
+        const response = settlementModalAction === "approve"
+          ? await apiClient.approveSettlement(currentSettlement.id, paidAmount, approvalData.transactionId, paymentProof)
+          : await apiClient.recordSettlementPayment(currentSettlement.id, paidAmount, approvalData.transactionId, paymentProof);
 
         if (response.success) {
           toast({
-            title: "Settlement Approved",
-            description: "Settlement has been approved successfully",
+            title: settlementModalAction === "approve" ? "Settlement Approved" : "Payment Recorded",
+            description: response.message || "Settlement has been updated successfully",
           });
           fetchSettlements();
         } else {
           toast({
             title: "Error",
-            description: response.message || "Failed to approve settlement",
+            description: response.message || "Failed to record the settlement payment",
             variant: "destructive",
           });
         }
@@ -1188,7 +1278,7 @@ export function AdminDashboard() {
 
   const handleExportCSV = async () => {
     try {
-      const blob = await apiClient.exportSettlementsCSV();
+      const blob = await apiClient.exportSettlementsCSV(settlementFilters);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -1383,6 +1473,11 @@ export function AdminDashboard() {
     silentRefresh: boolean = false,
     keepVisibleDuringRefresh: boolean = false
   ) => {
+    // A newer fetch (filter change, refresh, next page) replaces whatever is still running
+    ordersFetchControllerRef.current?.abort();
+    const controller = new AbortController();
+    ordersFetchControllerRef.current = controller;
+
     if (!silentRefresh) {
       if (resetPagination) {
         if (keepVisibleDuringRefresh && orders.length > 0) {
@@ -1459,7 +1554,7 @@ export function AdminDashboard() {
 
       console.log('📄 Fetching admin orders:', { page: pageToFetch, limit: initialLimit, filters, silentRefresh });
 
-      const response = await apiClient.getAdminOrders(pageToFetch, initialLimit, filters);
+      const response = await apiClient.getAdminOrders(pageToFetch, initialLimit, filters, controller.signal);
 
       if (response.success && response.data) {
         const ordersData = response.data.orders || [];
@@ -1494,7 +1589,7 @@ export function AdminDashboard() {
           // For initial/filtered load, fetch full page (50 orders) in background
           if ((isInitialLoad || isFilteredLoad) && ordersData.length < 50 && pagination && pagination.total > ordersData.length) {
             console.log('🚀 Fetching remaining orders in background (completing first page to 50)...');
-            apiClient.getAdminOrders(1, 50, filters).then((fullResponse) => {
+            apiClient.getAdminOrders(1, 50, filters, controller.signal).then((fullResponse) => {
               if (fullResponse.success && fullResponse.data) {
                 const fullOrdersData = fullResponse.data.orders || [];
                 if (fullOrdersData.length > ordersData.length) {
@@ -1510,6 +1605,7 @@ export function AdminDashboard() {
                 }
               }
             }).catch((error) => {
+              if (isAbortError(error)) return;
               console.error('Error loading remaining orders in background:', error);
               // Don't show error to user - first batch is already displayed
             });
@@ -1548,6 +1644,7 @@ export function AdminDashboard() {
         }
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching orders:', error);
       if (!silentRefresh) {
         toast({
@@ -1557,7 +1654,7 @@ export function AdminDashboard() {
         });
       }
     } finally {
-      if (!silentRefresh) {
+      if (!silentRefresh && !controller.signal.aborted) {
         setOrdersLoading(false);
         setOrdersRefreshing(false);
         setIsLoadingMore(false);
@@ -2764,7 +2861,7 @@ export function AdminDashboard() {
             <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
               {/* Fixed Controls Section */}
               <div className={`sticky ${isMobile ? 'top-16' : 'top-20'} bg-white z-40 pb-0`}>
-                <TabsList className={`grid w-full ${isMobile ? 'grid-cols-3' : 'grid-cols-4'} ${isMobile ? 'h-auto mb-3 sm:mb-4' : 'mb-6'}`}>
+                <TabsList className={`grid w-full ${isMobile ? 'grid-cols-4' : 'grid-cols-5'} ${isMobile ? 'h-auto mb-3 sm:mb-4' : 'mb-6'}`}>
                   <TabsTrigger value="orders" className={`${isMobile ? 'text-xs sm:text-sm px-1.5 sm:px-2 py-2.5 sm:py-3' : ''}`}>
                     Orders ({displayStats?.totalQuantity || totalCount || 0})
                   </TabsTrigger>
@@ -2779,10 +2876,9 @@ export function AdminDashboard() {
                       Inventory
                     </TabsTrigger>
                   )}
-                  {/* Settlement Management Tab - Hidden for now */}
-                  {/* <TabsTrigger value="settlement-management" className={`${isMobile ? 'text-xs sm:text-sm px-1.5 sm:px-2 py-2.5 sm:py-3' : ''}`}>
-                    Settlement Management
-                  </TabsTrigger> */}
+                  <TabsTrigger value="settlement-management" className={`${isMobile ? 'text-xs sm:text-sm px-1.5 sm:px-2 py-2.5 sm:py-3' : ''}`}>
+                    Settlements
+                  </TabsTrigger>
                 </TabsList>
 
                 {/* Filters - Only show for orders, vendors, and carriers tabs */}
@@ -4021,7 +4117,7 @@ export function AdminDashboard() {
                             <TableHead className="text-xs">Actions</TableHead>
                           </TableRow>
                         </TableHeader>
-                        <TableBody>
+                        <TableBody ref={ordersListRef}>
                           {ordersLoading && orders.length === 0 ? (
                             <TableRow>
                               <TableCell colSpan={11} className="text-center py-8">
@@ -4029,136 +4125,162 @@ export function AdminDashboard() {
                               </TableCell>
                             </TableRow>
                           ) : getFilteredOrdersForTab("orders").length > 0 ? (
-                            getFilteredOrdersForTab("orders").map((order, index) => (
-                              <TableRow
-                                key={`${order.unique_id}-${index}`}
-                                className={`[&>td]:py-2 ${order.store_status === 'inactive'
-                                  ? 'opacity-50 grayscale pointer-events-none select-none'
-                                  : 'cursor-pointer hover:bg-gray-50'
-                                  }`}
-                                onClick={() => {
-                                  if (order.store_status === 'inactive') return; // Prevent click for inactive stores
-                                  if (selectedOrders.includes(order.unique_id)) {
-                                    setSelectedOrders(selectedOrders.filter((id) => id !== order.unique_id))
-                                  } else {
-                                    setSelectedOrders([...selectedOrders, order.unique_id])
-                                  }
-                                }}
-                              >
-                                <TableCell onClick={(e) => e.stopPropagation()}>
-                                  <input
-                                    type="checkbox"
-                                    checked={selectedOrders.includes(order.unique_id)}
-                                    disabled={order.store_status === 'inactive'}
-                                    onChange={(e) => {
-                                      if (order.store_status === 'inactive') return; // Prevent selection for inactive stores
-                                      if (e.target.checked) {
-                                        setSelectedOrders([...selectedOrders, order.unique_id])
-                                      } else {
-                                        setSelectedOrders(selectedOrders.filter((id) => id !== order.unique_id))
-                                      }
-                                    }}
-                                  />
-                                </TableCell>
-                                <TableCell onClick={(e) => e.stopPropagation()} className="py-2">
-                                  <img
-                                    src={order.image || "/placeholder.svg"}
-                                    alt={order.product_name}
-                                    className="w-10 h-10 rounded object-cover cursor-pointer"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      setSelectedImageUrl(order.image || null);
-                                      setSelectedImageProduct(order.product_name || null);
-                                      setShowImageModal(true);
-                                    }}
-                                    onError={(e) => {
-                                      const target = e.target as HTMLImageElement;
-                                      target.src = "/placeholder.svg";
-                                    }}
-                                  />
-                                </TableCell>
-                                <TableCell className="font-medium text-xs">{order.order_id}</TableCell>
-                                <TableCell className="text-xs">{order.customer_name ? order.customer_name.split(' ')[0] : 'N/A'}</TableCell>
-                                <TableCell className="text-xs">
-                                  <div className="flex flex-col">
-                                    <span className="font-medium">{order.store_name || 'N/A'}</span>
-                                    <span className="text-[10px] text-gray-500">{order.account_code || ''}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-xs">{order.product_name}</TableCell>
-                                <TableCell className="text-xs whitespace-nowrap">₹{order.value}</TableCell>
-                                <TableCell className="text-xs">
-                                  {order.payment_type && (
-                                    <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-semibold ${order.payment_type === 'C' ? 'bg-orange-100 text-orange-700' : 'bg-green-100 text-green-700'}`}>
-                                      {order.payment_type === 'C' ? 'C' : 'P'}
-                                    </span>
-                                  )}
-                                </TableCell>
-                                <TableCell className="text-xs">{getStatusBadge(order.status)}</TableCell>
-                                <TableCell className="text-xs font-mono text-purple-600">{order.awb || order.airway_bill || order.airwaybill || 'N/A'}</TableCell>
-                                <TableCell className="text-xs">
-                                  {order.created_at ? (
+                            <>
+                              {ordersPaddingTop > 0 && (
+                                <tr aria-hidden="true">
+                                  <td colSpan={12} style={{ height: ordersPaddingTop, padding: 0 }} />
+                                </tr>
+                              )}
+                              {visibleOrderRows.map(({ item: order, key }) => (
+                                <TableRow
+                                  key={key}
+                                  ref={measureOrderRow}
+                                  data-virtual-key={key}
+                                  className={`[&>td]:py-2 ${order.store_status === 'inactive'
+                                    ? 'opacity-50 grayscale pointer-events-none select-none'
+                                    : 'cursor-pointer hover:bg-gray-50'
+                                    }`}
+                                  onClick={() => {
+                                    if (order.store_status === 'inactive') return; // Prevent click for inactive stores
+                                    if (selectedOrders.includes(order.unique_id)) {
+                                      setSelectedOrders(selectedOrders.filter((id) => id !== order.unique_id))
+                                    } else {
+                                      setSelectedOrders([...selectedOrders, order.unique_id])
+                                    }
+                                  }}
+                                >
+                                  <TableCell onClick={(e) => e.stopPropagation()}>
+                                    <input
+                                      type="checkbox"
+                                      checked={selectedOrders.includes(order.unique_id)}
+                                      disabled={order.store_status === 'inactive'}
+                                      onChange={(e) => {
+                                        if (order.store_status === 'inactive') return; // Prevent selection for inactive stores
+                                        if (e.target.checked) {
+                                          setSelectedOrders([...selectedOrders, order.unique_id])
+                                        } else {
+                                          setSelectedOrders(selectedOrders.filter((id) => id !== order.unique_id))
+                                        }
+                                      }}
+                                    />
+                                  </TableCell>
+                                  <TableCell onClick={(e) => e.stopPropagation()} className="py-2">
+                                    <img
+                                      src={order.image || "/placeholder.svg"}
+                                      alt={order.product_name}
+                                      className="w-10 h-10 rounded object-cover cursor-pointer"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setSelectedImageUrl(order.image || null);
+                                        setSelectedImageProduct(order.product_name || null);
+                                        setShowImageModal(true);
+                                      }}
+                                      onError={(e) => {
+                                        const target = e.target as HTMLImageElement;
+                                        target.src = "/placeholder.svg";
+                                      }}
+                                    />
+                                  </TableCell>
+                                  <TableCell className="font-medium text-xs">{order.order_id}</TableCell>
+                                  <TableCell className="text-xs">{order.customer_name ? order.customer_name.split(' ')[0] : 'N/A'}</TableCell>
+                                  <TableCell className="text-xs">
                                     <div className="flex flex-col">
-                                      <span className="font-medium">
-                                        {new Date(order.created_at).toLocaleDateString()}
-                                      </span>
-                                      <span className="text-[10px] text-gray-500">
-                                        {new Date(order.created_at).toLocaleTimeString()}
-                                      </span>
+                                      <span className="font-medium">{order.store_name || 'N/A'}</span>
+                                      <span className="text-[10px] text-gray-500">{order.account_code || ''}</span>
                                     </div>
-                                  ) : "N/A"}
-                                </TableCell>
-                                <TableCell onClick={(e) => e.stopPropagation()} className="py-2">
-                                  <div className="flex gap-1">
-                                    {order.status === 'unclaimed' ? (
-                                      <Button
-                                        size="sm"
-                                        variant="default"
-                                        onClick={(e) => {
-                                          e.stopPropagation();
-                                          if (order.store_status === 'inactive') return; // Prevent assign for inactive stores
-                                          openAssignModal(order);
-                                        }}
-                                        disabled={assignLoading[order.unique_id] || order.store_status === 'inactive'}
-                                        className="text-xs h-7 px-2"
-                                        title={order.store_status === 'inactive' ? 'Cannot assign order from inactive store' : ''}
-                                      >
-                                        {assignLoading[order.unique_id] ? (
-                                          <>
-                                            <div className="animate-spin rounded-full h-2.5 w-2.5 border-b-2 border-white mr-1"></div>
-                                            Assigning...
-                                          </>
-                                        ) : order.store_status === 'inactive' ? (
-                                          'Inactive Store'
-                                        ) : (
-                                          'Assign'
-                                        )}
-                                      </Button>
-                                    ) : (
+                                  </TableCell>
+                                  <TableCell className="text-xs">{order.product_name}</TableCell>
+                                  <TableCell className="text-xs whitespace-nowrap">₹{order.value}</TableCell>
+                                  <TableCell className="text-xs">
+                                    {order.payment_type && (
+                                      <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-semibold ${order.payment_type === 'C' ? 'bg-orange-100 text-orange-700' : 'bg-green-100 text-green-700'}`}>
+                                        {order.payment_type === 'C' ? 'C' : 'P'}
+                                      </span>
+                                    )}
+                                  </TableCell>
+                                  <TableCell className="text-xs">{getStatusBadge(order.status)}</TableCell>
+                                  <TableCell className="text-xs font-mono text-purple-600">{order.awb || order.airway_bill || order.airwaybill || 'N/A'}</TableCell>
+                                  <TableCell className="text-xs">
+                                    {order.created_at ? (
+                                      <div className="flex flex-col">
+                                        <span className="font-medium">
+                                          {new Date(order.created_at).toLocaleDateString()}
+                                        </span>
+                                        <span className="text-[10px] text-gray-500">
+                                          {new Date(order.created_at).toLocaleTimeString()}
+                                        </span>
+                                      </div>
+                                    ) : "N/A"}
+                                  </TableCell>
+                                  <TableCell onClick={(e) => e.stopPropagation()} className="py-2">
+                                    <div className="flex gap-1">
                                       <Button
                                         size="sm"
-                                        variant="outline"
+                                        variant="ghost"
                                         onClick={(e) => {
                                           e.stopPropagation();
-                                          handleUnassignOrder(order);
+                                          setTimelineOrder(order);
                                         }}
-                                        disabled={unassignLoading[order.unique_id]}
-                                        className="border-red-300 text-red-600 hover:bg-red-50 hover:text-red-700 text-xs h-7 px-2"
+                                        className="h-7 w-7 p-0"
+                                        title="Order timeline"
                                       >
-                                        {unassignLoading[order.unique_id] ? (
-                                          <>
-                                            <div className="animate-spin rounded-full h-2.5 w-2.5 border-b-2 border-red-600 mr-1"></div>
-                                            Unassigning...
-                                          </>
-                                        ) : (
-                                          order.vendor_name || 'Unassign'
-                                        )}
+                                        <History className="w-3.5 h-3.5" />
                                       </Button>
-                                    )}
-                                  </div>
-                                </TableCell>
-                              </TableRow>
-                            ))
+                                      {order.status === 'unclaimed' ? (
+                                        <Button
+                                          size="sm"
+                                          variant="default"
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            if (order.store_status === 'inactive') return; // Prevent assign for inactive stores
+                                            openAssignModal(order);
+                                          }}
+                                          disabled={assignLoading[order.unique_id] || order.store_status === 'inactive'}
+                                          className="text-xs h-7 px-2"
+                                          title={order.store_status === 'inactive' ? 'Cannot assign order from inactive store' : ''}
+                                        >
+                                          {assignLoading[order.unique_id] ? (
+                                            <>
+                                              <div className="animate-spin rounded-full h-2.5 w-2.5 border-b-2 border-white mr-1"></div>
+                                              Assigning...
+                                            </>
+                                          ) : order.store_status === 'inactive' ? (
+                                            'Inactive Store'
+                                          ) : (
+                                            'Assign'
+                                          )}
+                                        </Button>
+                                      ) : (
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleUnassignOrder(order);
+                                          }}
+                                          disabled={unassignLoading[order.unique_id]}
+                                          className="border-red-300 text-red-600 hover:bg-red-50 hover:text-red-700 text-xs h-7 px-2"
+                                        >
+                                          {unassignLoading[order.unique_id] ? (
+                                            <>
+                                              <div className="animate-spin rounded-full h-2.5 w-2.5 border-b-2 border-red-600 mr-1"></div>
+                                              Unassigning...
+                                            </>
+                                          ) : (
+                                            order.vendor_name || 'Unassign'
+                                          )}
+                                        </Button>
+                                      )}
+                                    </div>
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                              {ordersPaddingBottom > 0 && (
+                                <tr aria-hidden="true">
+                                  <td colSpan={12} style={{ height: ordersPaddingBottom, padding: 0 }} />
+                                </tr>
+                              )}
+                            </>
                           ) : (
                             <TableRow>
                               <TableCell colSpan={11} className="text-center py-8 text-gray-500">
@@ -4169,153 +4291,170 @@ export function AdminDashboard() {
                         </TableBody>
                       </Table>
                     ) : (
-                      <div className="space-y-2.5 sm:space-y-3">
+                      <div ref={ordersListRef}>
                         {ordersLoading && orders.length === 0 ? (
                           <Card className="p-4 text-center">Loading orders...</Card>
                         ) : (
-                          getFilteredOrdersForTab("orders").map((order: any, index) => (
-                            <Card
-                              key={`${order.unique_id}-${index}`}
-                              className={`p-2.5 sm:p-3 transition-colors border-l-4 ${order.store_status === 'inactive'
-                                ? 'opacity-50 grayscale pointer-events-none select-none'
-                                : 'cursor-pointer hover:bg-gray-50 active:bg-gray-100'
-                                }`}
-                              style={{
-                                borderLeftColor:
-                                  order.status === 'unclaimed' ? '#f59e0b' :
-                                    order.status === 'in_pack' ? '#3b82f6' :
-                                      order.status === 'handover' ? '#eab308' :
-                                        order.status === 'picked' ? '#8b5cf6' :
-                                          order.status === 'in_transit' ? '#6366f1' :
-                                            order.status === 'out_for_delivery' ? '#f97316' :
-                                              order.status === 'delivered' ? '#10b981' :
-                                                order.status === 'rto' ? '#ef4444' :
-                                                  // Additional shipping status values
-                                                  order.status === 'shipment booked' ? '#06b6d4' :
-                                                    order.status === 'picked up' ? '#8b5cf6' :
-                                                      order.status === 'in warehouse' ? '#3b82f6' :
-                                                        order.status === 'dispatched' ? '#6366f1' :
-                                                          order.status === 'out for pickup' ? '#eab308' :
-                                                            order.status === 'attempted delivery' ? '#f97316' :
-                                                              order.status === 'returned' ? '#ef4444' :
-                                                                order.status === 'cancelled' ? '#6b7280' :
-                                                                  order.status === 'failed delivery' ? '#ef4444' :
-                                                                    // Legacy status values for backward compatibility
-                                                                    order.status === 'claimed' ? '#3b82f6' :
-                                                                      order.status === 'ready_for_handover' ? '#8b5cf6' :
-                                                                        '#6b7280'
-                              }}
-                              onClick={() => {
-                                if (order.store_status === 'inactive') return; // Prevent click for inactive stores
-                                if (selectedOrders.includes(order.unique_id)) {
-                                  setSelectedOrders(selectedOrders.filter((id) => id !== order.unique_id))
-                                } else {
-                                  setSelectedOrders([...selectedOrders, order.unique_id])
-                                }
-                              }}
-                            >
-                              <div className="space-y-2 sm:space-y-3">
-                                {/* Top Row: Checkbox, Vendor, and Status */}
-                                <div className="flex items-start justify-between">
-                                  <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
-                                    <input
-                                      type="checkbox"
-                                      checked={selectedOrders.includes(order.unique_id)}
-                                      disabled={order.store_status === 'inactive'}
-                                      onChange={(e) => {
-                                        if (order.store_status === 'inactive') return; // Prevent selection for inactive stores
-                                        if (e.target.checked) {
-                                          setSelectedOrders([...selectedOrders, order.unique_id])
-                                        } else {
-                                          setSelectedOrders(selectedOrders.filter((id) => id !== order.unique_id))
-                                        }
-                                      }}
-                                      className="mt-1 w-3.5 h-3.5 sm:w-4 sm:h-4"
-                                    />
-                                  </div>
-                                  <div className="flex items-center gap-2 flex-wrap">
-                                    <span className="text-xs sm:text-sm font-mono text-purple-600 truncate">
-                                      AWB: {order.awb || order.airway_bill || order.airwaybill || 'NA'}
-                                    </span>
-                                    {getStatusBadge(order.status)}
-                                  </div>
-                                </div>
+                          <>
+                            <div style={{ height: ordersPaddingTop }} />
+                            {visibleOrderRows.map(({ item: order, key }) => (
+                              <div key={key} ref={measureOrderRow} data-virtual-key={key} className="pb-2.5 sm:pb-3">
+                                <Card
+                                  className={`p-2.5 sm:p-3 transition-colors border-l-4 ${order.store_status === 'inactive'
+                                    ? 'opacity-50 grayscale pointer-events-none select-none'
+                                    : 'cursor-pointer hover:bg-gray-50 active:bg-gray-100'
+                                    }`}
+                                  style={{
+                                    borderLeftColor:
+                                      order.status === 'unclaimed' ? '#f59e0b' :
+                                        order.status === 'in_pack' ? '#3b82f6' :
+                                          order.status === 'handover' ? '#eab308' :
+                                            order.status === 'picked' ? '#8b5cf6' :
+                                              order.status === 'in_transit' ? '#6366f1' :
+                                                order.status === 'out_for_delivery' ? '#f97316' :
+                                                  order.status === 'delivered' ? '#10b981' :
+                                                    order.status === 'rto' ? '#ef4444' :
+                                                      // Additional shipping status values
+                                                      order.status === 'shipment booked' ? '#06b6d4' :
+                                                        order.status === 'picked up' ? '#8b5cf6' :
+                                                          order.status === 'in warehouse' ? '#3b82f6' :
+                                                            order.status === 'dispatched' ? '#6366f1' :
+                                                              order.status === 'out for pickup' ? '#eab308' :
+                                                                order.status === 'attempted delivery' ? '#f97316' :
+                                                                  order.status === 'returned' ? '#ef4444' :
+                                                                    order.status === 'cancelled' ? '#6b7280' :
+                                                                      order.status === 'failed delivery' ? '#ef4444' :
+                                                                        // Legacy status values for backward compatibility
+                                                                        order.status === 'claimed' ? '#3b82f6' :
+                                                                          order.status === 'ready_for_handover' ? '#8b5cf6' :
+                                                                            '#6b7280'
+                                  }}
+                                  onClick={() => {
+                                    if (order.store_status === 'inactive') return; // Prevent click for inactive stores
+                                    if (selectedOrders.includes(order.unique_id)) {
+                                      setSelectedOrders(selectedOrders.filter((id) => id !== order.unique_id))
+                                    } else {
+                                      setSelectedOrders([...selectedOrders, order.unique_id])
+                                    }
+                                  }}
+                                >
+                                  <div className="space-y-2 sm:space-y-3">
+                                    {/* Top Row: Checkbox, Vendor, and Status */}
+                                    <div className="flex items-start justify-between">
+                                      <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                                        <input
+                                          type="checkbox"
+                                          checked={selectedOrders.includes(order.unique_id)}
+                                          disabled={order.store_status === 'inactive'}
+                                          onChange={(e) => {
+                                            if (order.store_status === 'inactive') return; // Prevent selection for inactive stores
+                                            if (e.target.checked) {
+                                              setSelectedOrders([...selectedOrders, order.unique_id])
+                                            } else {
+                                              setSelectedOrders(selectedOrders.filter((id) => id !== order.unique_id))
+                                            }
+                                          }}
+                                          className="mt-1 w-3.5 h-3.5 sm:w-4 sm:h-4"
+                                        />
+                                      </div>
+                                      <div className="flex items-center gap-2 flex-wrap">
+                                        <span className="text-xs sm:text-sm font-mono text-purple-600 truncate">
+                                          AWB: {order.awb || order.airway_bill || order.airwaybill || 'NA'}
+                                        </span>
+                                        {getStatusBadge(order.status)}
+                                        <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            setTimelineOrder(order);
+                                          }}
+                                          className="h-6 w-6 p-0"
+                                          title="Order timeline"
+                                        >
+                                          <History className="w-3.5 h-3.5" />
+                                        </Button>
+                                      </div>
+                                    </div>
 
-                                {/* Order ID and Image Row */}
-                                <div className="flex items-start gap-2 sm:gap-3">
-                                  <img
-                                    src={order.image || "/placeholder.svg"}
-                                    alt={order.product_name}
-                                    className="w-12 h-12 sm:w-16 sm:h-16 rounded-lg object-cover cursor-pointer flex-shrink-0"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      setSelectedImageUrl(order.image || null);
-                                      setSelectedImageProduct(order.product_name || null);
-                                      setShowImageModal(true);
-                                    }}
-                                    onError={(e) => { const t = e.target as HTMLImageElement; t.src = "/placeholder.svg"; }}
-                                  />
-                                  <div className="flex-1 min-w-0">
-                                    <div className="flex items-center gap-2 flex-wrap mb-1">
-                                      <h4 className="font-medium text-sm sm:text-base text-gray-900 truncate">{order.order_id}</h4>
-                                      {order.store_name && (
-                                        <Badge variant="outline" className="text-xs px-1.5 py-0.5 h-auto bg-blue-50 text-blue-700 border-blue-200">
-                                          {order.store_name}
-                                        </Badge>
-                                      )}
-                                      {order.value && (
-                                        <Badge variant="outline" className="text-xs px-1.5 py-0.5 h-auto bg-green-50 text-green-700 border-green-200">
-                                          ₹{order.value}
-                                        </Badge>
-                                      )}
-                                      {order.payment_type && (
-                                        <Badge variant="outline" className={`text-xs px-1.5 py-0.5 h-auto ${order.payment_type === 'C' ? 'bg-orange-50 text-orange-700 border-orange-200' : 'bg-blue-50 text-blue-700 border-blue-200'}`}>
-                                          {order.payment_type === 'C' ? 'C' : 'P'}
-                                        </Badge>
-                                      )}
+                                    {/* Order ID and Image Row */}
+                                    <div className="flex items-start gap-2 sm:gap-3">
+                                      <img
+                                        src={order.image || "/placeholder.svg"}
+                                        alt={order.product_name}
+                                        className="w-12 h-12 sm:w-16 sm:h-16 rounded-lg object-cover cursor-pointer flex-shrink-0"
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          setSelectedImageUrl(order.image || null);
+                                          setSelectedImageProduct(order.product_name || null);
+                                          setShowImageModal(true);
+                                        }}
+                                        onError={(e) => { const t = e.target as HTMLImageElement; t.src = "/placeholder.svg"; }}
+                                      />
+                                      <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap mb-1">
+                                          <h4 className="font-medium text-sm sm:text-base text-gray-900 truncate">{order.order_id}</h4>
+                                          {order.store_name && (
+                                            <Badge variant="outline" className="text-xs px-1.5 py-0.5 h-auto bg-blue-50 text-blue-700 border-blue-200">
+                                              {order.store_name}
+                                            </Badge>
+                                          )}
+                                          {order.value && (
+                                            <Badge variant="outline" className="text-xs px-1.5 py-0.5 h-auto bg-green-50 text-green-700 border-green-200">
+                                              ₹{order.value}
+                                            </Badge>
+                                          )}
+                                          {order.payment_type && (
+                                            <Badge variant="outline" className={`text-xs px-1.5 py-0.5 h-auto ${order.payment_type === 'C' ? 'bg-orange-50 text-orange-700 border-orange-200' : 'bg-blue-50 text-blue-700 border-blue-200'}`}>
+                                              {order.payment_type === 'C' ? 'C' : 'P'}
+                                            </Badge>
+                                          )}
+                                        </div>
+                                        <p className="text-xs sm:text-sm text-gray-600 break-words leading-relaxed">
+                                          {order.product_name}
+                                        </p>
+                                        <p className="text-xs sm:text-sm text-gray-500 break-words leading-relaxed">
+                                          Code: {order.product_code || 'N/A'}
+                                        </p>
+                                      </div>
                                     </div>
-                                    <p className="text-xs sm:text-sm text-gray-600 break-words leading-relaxed">
-                                      {order.product_name}
-                                    </p>
-                                    <p className="text-xs sm:text-sm text-gray-500 break-words leading-relaxed">
-                                      Code: {order.product_code || 'N/A'}
-                                    </p>
-                                  </div>
-                                </div>
 
-                                {/* Details Row - Date, Qty, Vendor, Customer side by side */}
-                                <div className="grid grid-cols-4 gap-1.5 sm:gap-2 text-xs sm:text-sm">
-                                  <div>
-                                    <span className="text-gray-500">Date:</span>
-                                    <p className="font-medium truncate">
-                                      {order.created_at ?
-                                        (() => {
-                                          const date = new Date(order.created_at);
-                                          return date.toLocaleDateString();
-                                        })()
-                                        : 'N/A'}
-                                    </p>
-                                  </div>
-                                  <div>
-                                    <span className="text-gray-500">Qty:</span>
-                                    <p className="font-medium truncate">{order.quantity || '-'}</p>
-                                  </div>
-                                  <div>
-                                    <span className="text-gray-500">Vendor:</span>
-                                    <p className={`font-medium truncate ${String(order.vendor_name || '').toLowerCase().includes('unclaimed') ? 'text-red-600' : 'text-blue-600'}`}>
-                                      {order.vendor_name || 'Unclaimed'}
-                                    </p>
-                                  </div>
-                                  <div>
-                                    <span className="text-gray-500">Customer:</span>
-                                    <p className="font-medium break-words">
-                                      {order.customer_name ? order.customer_name.split(' ')[0] : 'N/A'}
-                                    </p>
+                                    {/* Details Row - Date, Qty, Vendor, Customer side by side */}
+                                    <div className="grid grid-cols-4 gap-1.5 sm:gap-2 text-xs sm:text-sm">
+                                      <div>
+                                        <span className="text-gray-500">Date:</span>
+                                        <p className="font-medium truncate">
+                                          {order.created_at ?
+                                            (() => {
+                                              const date = new Date(order.created_at);
+                                              return date.toLocaleDateString();
+                                            })()
+                                            : 'N/A'}
+                                        </p>
+                                      </div>
+                                      <div>
+                                        <span className="text-gray-500">Qty:</span>
+                                        <p className="font-medium truncate">{order.quantity || '-'}</p>
+                                      </div>
+                                      <div>
+                                        <span className="text-gray-500">Vendor:</span>
+                                        <p className={`font-medium truncate ${String(order.vendor_name || '').toLowerCase().includes('unclaimed') ? 'text-red-600' : 'text-blue-600'}`}>
+                                          {order.vendor_name || 'Unclaimed'}
+                                        </p>
+                                      </div>
+                                      <div>
+                                        <span className="text-gray-500">Customer:</span>
+                                        <p className="font-medium break-words">
+                                          {order.customer_name ? order.customer_name.split(' ')[0] : 'N/A'}
+                                        </p>
+                                      </div>
+                                    </div>
                                   </div>
-                                </div>
+                                </Card>
                               </div>
-                            </Card>
-                          ))
+                            ))}
+                            <div style={{ height: ordersPaddingBottom }} />
+                          </>
                         )}
                       </div>
                     )}
@@ -4449,9 +4588,7 @@ export function AdminDashboard() {
                                           variant="destructive"
                                           onClick={async () => {
                                             try {
-                                              // Check localStorage directly for auth header
-                                              const storedAuthHeader = localStorage.getItem('authHeader')
-                                              if (!storedAuthHeader) throw new Error('Not authenticated. Please login again.')
+                                              if (!sessionStore.get()) throw new Error('Not authenticated. Please login again.')
                                               const res = await apiClient.deleteUser(vendor.id)
                                               if (res.success) {
                                                 toast({ title: 'Vendor Deleted', description: `${vendor.name} removed.` })
@@ -4497,9 +4634,8 @@ export function AdminDashboard() {
                               <Button size="sm" variant="outline" onClick={() => { setVendorDialogVendor(vendor); setEditVendorForm({ name: vendor.name, email: vendor.email, phone: vendor.phone, status: vendor.status, warehouseId: vendor.warehouseId || '', contactNumber: vendor.contactNumber || '', address: vendor.address || '', city: vendor.city || '', pincode: vendor.pincode || '' }); setShowVendorEditDialog(true) }}><Edit className="w-3 h-3" /></Button>
                               <Button size="sm" variant="destructive" onClick={async () => {
                                 try {
-                                  // Ensure auth header exists (admin only action) - check localStorage directly
-                                  const storedAuthHeader = localStorage.getItem('authHeader')
-                                  if (!storedAuthHeader) throw new Error('Not authenticated. Please login again.')
+                                  // Ensure a session exists (admin only action)
+                                  if (!sessionStore.get()) throw new Error('Not authenticated. Please login again.')
                                   const res = await apiClient.deleteUser(vendor.id)
                                   if (res.success) {
                                     toast({ title: 'Vendor Deleted', description: `${vendor.name} removed.` })
@@ -4672,9 +4808,7 @@ export function AdminDashboard() {
                             type="button"
                             onClick={async () => {
                               try {
-                                // Check localStorage directly for auth header
-                                const storedAuthHeader = localStorage.getItem('authHeader')
-                                if (!storedAuthHeader) throw new Error('Not authenticated. Please login again.')
+                                if (!sessionStore.get()) throw new Error('Not authenticated. Please login again.')
                                 const payload: any = {}
                                 if (editVendorForm.name && editVendorForm.name.trim()) payload.name = editVendorForm.name.trim()
                                 if (editVendorForm.email && editVendorForm.email.trim()) payload.email = editVendorForm.email.trim()
@@ -4905,18 +5039,63 @@ export function AdminDashboard() {
                   />
                 </TabsContent>
 
-                {/* Settlement Management Tab - Hidden for now (tab trigger is commented out, content kept for future use) */}
+                {/* Settlement Management Tab */}
                 <TabsContent value="settlement-management" className="mt-0">
                   <div className="space-y-4">
+                    {/* Settlement Totals - follow the vendor / date filters, across every status */}
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <Card>
+                        <CardContent className={isMobile ? 'p-3' : 'p-4'}>
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm text-gray-600">Pending</p>
+                            <Clock className="w-4 h-4 text-yellow-600" />
+                          </div>
+                          <p className="text-xl font-semibold">₹{(settlementSummary?.pending.amount ?? 0).toFixed(2)}</p>
+                          <p className="text-xs text-gray-500">{settlementSummary?.pending.count ?? 0} requests awaiting review</p>
+                        </CardContent>
+                      </Card>
+                      <Card>
+                        <CardContent className={isMobile ? 'p-3' : 'p-4'}>
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm text-gray-600">Approved</p>
+                            <CheckCircle className="w-4 h-4 text-green-600" />
+                          </div>
+                          <p className="text-xl font-semibold">₹{(settlementSummary?.approved.amount ?? 0).toFixed(2)}</p>
+                          <p className="text-xs text-gray-500">
+                            {settlementSummary?.approved.count ?? 0} requests
+                            {(settlementSummary?.approved.outstanding ?? 0) > 0 && (
+                              <span className="text-orange-700"> · ₹{settlementSummary!.approved.outstanding.toFixed(2)} still to pay</span>
+                            )}
+                          </p>
+                        </CardContent>
+                      </Card>
+                      <Card>
+                        <CardContent className={isMobile ? 'p-3' : 'p-4'}>
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm text-gray-600">Paid This Month</p>
+                            <IndianRupee className="w-4 h-4 text-emerald-600" />
+                          </div>
+                          <p className="text-xl font-semibold">₹{(settlementSummary?.paidThisMonth.amount ?? 0).toFixed(2)}</p>
+                          <p className="text-xs text-gray-500">{settlementSummary?.paidThisMonth.count ?? 0} payments since the 1st</p>
+                        </CardContent>
+                      </Card>
+                    </div>
+
                     {/* Settlement Filters */}
                     <Card>
                       <CardHeader>
                         <div className="flex justify-between items-center">
                           <CardTitle>Settlement Filters</CardTitle>
-                          <Button onClick={handleExportCSV} variant="outline">
-                            <Download className="w-4 h-4 mr-2" />
-                            Export CSV
-                          </Button>
+                          <div className="flex gap-2">
+                            <Button onClick={() => setShowReconciliationDialog(true)} variant="outline">
+                              <Upload className="w-4 h-4 mr-2" />
+                              {isMobile ? 'Reconcile' : 'Reconcile Statement'}
+                            </Button>
+                            <Button onClick={handleExportCSV} variant="outline">
+                              <Download className="w-4 h-4 mr-2" />
+                              Export CSV
+                            </Button>
+                          </div>
                         </div>
                       </CardHeader>
                       <CardContent>
@@ -4925,7 +5104,7 @@ export function AdminDashboard() {
                             <Label>Status</Label>
                             <Select
                               value={settlementFilters.status}
-                              onValueChange={(value) => setSettlementFilters({ ...settlementFilters, status: value })}
+                              onValueChange={(value) => updateSettlementFilters({ status: value })}
                             >
                               <SelectTrigger>
                                 <SelectValue />
@@ -4942,8 +5121,8 @@ export function AdminDashboard() {
                             <Label>Vendor Name</Label>
                             <Input
                               placeholder="Search by vendor..."
-                              value={settlementFilters.vendorName}
-                              onChange={(e) => setSettlementFilters({ ...settlementFilters, vendorName: e.target.value })}
+                              value={settlementVendorSearch}
+                              onChange={(e) => setSettlementVendorSearch(e.target.value)}
                             />
                           </div>
                           <div>
@@ -4951,7 +5130,7 @@ export function AdminDashboard() {
                             <Input
                               type="date"
                               value={settlementFilters.startDate}
-                              onChange={(e) => setSettlementFilters({ ...settlementFilters, startDate: e.target.value })}
+                              onChange={(e) => updateSettlementFilters({ startDate: e.target.value })}
                             />
                           </div>
                           <div>
@@ -4959,15 +5138,30 @@ export function AdminDashboard() {
                             <Input
                               type="date"
                               value={settlementFilters.endDate}
-                              onChange={(e) => setSettlementFilters({ ...settlementFilters, endDate: e.target.value })}
+                              onChange={(e) => updateSettlementFilters({ endDate: e.target.value })}
                             />
                           </div>
                         </div>
                         <div className="flex justify-between items-center mt-4">
-                          <Button onClick={() => fetchSettlements()} disabled={settlementsLoading}>
-                            <Search className="w-4 h-4 mr-2" />
-                            {settlementsLoading ? "Loading..." : "Search"}
-                          </Button>
+                          <div className="flex gap-2">
+                            <Button
+                              onClick={() =>
+                                // Apply a vendor name still waiting on the debounce right away
+                                settlementVendorSearch !== settlementFilters.vendorName
+                                  ? updateSettlementFilters({ vendorName: settlementVendorSearch })
+                                  : fetchSettlements()
+                              }
+                              disabled={settlementsLoading}
+                            >
+                              <Search className="w-4 h-4 mr-2" />
+                              {settlementsLoading ? "Loading..." : "Search"}
+                            </Button>
+                            {(settlementFilters.status !== "all" || settlementVendorSearch || settlementFilters.vendorName || settlementFilters.startDate || settlementFilters.endDate) && (
+                              <Button variant="ghost" onClick={clearSettlementFilters}>
+                                Clear
+                              </Button>
+                            )}
+                          </div>
                           <div className="text-sm text-gray-500">
                             Page {settlementPage} of {settlementPagination.totalPages} ({settlementPagination.totalItems} total)
                           </div>
@@ -4975,19 +5169,51 @@ export function AdminDashboard() {
                       </CardContent>
                     </Card>
 
+                    {/* Bulk Actions - only pending requests can be selected */}
+                    {selectedSettlementIds.length > 0 && (
+                      <div className={`flex ${isMobile ? 'flex-col gap-2' : 'items-center justify-between'} rounded-md border border-blue-200 bg-blue-50 px-4 py-2`}>
+                        <span className="text-sm text-blue-900">
+                          {selectedSettlementIds.length} selected · ₹{selectedSettlements.reduce((total: number, settlement: any) => total + (parseFloat(settlement.amount) || 0), 0).toFixed(2)}
+                        </span>
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => setSettlementBulkAction("approve")}>
+                            <CheckCircle className="w-3 h-3 mr-1" />
+                            Approve
+                          </Button>
+                          <Button size="sm" variant="destructive" onClick={() => setSettlementBulkAction("reject")}>
+                            <XCircle className="w-3 h-3 mr-1" />
+                            Reject
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setSelectedSettlementIds([])}>
+                            Clear
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Settlements: table on desktop, cards on mobile */}
                     <div className={`rounded-md border ${!isMobile ? 'overflow-y-auto max-h-[600px]' : ''}`}>
                       {!isMobile ? (
                         <Table>
                           <TableHeader className="sticky top-0 bg-white z-30 shadow-sm border-b">
                             <TableRow>
+                              <TableHead className="w-10">
+                                <input
+                                  type="checkbox"
+                                  aria-label="Select all pending settlements on this page"
+                                  checked={pendingSettlementsOnPage.length > 0 && selectedSettlementIds.length === pendingSettlementsOnPage.length}
+                                  disabled={pendingSettlementsOnPage.length === 0}
+                                  onChange={(e) => toggleAllPendingSettlements(e.target.checked)}
+                                  className="w-4 h-4"
+                                />
+                              </TableHead>
                               <TableHead>Settlement ID</TableHead>
                               <TableHead>Vendor Name</TableHead>
                               <TableHead>Amount (₹)</TableHead>
                               <TableHead>Request Date</TableHead>
                               <TableHead>Status</TableHead>
                               <TableHead>Payment Status</TableHead>
-                              <TableHead>UPI ID</TableHead>
+                              <TableHead>Paid To</TableHead>
                               <TableHead>Orders</TableHead>
                               <TableHead>Actions</TableHead>
                             </TableRow>
@@ -4995,13 +5221,23 @@ export function AdminDashboard() {
                           <TableBody>
                             {settlementsLoading ? (
                               <TableRow>
-                                <TableCell colSpan={9} className="text-center py-8">
+                                <TableCell colSpan={10} className="text-center py-8">
                                   Loading settlements...
                                 </TableCell>
                               </TableRow>
                             ) : allSettlements.length > 0 ? (
                               allSettlements.map((settlement: any) => (
-                                <TableRow key={settlement.id}>
+                                <TableRow key={settlement.id} className={selectedSettlementIds.includes(String(settlement.id)) ? 'bg-blue-50' : ''}>
+                                  <TableCell>
+                                    <input
+                                      type="checkbox"
+                                      aria-label={`Select settlement ${settlement.id}`}
+                                      checked={selectedSettlementIds.includes(String(settlement.id))}
+                                      disabled={settlement.status !== "pending"}
+                                      onChange={(e) => toggleSettlementSelection(String(settlement.id), e.target.checked)}
+                                      className="w-4 h-4"
+                                    />
+                                  </TableCell>
                                   <TableCell className="font-medium">{settlement.id}</TableCell>
                                   <TableCell>{settlement.vendorName}</TableCell>
                                   <TableCell>₹{settlement.amount}</TableCell>
@@ -5032,7 +5268,9 @@ export function AdminDashboard() {
                                       {settlement.paymentStatus ? settlement.paymentStatus.replace("_", " ").toUpperCase() : "PENDING"}
                                     </Badge>
                                   </TableCell>
-                                  <TableCell className="max-w-32 truncate">{settlement.upiId}</TableCell>
+                                  <TableCell className="max-w-40 truncate">
+                                    {settlement.beneficiary ? describePayoutMethod(settlement.beneficiary) : settlement.upiId}
+                                  </TableCell>
                                   <TableCell>
                                     <Badge variant="outline">{settlement.numberOfOrders} orders</Badge>
                                   </TableCell>
@@ -5045,6 +5283,16 @@ export function AdminDashboard() {
                                       >
                                         <Eye className="w-3 h-3" />
                                       </Button>
+                                      {settlement.status === "approved" && getSettlementRemaining(settlement) > 0 && (
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          title="Record another payment"
+                                          onClick={() => handleRecordSettlementPayment(settlement)}
+                                        >
+                                          <IndianRupee className="w-3 h-3" />
+                                        </Button>
+                                      )}
                                       {settlement.status === "pending" && (
                                         <>
                                           <Button
@@ -5068,7 +5316,7 @@ export function AdminDashboard() {
                               ))
                             ) : (
                               <TableRow>
-                                <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                                <TableCell colSpan={10} className="text-center py-8 text-gray-500">
                                   No settlements found
                                 </TableCell>
                               </TableRow>
@@ -5079,11 +5327,22 @@ export function AdminDashboard() {
                         <div className="space-y-3 p-2">
                           {settlementsLoading ? (
                             <Card className="p-4 text-center">Loading settlements...</Card>
+                          ) : allSettlements.length === 0 ? (
+                            <Card className="p-4 text-center text-gray-500">No settlements found</Card>
                           ) : (
                             allSettlements.map((s: any) => (
-                              <Card key={s.id} className="p-3">
+                              <Card key={s.id} className={`p-3 ${selectedSettlementIds.includes(String(s.id)) ? 'border-blue-300 bg-blue-50' : ''}`}>
                                 <div className="flex items-start justify-between gap-2">
-                                  <div className="min-w-0">
+                                  {s.status === 'pending' && (
+                                    <input
+                                      type="checkbox"
+                                      aria-label={`Select settlement ${s.id}`}
+                                      checked={selectedSettlementIds.includes(String(s.id))}
+                                      onChange={(e) => toggleSettlementSelection(String(s.id), e.target.checked)}
+                                      className="w-4 h-4 mt-1 flex-shrink-0"
+                                    />
+                                  )}
+                                  <div className="min-w-0 flex-1">
                                     <p className="font-medium truncate">{s.vendorName}</p>
                                     <p className="text-xs text-gray-600 truncate">Settlement #{s.id}</p>
                                   </div>
@@ -5092,10 +5351,18 @@ export function AdminDashboard() {
                                 <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-gray-700">
                                   <span>Amount: ₹{s.amount}</span>
                                   <span>Date: {new Date(s.createdAt).toLocaleDateString('en-IN')}</span>
-                                  <span className="col-span-2">UPI: {s.upiId || '—'}</span>
+                                  {s.status === 'approved' && getSettlementRemaining(s) > 0 && (
+                                    <span className="col-span-2 text-orange-700">Remaining: ₹{getSettlementRemaining(s).toFixed(2)}</span>
+                                  )}
+                                  <span className="col-span-2 truncate">
+                                    Paid to: {s.beneficiary ? describePayoutMethod(s.beneficiary) : s.upiId || '—'}
+                                  </span>
                                 </div>
                                 <div className="mt-2 flex gap-2">
                                   <Button size="sm" variant="outline" onClick={() => handleViewSettlement(s)}>View</Button>
+                                  {s.status === 'approved' && getSettlementRemaining(s) > 0 && (
+                                    <Button size="sm" variant="outline" onClick={() => handleRecordSettlementPayment(s)}>Record Payment</Button>
+                                  )}
                                   {s.status === 'pending' && (
                                     <>
                                       <Button size="sm" onClick={() => handleApproveSettlement(s)}>Approve</Button>
@@ -5115,14 +5382,14 @@ export function AdminDashboard() {
                       <div className="flex justify-center gap-2">
                         <Button
                           variant="outline"
-                          onClick={() => setSettlementPage(Math.max(1, settlementPage - 1))}
+                          onClick={() => changeSettlementPage(Math.max(1, settlementPage - 1))}
                           disabled={settlementPage === 1}
                         >
                           Previous
                         </Button>
                         <Button
                           variant="outline"
-                          onClick={() => setSettlementPage(Math.min(settlementPagination.totalPages, settlementPage + 1))}
+                          onClick={() => changeSettlementPage(Math.min(settlementPagination.totalPages, settlementPage + 1))}
                           disabled={settlementPage === settlementPagination.totalPages}
                         >
                           Next
@@ -6226,11 +6493,13 @@ export function AdminDashboard() {
           <DialogHeader>
             <DialogTitle>
               {settlementModalAction === "view" ? "Settlement Details" :
-                settlementModalAction === "approve" ? "Approve Settlement" : "Reject Settlement"}
+                settlementModalAction === "approve" ? "Approve Settlement" :
+                  settlementModalAction === "pay" ? "Record Payment" : "Reject Settlement"}
             </DialogTitle>
             <DialogDescription>
               {settlementModalAction === "view" ? "View settlement request details" :
-                settlementModalAction === "approve" ? "Approve and process payment" : "Reject settlement request"}
+                settlementModalAction === "approve" ? "Approve and process payment" :
+                  settlementModalAction === "pay" ? "Pay part or all of the remaining amount" : "Reject settlement request"}
             </DialogDescription>
           </DialogHeader>
 
@@ -6254,14 +6523,24 @@ export function AdminDashboard() {
                   <Label className="font-semibold">Request Date</Label>
                   <p>{new Date(currentSettlement.createdAt).toLocaleDateString('en-IN')}</p>
                 </div>
-                <div>
-                  <Label className="font-semibold">UPI ID</Label>
-                  <p className="font-mono">{currentSettlement.upiId}</p>
-                </div>
                 <div>
                   <Label className="font-semibold">Number of Orders</Label>
                   <p>{currentSettlement.numberOfOrders}</p>
                 </div>
+                <div className="col-span-2 p-3 rounded-lg bg-gray-50">
+                  <Label className="font-semibold">Beneficiary</Label>
+                  <SettlementBeneficiaryDetails beneficiary={currentSettlement.beneficiary} upiId={currentSettlement.upiId} />
+                  {settlementModalAction !== "view" && settlementModalAction !== "reject" && currentSettlement.beneficiary?.verificationStatus !== "verified" && (
+                    <p className="mt-2 text-xs text-orange-700 flex items-center gap-1">
+                      <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                      This payee was not verified - confirm the details with the vendor before paying
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <Label className="font-semibold">Raised By</Label>
+                  <p className="capitalize">{!currentSettlement.source || currentSettlement.source === "vendor" ? "Vendor request" : `${currentSettlement.source} cycle`}</p>
+                </div>
                 {currentSettlement.status === "approved" && (
                   <>
                     <div>
@@ -6272,6 +6551,9 @@ export function AdminDashboard() {
                       <Label className="font-semibold">Transaction ID</Label>
                       <p className="font-mono">{currentSettlement.transactionId}</p>
                     </div>
+                    <div className="col-span-2">
+                      <SettlementProgress settlement={currentSettlement} />
+                    </div>
                   </>
                 )}
                 {currentSettlement.status === "rejected" && (
@@ -6294,8 +6576,55 @@ export function AdminDashboard() {
                 </div>
               </div>
 
+              {/* Payments made so far */}
+              {currentSettlement.payments && currentSettlement.payments.length > 0 && (
+                <div>
+                  <Label className="font-semibold">Payments</Label>
+                  <div className="mt-2 space-y-2">
+                    {currentSettlement.payments.map((payment: any) => (
+                      <div key={payment.id} className="flex items-center justify-between gap-2 p-2 bg-gray-50 rounded-lg text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium text-green-700">₹{payment.amount}</p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {new Date(payment.paidAt).toLocaleString('en-IN')}{payment.paidBy ? ` · ${payment.paidBy}` : ''}
+                          </p>
+                          {payment.transactionId && <p className="text-xs font-mono text-blue-600 truncate">TXN: {payment.transactionId}</p>}
+                          {payment.statementRow && (
+                            <details className="text-xs text-gray-600 mt-1">
+                              <summary className="cursor-pointer">Statement row · {payment.statementName || 'bank statement'}</summary>
+                              <div className="mt-1 space-y-0.5">
+                                {Object.entries(payment.statementRow).map(([column, value]) => (
+                                  <p key={column} className="break-all">
+                                    <span className="text-gray-500">{column}: </span>
+                                    {String(value)}
+                                  </p>
+                                ))}
+                              </div>
+                            </details>
+                          )}
+                        </div>
+                        {payment.paymentProofPath && (
+                          <Button size="sm" variant="outline" onClick={() => handleViewProof(payment.paymentProofPath)}>
+                            <Eye className="w-3 h-3 mr-1" />
+                            Proof
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Status Timeline */}
+              <div>
+                <Label className="font-semibold">Status Timeline</Label>
+                <div className="mt-2">
+                  <SettlementTimeline events={currentSettlement.events} />
+                </div>
+              </div>
+
               {/* Payment Proof */}
-              {currentSettlement.status === "approved" && currentSettlement.paymentProofPath && (
+              {currentSettlement.status === "approved" && currentSettlement.paymentProofPath && !currentSettlement.payments?.length && (
                 <div>
                   <Label className="font-semibold">Payment Proof</Label>
                   <div className="mt-2">
@@ -6312,9 +6641,9 @@ export function AdminDashboard() {
               )}
 
               {/* Action-specific content */}
-              {settlementModalAction === "approve" && (
+              {(settlementModalAction === "approve" || settlementModalAction === "pay") && (
                 <div className="space-y-4 border-t pt-4">
-                  <h4 className="font-semibold">Approval Details</h4>
+                  <h4 className="font-semibold">{settlementModalAction === "approve" ? "Approval Details" : "Payment Details"}</h4>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <Label htmlFor="amount-paid">Amount to Pay (₹)</Label>
@@ -6322,19 +6651,21 @@ export function AdminDashboard() {
                         id="amount-paid"
                         type="number"
                         step="0.01"
-                        max={currentSettlement.amount}
+                        max={getSettlementRemaining(currentSettlement)}
                         value={approvalData.amountPaid}
                         onChange={(e) => setApprovalData({ ...approvalData, amountPaid: e.target.value })}
                         placeholder="Enter amount to pay"
                         className={
-                          approvalData.amountPaid && parseFloat(approvalData.amountPaid) > currentSettlement.amount
+                          approvalData.amountPaid && parseFloat(approvalData.amountPaid) > getSettlementRemaining(currentSettlement)
                             ? "border-red-500 focus:border-red-500 focus:ring-red-500"
                             : ""
                         }
                       />
-                      <p className="text-xs text-gray-500 mt-1">Max: ₹{currentSettlement.amount}</p>
-                      {approvalData.amountPaid && parseFloat(approvalData.amountPaid) > currentSettlement.amount && (
-                        <p className="text-xs text-red-500 mt-1">Amount cannot exceed requested amount</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Max: ₹{getSettlementRemaining(currentSettlement)} - pay less to settle the rest later
+                      </p>
+                      {approvalData.amountPaid && parseFloat(approvalData.amountPaid) > getSettlementRemaining(currentSettlement) && (
+                        <p className="text-xs text-red-500 mt-1">Amount cannot exceed the amount still owed</p>
                       )}
                     </div>
                     <div>
@@ -6393,9 +6724,10 @@ export function AdminDashboard() {
                 {settlementModalAction !== "view" && (
                   <Button
                     onClick={submitSettlementAction}
-                    className={settlementModalAction === "approve" ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"}
+                    className={settlementModalAction === "reject" ? "bg-red-600 hover:bg-red-700" : "bg-green-600 hover:bg-green-700"}
                   >
-                    {settlementModalAction === "approve" ? "Approve Settlement" : "Reject Settlement"}
+                    {settlementModalAction === "approve" ? "Approve Settlement" :
+                      settlementModalAction === "pay" ? "Record Payment" : "Reject Settlement"}
                   </Button>
                 )}
               </div>
@@ -6404,6 +6736,21 @@ export function AdminDashboard() {
         </DialogContent>
       </Dialog>
 
+      {/* Bank Statement Reconciliation Dialog */}
+      <SettlementReconciliationDialog
+        open={showReconciliationDialog}
+        onOpenChange={setShowReconciliationDialog}
+        isMobile={isMobile}
+        onReconciled={fetchSettlements}
+      />
+
+      <SettlementBulkActionDialog
+        action={settlementBulkAction}
+        settlements={selectedSettlements}
+        onOpenChange={(open) => !open && setSettlementBulkAction(null)}
+        onCompleted={handleSettlementBulkCompleted}
+      />
+
       {/* Payment Proof Dialog */}
       <Dialog open={showProofDialog} onOpenChange={setShowProofDialog}>
         <DialogContent className="max-w-3xl">
@@ -6694,6 +7041,14 @@ export function AdminDashboard() {
         isOpen={showCriticalOrdersDialog}
         onClose={() => setShowCriticalOrdersDialog(false)}
       />
+
+      {/* Order Timeline Drawer */}
+      <OrderTimelineDrawer
+        order={timelineOrder}
+        onClose={() => setTimelineOrder(null)}
+        isMobile={isMobile}
+        statusBadge={getStatusBadge}
+      />
     </div>
   )
 }
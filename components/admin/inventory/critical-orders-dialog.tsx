@@ -37,6 +37,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { apiClient } from "@/lib/api";
+import type { CriticalOrder } from "@/lib/api-types";
 import { format } from "date-fns";
 import { useDeviceType } from "@/hooks/use-mobile";
 import { DatePicker } from "@/components/ui/date-picker";
@@ -49,34 +50,6 @@ import {
     TableRow,
 } from "@/components/ui/table";
 
-interface CriticalOrder {
-    order_id: string;
-    unique_id: string;
-    customer_name: string | null;
-    product_name: string | null;
-    product_code: string | null;
-    quantity: number;
-    selling_price: number | null;
-    order_date: string;
-    account_code: string;
-    claims_status: string | null;
-    claimed_by: string | null;
-    claimed_at: string | null;
-    is_critical: number;
-    awb: string | null;
-    carrier_name: string | null;
-    current_shipment_status: string | null;
-    store_name: string | null;
-    vendor_name: string | null;
-    product_image: string | null;
-    image: string | null;
-    status: string;
-    value?: string | number;
-    priority?: string;
-    created_at?: string;
-    store_status?: string;
-}
-
 interface CriticalOrdersDialogProps {
     isOpen: boolean;
     onClose: () => void;
@@ -18,6 +18,7 @@ import {
 } from "@/components/ui/select";
 import { Share2, RefreshCw, Filter, X, Upload, Package } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { apiClient } from "@/lib/api";
 
 interface Product {
   productName: string;
@@ -74,7 +75,7 @@ export const InventoryAggregation = forwardRef<InventoryAggregationRef, Inventor
       setLoading(true);
       try {
         const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
-        const authHeader = localStorage.getItem("authHeader");
+        const authHeader = await apiClient.getAuthorizationHeader();
         const response = await fetch(
           `${API_BASE_URL}/admin/inventory/aggregate`,
           {
@@ -110,7 +111,7 @@ export const InventoryAggregation = forwardRef<InventoryAggregationRef, Inventor
       setRtoLoading(true);
       try {
         const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
-        const authHeader = localStorage.getItem("authHeader");
+        const authHeader = await apiClient.getAuthorizationHeader();
         const response = await fetch(
           `${API_BASE_URL}/admin/inventory/rto`,
           {
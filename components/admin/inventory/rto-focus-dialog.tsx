@@ -33,6 +33,7 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { apiClient } from "@/lib/api";
+import type { RTOFocusOrder } from "@/lib/api-types";
 import { format } from "date-fns";
 import { useDeviceType } from "@/hooks/use-mobile";
 import {
@@ -44,20 +45,6 @@ import {
     TableRow,
 } from "@/components/ui/table";
 
-interface RTOFocusOrder {
-    order_id: string;
-    order_status: string;
-    instance_number: number;
-    days_since_initiated: number;
-    rto_wh: string | null;
-    account_code: string;
-    activity_date: string | null;
-    created_at: string;
-    updated_at: string;
-    awb: string | null;
-    carrier_name: string | null;
-}
-
 interface RTOFocusDialogProps {
     isOpen: boolean;
     onClose: () => void;
@@ -248,7 +235,7 @@ export function RTOFocusDialog({ isOpen, onClose }: RTOFocusDialogProps) {
     };
 
     // Format date
-    const formatDate = (dateString: string | null) => {
+    const formatDate = (dateString?: string | null) => {
         if (!dateString) return "-";
         try {
             return format(new Date(dateString), "dd MMM yyyy");
@@ -20,6 +20,7 @@ import {
 } from "@/components/ui/select";
 import { Upload, Search, Filter, Plus, Minus, Loader2, Package, MapPin } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { apiClient } from "@/lib/api";
 import { RTOManualEntryDialog } from "./rto-manual-entry-dialog";
 
 interface RTOInventoryItem {
@@ -63,7 +64,7 @@ export function RTOUploadDialog({ onRTODataUploaded, open: controlledOpen, onOpe
     setLoading(true);
     try {
       const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
-      const authHeader = localStorage.getItem("authHeader");
+      const authHeader = await apiClient.getAuthorizationHeader();
       const response = await fetch(
         `${API_BASE_URL}/admin/inventory/rto`,
         {
@@ -213,7 +214,7 @@ export function RTOUploadDialog({ onRTODataUploaded, open: controlledOpen, onOpe
       });
 
       const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
-      const authHeader = localStorage.getItem("authHeader");
+      const authHeader = await apiClient.getAuthorizationHeader();
 
       const response = await fetch(`${API_BASE_URL}/admin/inventory/rto`, {
         method: 'PUT',
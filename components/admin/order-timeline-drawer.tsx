@@ -0,0 +1,69 @@
+/**
+ * Order Timeline Drawer
+ * Full lifecycle of an order line from the admin orders list
+ */
+
+'use client';
+
+import React from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { OrderTimeline } from '@/components/order-timeline';
+
+interface OrderTimelineDrawerProps {
+  // Order line from the admin orders list; null closes the drawer
+  order: any | null;
+  onClose: () => void;
+  isMobile: boolean;
+  statusBadge: (status: string) => React.ReactNode;
+}
+
+export function OrderTimelineDrawer({ order, onClose, isMobile, statusBadge }: OrderTimelineDrawerProps) {
+  return (
+    <Sheet open={order !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent
+        side={isMobile ? 'bottom' : 'right'}
+        className={`${isMobile ? 'max-h-[90vh]' : 'w-full sm:max-w-md'} flex flex-col overflow-y-auto`}
+      >
+        {order && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{order.order_id}</SheetTitle>
+              <SheetDescription>
+                {order.store_name ? `${order.store_name} · ` : ''}
+                {order.created_at ? new Date(order.created_at).toLocaleString() : 'Order date not available'}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-5 py-4">
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-xs text-gray-500">Status</p>
+                  {statusBadge(order.status)}
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Vendor</p>
+                  <p className="font-medium break-words">{order.vendor_name || 'Unassigned'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">AWB</p>
+                  <p className="font-medium font-mono text-purple-600 break-all">{order.awb || order.airway_bill || order.airwaybill || 'N/A'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Value</p>
+                  <p className="font-medium">{order.value ? `₹${order.value}` : 'N/A'}</p>
+                </div>
+                <div className="col-span-2">
+                  <p className="text-xs text-gray-500">Product</p>
+                  <p className="font-medium break-words">{order.product_name}</p>
+                  <p className="text-xs text-gray-500">Code: {order.product_code || 'N/A'}</p>
+                </div>
+              </div>
+
+              <OrderTimeline orderId={order.order_id} />
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiClient } from "@/lib/api";
+import type { Settlement } from "@/lib/api-types";
+import { toNumber } from "@/lib/utils";
+
+export type SettlementBulkAction = "approve" | "reject";
+
+interface SettlementBulkActionDialogProps {
+  action: SettlementBulkAction | null;
+  settlements: Settlement[];
+  onOpenChange: (open: boolean) => void;
+  // Called once the backend has processed the batch so the list can refresh
+  onCompleted: () => void;
+}
+
+export function SettlementBulkActionDialog({ action, settlements, onOpenChange, onCompleted }: SettlementBulkActionDialogProps) {
+  const { toast } = useToast();
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (action) setRejectionReason("");
+  }, [action]);
+
+  const total = settlements.reduce((sum, settlement) => sum + toNumber(settlement.amount), 0);
+  const vendorCount = new Set(settlements.map((settlement) => settlement.vendorName)).size;
+  const label = `${settlements.length} settlement${settlements.length === 1 ? "" : "s"}`;
+
+  const handleSubmit = async () => {
+    if (!action || settlements.length === 0) return;
+    if (action === "reject" && !rejectionReason.trim()) {
+      toast({ title: "Missing Rejection Reason", description: "Please provide a reason for rejection", variant: "destructive" });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const ids = settlements.map((settlement) => String(settlement.id));
+      const response = action === "approve"
+        ? await apiClient.bulkApproveSettlements(ids)
+        : await apiClient.bulkRejectSettlements(ids, rejectionReason.trim());
+      if (!response.success || !response.data) {
+        toast({ title: "Bulk Action Failed", description: response.message || "Please try again", variant: "destructive" });
+        return;
+      }
+
+      const { updated, failed } = response.data;
+      toast({
+        title: action === "approve" ? "Settlements Approved" : "Settlements Rejected",
+        description: failed.length
+          ? `${updated.length} updated, ${failed.length} skipped: ${failed.slice(0, 3).map((failure) => `#${failure.settlementId} ${failure.message.toLowerCase()}`).join("; ")}`
+          : response.message,
+        variant: failed.length ? "destructive" : "default",
+      });
+      onOpenChange(false);
+      onCompleted();
+    } catch (error) {
+      console.error("Bulk settlement action error:", error);
+      toast({
+        title: "Bulk Action Failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={action !== null} onOpenChange={(open) => !submitting && onOpenChange(open)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{action === "approve" ? `Approve ${label}` : `Reject ${label}`}</DialogTitle>
+          <DialogDescription>
+            ₹{total.toFixed(2)} requested by {vendorCount} vendor{vendorCount === 1 ? "" : "s"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="max-h-48 overflow-y-auto divide-y rounded-md border text-sm">
+          {settlements.map((settlement) => (
+            <li key={settlement.id} className="flex justify-between gap-2 px-3 py-2">
+              <span className="truncate">#{settlement.id} · {settlement.vendorName}</span>
+              <span className="font-medium whitespace-nowrap">₹{toNumber(settlement.amount).toFixed(2)}</span>
+            </li>
+          ))}
+        </ul>
+
+        {action === "approve" ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Approved settlements are not marked as paid. Record each payment from the list once it has been sent.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="bulk-rejection-reason">Rejection Reason</Label>
+            <Textarea
+              id="bulk-rejection-reason"
+              placeholder="Sent to every selected vendor..."
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            variant={action === "reject" ? "destructive" : "default"}
+            onClick={handleSubmit}
+            disabled={submitting || (action === "reject" && !rejectionReason.trim())}
+          >
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {action === "approve" ? "Approve All" : "Reject All"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
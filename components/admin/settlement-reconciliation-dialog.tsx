@@ -0,0 +1,338 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiClient } from "@/lib/api";
+import type { Settlement } from "@/lib/api-types";
+import { describePayoutMethod } from "@/components/payout-beneficiary";
+import { openAmount, parseStatementFile, proposeMatches, scoreStatementMatch } from "@/lib/settlement-reconciliation";
+import type { MatchConfidence, MatchScore, StatementRow } from "@/lib/settlement-reconciliation";
+
+interface SettlementReconciliationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isMobile: boolean;
+  // Called after settlements were approved so the list can refresh
+  onReconciled: () => void;
+}
+
+interface ReviewLine extends MatchScore {
+  row: StatementRow;
+  settlementId: string | null;
+  confirmed: boolean;
+  error?: string;
+}
+
+const CONFIDENCE_BADGE: Record<MatchConfidence, { label: string; classes: string }> = {
+  high: { label: "High", classes: "bg-green-100 text-green-800" },
+  medium: { label: "Medium", classes: "bg-yellow-100 text-yellow-800" },
+  low: { label: "Low", classes: "bg-orange-100 text-orange-800" },
+  none: { label: "No match", classes: "bg-gray-100 text-gray-700" },
+};
+
+const NO_MATCH = "none";
+
+// Enough to cover every open settlement in one request
+const OPEN_SETTLEMENTS_LIMIT = 500;
+
+export function SettlementReconciliationDialog({ open, onOpenChange, isMobile, onReconciled }: SettlementReconciliationDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [openSettlements, setOpenSettlements] = useState<Settlement[]>([]);
+  const [loadingSettlements, setLoadingSettlements] = useState(false);
+  const [statementName, setStatementName] = useState("");
+  const [parsing, setParsing] = useState(false);
+  const [skippedRows, setSkippedRows] = useState(0);
+  const [lines, setLines] = useState<ReviewLine[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Pending requests plus approved ones that still have money owed on them
+  const fetchOpenSettlements = async () => {
+    setLoadingSettlements(true);
+    try {
+      const [pending, approved] = await Promise.all([
+        apiClient.getAllSettlements({ status: "pending", limit: OPEN_SETTLEMENTS_LIMIT }),
+        apiClient.getAllSettlements({ status: "approved", limit: OPEN_SETTLEMENTS_LIMIT }),
+      ]);
+      setOpenSettlements(
+        [...(pending.data?.settlements || []), ...(approved.data?.settlements || [])].filter((settlement) => openAmount(settlement) > 0)
+      );
+    } catch (error) {
+      console.error("Error fetching open settlements:", error);
+      toast({ title: "Fetch Failed", description: "Failed to load open settlements", variant: "destructive" });
+    } finally {
+      setLoadingSettlements(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      fetchOpenSettlements();
+    } else {
+      setLines([]);
+      setStatementName("");
+      setSkippedRows(0);
+    }
+  }, [open]);
+
+  const settlementsById = useMemo(
+    () => new Map(openSettlements.map((settlement) => [String(settlement.id), settlement])),
+    [openSettlements]
+  );
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setParsing(true);
+    try {
+      const { rows, skipped } = await parseStatementFile(file);
+      const proposed = proposeMatches(rows, openSettlements);
+      setStatementName(file.name);
+      setSkippedRows(skipped);
+      // Only high-confidence matches are ticked up front - the rest need a look first
+      setLines(proposed.map((match) => ({ ...match, confirmed: match.confidence === "high" })));
+      if (rows.length === 0) {
+        toast({ title: "No Payouts Found", description: "The statement has no debit rows to match", variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("Statement import error:", error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not read the statement",
+        variant: "destructive",
+      });
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const updateLine = (rowNumber: number, changes: Partial<ReviewLine>) => {
+    setLines((current) => current.map((line) => (line.row.rowNumber === rowNumber ? { ...line, ...changes } : line)));
+  };
+
+  // Picking another settlement re-scores the row against it
+  const handleSettlementChange = (line: ReviewLine, value: string) => {
+    const settlement = value === NO_MATCH ? undefined : settlementsById.get(value);
+    const score: MatchScore = settlement
+      ? scoreStatementMatch(line.row, settlement)
+      : { score: 0, confidence: "none", reasons: ["Not matched"] };
+    updateLine(line.row.rowNumber, { ...score, settlementId: settlement ? value : null, confirmed: Boolean(settlement), error: undefined });
+  };
+
+  const usedSettlementIds = new Set(lines.map((line) => line.settlementId).filter(Boolean));
+  const confirmedLines = lines.filter((line) => line.confirmed && line.settlementId);
+  const matchedCount = lines.filter((line) => line.settlementId).length;
+
+  const handleApprove = async () => {
+    if (confirmedLines.length === 0) return;
+    setSubmitting(true);
+    try {
+      const response = await apiClient.reconcileSettlements(
+        statementName,
+        confirmedLines.map((line) => ({
+          settlementId: line.settlementId!,
+          amountPaid: line.row.amount,
+          transactionId: line.row.reference || `${statementName} row ${line.row.rowNumber}`,
+          paidAt: line.row.date?.toISOString(),
+          statementRow: line.row.raw,
+        }))
+      );
+      if (!response.success || !response.data) {
+        toast({ title: "Reconciliation Failed", description: response.message || "Please try again", variant: "destructive" });
+        return;
+      }
+
+      const approved = new Set(response.data.approved.map(String));
+      const failures = new Map(response.data.failed.map((failure) => [String(failure.settlementId), failure.message]));
+      // Keep what still needs attention on screen - failed rows show why
+      setLines((current) =>
+        current
+          .filter((line) => !(line.settlementId && approved.has(line.settlementId)))
+          .map((line) => (line.settlementId && failures.has(line.settlementId) ? { ...line, confirmed: false, error: failures.get(line.settlementId) } : line))
+      );
+      setOpenSettlements((current) => current.filter((settlement) => !approved.has(String(settlement.id))));
+      toast({
+        title: "Settlements Reconciled",
+        description: `${approved.size} approved${failures.size ? `, ${failures.size} failed` : ""} from ${statementName}`,
+        variant: failures.size ? "destructive" : "default",
+      });
+      if (approved.size > 0) onReconciled();
+    } catch (error) {
+      console.error("Reconciliation error:", error);
+      toast({
+        title: "Reconciliation Failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const settlementLabel = (settlement: Settlement) =>
+    `#${settlement.id} · ${settlement.vendorName} · ₹${openAmount(settlement).toFixed(2)}`;
+
+  const renderSettlementSelect = (line: ReviewLine) => (
+    <Select value={line.settlementId || NO_MATCH} onValueChange={(value) => handleSettlementChange(line, value)}>
+      <SelectTrigger className={isMobile ? "w-full" : "w-64"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_MATCH}>No match</SelectItem>
+        {openSettlements.map((settlement) => {
+          const settlementId = String(settlement.id);
+          return (
+            <SelectItem
+              key={settlementId}
+              value={settlementId}
+              disabled={settlementId !== line.settlementId && usedSettlementIds.has(settlementId)}
+            >
+              {settlementLabel(settlement)}
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderConfidence = (line: ReviewLine) => (
+    <div className="space-y-1">
+      <Badge variant="secondary" className={CONFIDENCE_BADGE[line.confidence].classes}>
+        {CONFIDENCE_BADGE[line.confidence].label}
+      </Badge>
+      <p className="text-xs text-gray-500">{line.reasons.join(" · ")}</p>
+      {line.settlementId && settlementsById.get(line.settlementId)?.beneficiary && (
+        <p className="text-xs text-gray-500">Pays to {describePayoutMethod(settlementsById.get(line.settlementId)!.beneficiary!)}</p>
+      )}
+      {line.error && <p className="text-xs text-red-600">{line.error}</p>}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={`${isMobile ? "max-w-[95vw] p-4" : "max-w-6xl"} max-h-[90vh] flex flex-col`}>
+        <DialogHeader>
+          <DialogTitle className={isMobile ? "text-lg" : "text-xl"}>Reconcile Bank Statement</DialogTitle>
+          <DialogDescription className={isMobile ? "text-sm" : ""}>
+            Import a payout statement (CSV or XLSX), review the proposed matches and approve the confirmed ones in one go.
+            The statement row is kept as the payment proof.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`flex gap-2 ${isMobile ? "flex-col" : "items-center"}`}>
+          <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleFileChange} />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={parsing || loadingSettlements}>
+            {parsing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            {statementName ? "Import Another Statement" : "Import Statement"}
+          </Button>
+          {statementName && (
+            <span className="flex items-center gap-1 text-sm text-gray-600 min-w-0">
+              <FileSpreadsheet className="w-4 h-4 flex-shrink-0" />
+              <span className="truncate">{statementName}</span>
+            </span>
+          )}
+          <span className={`text-sm text-gray-500 ${isMobile ? "" : "ml-auto"}`}>
+            {loadingSettlements ? "Loading open settlements..." : `${openSettlements.length} open settlements`}
+          </span>
+        </div>
+
+        {lines.length > 0 && (
+          <p className="text-sm text-gray-600">
+            {lines.length} payout rows · {matchedCount} matched · {confirmedLines.length} confirmed
+            {skippedRows > 0 && ` · ${skippedRows} non-payout rows skipped`}
+          </p>
+        )}
+
+        <div className="flex-1 overflow-y-auto min-h-0">
+          {lines.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 py-10">
+              {parsing ? "Reading the statement..." : "Import a statement to see proposed matches"}
+            </div>
+          ) : isMobile ? (
+            <div className="space-y-2">
+              {lines.map((line) => (
+                <div key={line.row.rowNumber} className="p-3 border rounded-lg space-y-2 text-sm">
+                  <div className="flex items-start gap-2">
+                    <Checkbox
+                      checked={line.confirmed}
+                      disabled={!line.settlementId}
+                      onCheckedChange={(checked) => updateLine(line.row.rowNumber, { confirmed: checked === true })}
+                      className="mt-0.5"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-semibold">₹{line.row.amount.toFixed(2)}</span>
+                        <span className="text-xs text-gray-500">
+                          Row {line.row.rowNumber}{line.row.date ? ` · ${format(line.row.date, "dd MMM yyyy")}` : ""}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-600 break-all">{line.row.payee || line.row.narration || "-"}</p>
+                      {line.row.reference && <p className="text-xs font-mono text-blue-600 break-all">{line.row.reference}</p>}
+                    </div>
+                  </div>
+                  {renderSettlementSelect(line)}
+                  {renderConfidence(line)}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader className="sticky top-0 bg-white z-10">
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Row</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Payee</TableHead>
+                  <TableHead>Settlement</TableHead>
+                  <TableHead>Confidence</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.row.rowNumber} className={line.error ? "bg-red-50" : ""}>
+                    <TableCell>
+                      <Checkbox
+                        checked={line.confirmed}
+                        disabled={!line.settlementId}
+                        onCheckedChange={(checked) => updateLine(line.row.rowNumber, { confirmed: checked === true })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">{line.row.rowNumber}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{line.row.date ? format(line.row.date, "dd MMM yyyy") : "-"}</TableCell>
+                    <TableCell className="text-right text-sm font-medium">₹{line.row.amount.toFixed(2)}</TableCell>
+                    <TableCell className="text-sm font-mono max-w-40 truncate" title={line.row.reference}>{line.row.reference || "-"}</TableCell>
+                    <TableCell className="text-sm max-w-48 truncate" title={line.row.narration}>{line.row.payee || line.row.narration || "-"}</TableCell>
+                    <TableCell>{renderSettlementSelect(line)}</TableCell>
+                    <TableCell className="max-w-64">{renderConfidence(line)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <DialogFooter className={isMobile ? "flex-col gap-2" : ""}>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleApprove} disabled={confirmedLines.length === 0 || submitting} className="bg-green-600 hover:bg-green-700">
+            {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+            Approve {confirmedLines.length} Confirmed
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,12 @@
 "use client"
 
 import type React from "react"
-import { createContext, useContext, useEffect, useState } from "react"
+import { createContext, useContext, useEffect, useRef, useState } from "react"
 import { useRouter } from "next/navigation"
 import { apiClient } from "@/lib/api"
+import { sessionStore } from "@/lib/session"
 import { useClientOnly } from "@/hooks/use-client-only"
+import { SessionExpiredDialog } from "./session-expired-dialog"
 
 interface User {
   id: string
@@ -22,40 +24,36 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>
   logout: () => void
   loading: boolean
-  authHeader: string | null
-  vendorToken: string | null
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
-  const [authHeader, setAuthHeader] = useState<string | null>(null)
-  const [vendorToken, setVendorToken] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  const [sessionExpired, setSessionExpired] = useState(false)
   const isClient = useClientOnly()
   const router = useRouter()
 
   useEffect(() => {
     if (!isClient) return
 
+    // Basic Auth credentials from before token sessions can't be refreshed - sign in again
+    sessionStore.clearLegacyCredentials()
+
     // Check for stored auth data on mount
-    const storedAuthHeader = localStorage.getItem("authHeader")
-    const storedVendorToken = localStorage.getItem("vendorToken")
+    const storedSession = sessionStore.get()
     const userData = localStorage.getItem("user_data")
 
     console.log("🔑 Auth Provider: Checking stored auth on mount")
-    console.log("  - authHeader exists:", !!storedAuthHeader)
-    console.log("  - vendorToken exists:", !!storedVendorToken)
+    console.log("  - session exists:", !!storedSession)
     console.log("  - userData exists:", !!userData)
 
-    if (storedAuthHeader && userData) {
+    if (storedSession && userData) {
       try {
         const parsedUser = JSON.parse(userData)
         console.log("✅ Auth Provider: Restoring user session", parsedUser.role)
         setUser(parsedUser)
-        setAuthHeader(storedAuthHeader)
-        setVendorToken(storedVendorToken)
         
         // Auto-redirect to appropriate dashboard if on login page
         const currentPath = window.location.pathname
@@ -75,33 +73,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
       } catch (error) {
         console.error("❌ Auth Provider: Error parsing stored user data:", error)
-        localStorage.removeItem("authHeader")
-        localStorage.removeItem("vendorToken")
+        sessionStore.clear()
         localStorage.removeItem("user_data")
       }
     } else {
       console.log("ℹ️ Auth Provider: No stored auth found")
+      localStorage.removeItem("user_data")
     }
     setLoading(false)
   }, [isClient, router])
 
   const login = async (email: string, password: string) => {
     try {
-      // Call the backend API to generate Basic Auth header
-      const response = await apiClient.generateAuthHeader(email, password)
+      // ApiClient stores the access/refresh tokens; we only keep the profile
+      const response = await apiClient.login(email, password)
 
       if (response.success) {
-        // Store auth header and user data
-        localStorage.setItem("authHeader", response.data.authHeader)
         localStorage.setItem("user_data", JSON.stringify(response.data.user))
         setUser(response.data.user)
-        setAuthHeader(response.data.authHeader)
-
-        // Store vendor token if present (for vendors)
-        if (response.data.vendorToken) {
-          localStorage.setItem("vendorToken", response.data.vendorToken)
-          setVendorToken(response.data.vendorToken)
-        }
 
         // Redirect based on role
         switch (response.data.user.role) {
@@ -126,43 +115,88 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // Re-login from the session-expired dialog: refresh credentials in place, no redirect
+  const reauthenticate = async (password: string) => {
+    if (!user) return
+
+    const response = await apiClient.login(user.email, password)
+    if (!response.success) {
+      throw new Error(response.message || 'Login failed')
+    }
+
+    localStorage.setItem("user_data", JSON.stringify(response.data.user))
+    setUser(response.data.user)
+    setSessionExpired(false)
+    apiClient.resumeAfterReauthentication()
+  }
+
+  const handleSessionExpiredLogout = () => {
+    setSessionExpired(false)
+    apiClient.abandonReauthentication()
+    logout()
+  }
+
   const logout = async () => {
+    // Revoke the session on the backend (fire and forget) - ApiClient drops the local
+    // tokens synchronously, so the request still carries the old access token
+    try {
+      apiClient.logout().catch(error => {
+        console.error("Backend logout error:", error)
+      })
+    } catch (error) {
+      console.error("Logout error:", error)
+    }
+
     // Immediately clear state and localStorage for faster response
-    localStorage.removeItem("authHeader")
-    localStorage.removeItem("vendorToken")
     localStorage.removeItem("user_data")
     setUser(null)
-    setAuthHeader(null)
-    setVendorToken(null)
-    
+
     // Redirect immediately for better UX (use replace to prevent back button issues)
     router.replace("/")
-    
-    // Then try to call backend logout (fire and forget)
-    try {
-      if (authHeader) {
-        // Don't await this - let it run in background
-        apiClient.logout().catch(error => {
-          console.error("Backend logout error:", error)
-        })
-      }
-    } catch (error) {
-      console.error("Logout error:", error)
-    }
   }
 
+  // The ApiClient listeners below outlive renders - always call the latest logout
+  const logoutRef = useRef(logout)
+  logoutRef.current = logout
+  const isSignedIn = user !== null
+
+  // ApiClient reports rejected credentials here; the dialog stays up until the user signs back in or logs out
+  useEffect(() => {
+    if (!isSignedIn) return
+
+    return apiClient.onSessionExpired(() => setSessionExpired(true))
+  }, [isSignedIn])
+
+  // Refresh token rejected - ApiClient has already dropped the session, finish the logout here
+  useEffect(() => {
+    if (!isSignedIn) return
+
+    return apiClient.onLoggedOut(() => {
+      setSessionExpired(false)
+      logoutRef.current()
+    })
+  }, [isSignedIn])
+
   // Prevent hydration mismatch by not rendering until client-side
   if (!isClient) {
     return (
-      <AuthContext.Provider value={{ user: null, login, logout, loading: true, authHeader: null, vendorToken: null }}>
+      <AuthContext.Provider value={{ user: null, login, logout, loading: true }}>
         {children}
       </AuthContext.Provider>
     )
   }
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, loading, authHeader, vendorToken }}>
+    <AuthContext.Provider value={{ user, login, logout, loading }}>
       {children}
+      {user && (
+        <SessionExpiredDialog
+          open={sessionExpired}
+          email={user.email}
+          onReauthenticate={reauthenticate}
+          onLogout={handleSessionExpiredLogout}
+        />
+      )}
     </AuthContext.Provider>
   )
 }
@@ -0,0 +1,129 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2, Eye, EyeOff, Lock } from "lucide-react"
+
+interface SessionExpiredDialogProps {
+  open: boolean
+  email: string
+  onReauthenticate: (password: string) => Promise<void>
+  onLogout: () => void
+}
+
+// Shown in place over the current page so whatever the user was doing (bulk selection,
+// open dialogs) survives - the request that hit the 401 is retried after sign-in.
+export function SessionExpiredDialog({ open, email, onReauthenticate, onLogout }: SessionExpiredDialogProps) {
+  const [password, setPassword] = useState("")
+  const [showPassword, setShowPassword] = useState(false)
+  const [error, setError] = useState("")
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setPassword("")
+      setError("")
+    }
+  }, [open])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setLoading(true)
+
+    try {
+      await onReauthenticate(password)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid email or password")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open}>
+      <DialogContent
+        className="sm:max-w-md [&>button]:hidden"
+        onInteractOutside={(e) => e.preventDefault()}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5 text-blue-600" />
+            Session Expired
+          </DialogTitle>
+          <DialogDescription>
+            Your session has expired. Sign in again to continue where you left off.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="session-email">Email</Label>
+            <Input id="session-email" type="email" value={email} disabled={true} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="session-password">Password</Label>
+            <div className="relative">
+              <Input
+                id="session-password"
+                type={showPassword ? "text" : "password"}
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required={true}
+                disabled={loading}
+                autoComplete="current-password"
+                autoFocus
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                onClick={() => setShowPassword(!showPassword)}
+                disabled={loading}
+              >
+                {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onLogout} disabled={loading}>
+              Log Out
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Signing in...
+                </>
+              ) : (
+                "Sign In"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
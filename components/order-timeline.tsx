@@ -0,0 +1,131 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import {
+  Circle, ClipboardList, Download, Handshake, Loader2, PackagePlus, RefreshCw, RotateCcw,
+  Tag, Truck, Undo2, UserCheck, UserMinus, UserPlus, Wallet,
+} from "lucide-react"
+import type { LucideIcon } from "lucide-react"
+import { apiClient, isAbortError } from "@/lib/api"
+import type { OrderTimelineEvent } from "@/lib/api-types"
+import { getShipmentDisplayName } from "@/components/vendor/tabs/shipment-status"
+import type { ShipmentStatusMapping } from "@/components/vendor/tabs/shipment-status"
+
+const EVENT_TYPES: Record<string, { title: string; icon: LucideIcon; color: string }> = {
+  created: { title: "Order created", icon: PackagePlus, color: "bg-gray-100 text-gray-600" },
+  claimed: { title: "Claimed", icon: UserCheck, color: "bg-blue-100 text-blue-600" },
+  assigned: { title: "Assigned by admin", icon: UserPlus, color: "bg-blue-100 text-blue-600" },
+  unassigned: { title: "Unassigned by admin", icon: UserMinus, color: "bg-orange-100 text-orange-600" },
+  reversed: { title: "Reversed", icon: Undo2, color: "bg-orange-100 text-orange-600" },
+  "label-generated": { title: "Label generated", icon: Tag, color: "bg-purple-100 text-purple-600" },
+  "label-downloaded": { title: "Label downloaded", icon: Download, color: "bg-purple-100 text-purple-600" },
+  manifested: { title: "Manifest created", icon: ClipboardList, color: "bg-indigo-100 text-indigo-600" },
+  handover: { title: "Handed over", icon: Handshake, color: "bg-green-100 text-green-600" },
+  "shipment-status": { title: "Shipment status", icon: Truck, color: "bg-yellow-100 text-yellow-700" },
+  rto: { title: "RTO", icon: RotateCcw, color: "bg-red-100 text-red-600" },
+  settlement: { title: "Included in settlement", icon: Wallet, color: "bg-emerald-100 text-emerald-600" },
+}
+
+interface OrderTimelineProps {
+  orderId: string
+  // Renames raw shipment statuses the same way the order badges do
+  shipmentStatusMapping?: ShipmentStatusMapping[]
+}
+
+// Lifecycle of one order from the timeline endpoint, oldest step first
+export function OrderTimeline({ orderId, shipmentStatusMapping = [] }: OrderTimelineProps) {
+  const [events, setEvents] = useState<OrderTimelineEvent[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTimeline = useCallback(async (signal?: AbortSignal) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await apiClient.getOrderTimeline(orderId, signal)
+      if (response.success && response.data) {
+        setEvents(response.data.events)
+      } else {
+        setError(response.message || "Failed to load order timeline")
+      }
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error("Error fetching order timeline:", error)
+      setError(error instanceof Error ? error.message : "Failed to load order timeline")
+    } finally {
+      if (!signal?.aborted) setLoading(false)
+    }
+  }, [orderId])
+
+  useEffect(() => {
+    setEvents([])
+    const controller = new AbortController()
+    loadTimeline(controller.signal)
+    return () => controller.abort()
+  }, [loadTimeline])
+
+  const describeStatus = (event: OrderTimelineEvent) => {
+    if (!event.status) return null
+    return event.type === "shipment-status" ? getShipmentDisplayName(event.status, shipmentStatusMapping) : event.status
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">Timeline</h4>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2"
+          onClick={() => loadTimeline()}
+          disabled={loading}
+          title="Refresh timeline"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : loading && events.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 py-2">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading timeline...
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500 py-2">No activity recorded for this order yet</p>
+      ) : (
+        <ol className="relative">
+          {events.map((event, index) => {
+            const type = EVENT_TYPES[event.type] || { title: event.type, icon: Circle, color: "bg-gray-100 text-gray-600" }
+            const Icon = type.icon
+            const status = describeStatus(event)
+            return (
+              <li key={event.id} className="relative flex gap-3 pb-4 last:pb-0">
+                {index < events.length - 1 && <span className="absolute left-3.5 top-7 bottom-0 w-px bg-gray-200" aria-hidden />}
+                <span className={`flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center ${type.color}`}>
+                  <Icon className="w-3.5 h-3.5" />
+                </span>
+                <div className="flex-1 min-w-0 text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="font-medium">
+                      {type.title}
+                      {status && <span className="font-normal text-gray-600">: {status}</span>}
+                    </span>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {format(new Date(event.at), "dd MMM yyyy, HH:mm")}
+                    </span>
+                  </div>
+                  {event.description && <p className="text-xs text-gray-600 break-words">{event.description}</p>}
+                  {event.actor_name && <p className="text-xs text-gray-500">by {event.actor_name}</p>}
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
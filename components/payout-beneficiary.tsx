@@ -0,0 +1,101 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Building2, CheckCircle, Clock, Smartphone, XCircle } from "lucide-react"
+import type { PayoutMethod, SettlementBeneficiary } from "@/lib/api-types"
+
+interface PayoutVerificationBadgeProps {
+  status: string | undefined
+}
+
+interface SettlementBeneficiaryDetailsProps {
+  beneficiary: SettlementBeneficiary | undefined
+  // Payee of requests made before payout methods existed
+  upiId?: string
+}
+
+// Short one-line label of a payout method, e.g. "UPI · mu********@okhdfc" or "HDFC Bank · XXXX5678"
+export const describePayoutMethod = (method: Pick<PayoutMethod, "type" | "upiId" | "accountNumber" | "bankName">) =>
+  method.type === "upi"
+    ? `UPI · ${method.upiId || ""}`
+    : `${method.bankName || "Bank account"} · ${method.accountNumber || ""}`
+
+// Verified / pending / failed pill for a payout method or settlement beneficiary
+export function PayoutVerificationBadge({ status }: PayoutVerificationBadgeProps) {
+  switch (status) {
+    case "verified":
+      return (
+        <Badge variant="secondary" className="bg-green-100 text-green-800 gap-1">
+          <CheckCircle className="w-3 h-3" />
+          Verified
+        </Badge>
+      )
+    case "failed":
+      return (
+        <Badge variant="secondary" className="bg-red-100 text-red-800 gap-1">
+          <XCircle className="w-3 h-3" />
+          Failed
+        </Badge>
+      )
+    case "pending":
+      return (
+        <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 gap-1">
+          <Clock className="w-3 h-3" />
+          Pending
+        </Badge>
+      )
+    default:
+      return (
+        <Badge variant="secondary" className="bg-gray-100 text-gray-700">
+          Unverified
+        </Badge>
+      )
+  }
+}
+
+// Who a settlement is paid to - the verified beneficiary, or the raw UPI ID on older requests
+export function SettlementBeneficiaryDetails({ beneficiary, upiId }: SettlementBeneficiaryDetailsProps) {
+  if (!beneficiary) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Smartphone className="w-4 h-4 text-gray-500" />
+          <span className="font-mono break-all">{upiId || "N/A"}</span>
+        </div>
+        <p className="text-xs text-gray-500">Entered manually - not verified</p>
+      </div>
+    )
+  }
+
+  const Icon = beneficiary.type === "upi" ? Smartphone : Building2
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Icon className="w-4 h-4 text-gray-500" />
+        <span className="font-medium">{beneficiary.name || "Name not available"}</span>
+        <PayoutVerificationBadge status={beneficiary.verificationStatus} />
+      </div>
+      {beneficiary.type === "upi" ? (
+        <p className="text-sm">
+          <span className="text-gray-500">UPI ID: </span>
+          <span className="font-mono break-all">{beneficiary.upiId}</span>
+        </p>
+      ) : (
+        <>
+          <p className="text-sm">
+            <span className="text-gray-500">Account: </span>
+            <span className="font-mono break-all">{beneficiary.accountNumber}</span>
+          </p>
+          <p className="text-sm">
+            <span className="text-gray-500">IFSC: </span>
+            <span className="font-mono">{beneficiary.ifsc}</span>
+            {beneficiary.bankName && <span className="text-gray-500"> · {beneficiary.bankName}</span>}
+          </p>
+        </>
+      )}
+      {beneficiary.verifiedAt && (
+        <p className="text-xs text-gray-500">Verified on {new Date(beneficiary.verifiedAt).toLocaleDateString("en-IN")}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { format } from "date-fns"
+import { Progress } from "@/components/ui/progress"
+import { CalendarClock, CheckCircle, CircleDollarSign, Send, ShieldCheck, XCircle } from "lucide-react"
+import type { Settlement, SettlementEvent } from "@/lib/api-types"
+import { toNumber } from "@/lib/utils"
+
+interface SettlementProgressProps {
+  settlement: Pick<Settlement, "amount" | "amountPaid" | "remainingAmount" | "status">
+}
+
+interface SettlementTimelineProps {
+  events: SettlementEvent[] | undefined
+}
+
+const EVENT_META: Record<string, { title: string; icon: typeof Send; classes: string }> = {
+  requested: { title: "Requested", icon: Send, classes: "bg-blue-100 text-blue-700" },
+  "auto-requested": { title: "Raised by settlement cycle", icon: CalendarClock, classes: "bg-indigo-100 text-indigo-700" },
+  approved: { title: "Approved", icon: ShieldCheck, classes: "bg-green-100 text-green-700" },
+  payment: { title: "Payment sent", icon: CircleDollarSign, classes: "bg-emerald-100 text-emerald-700" },
+  settled: { title: "Fully settled", icon: CheckCircle, classes: "bg-green-100 text-green-700" },
+  rejected: { title: "Rejected", icon: XCircle, classes: "bg-red-100 text-red-700" },
+}
+
+// Amount still owed on a settlement; older backends don't send remainingAmount
+export const getSettlementRemaining = (settlement: SettlementProgressProps["settlement"]) =>
+  settlement.status === "rejected"
+    ? 0
+    : settlement.remainingAmount !== undefined
+      ? toNumber(settlement.remainingAmount)
+      : Math.max(0, toNumber(settlement.amount) - toNumber(settlement.amountPaid))
+
+// Paid vs remaining bar of an approved settlement
+export function SettlementProgress({ settlement }: SettlementProgressProps) {
+  const amount = toNumber(settlement.amount)
+  const paid = toNumber(settlement.amountPaid)
+  const remaining = getSettlementRemaining(settlement)
+  return (
+    <div className="space-y-1">
+      <Progress value={amount > 0 ? Math.min(100, (paid / amount) * 100) : 0} className="h-2" />
+      <div className="flex justify-between text-xs">
+        <span className="text-green-700">Paid ₹{paid.toFixed(2)} of ₹{amount.toFixed(2)}</span>
+        <span className={remaining > 0 ? "text-orange-700 font-medium" : "text-gray-500"}>
+          {remaining > 0 ? `₹${remaining.toFixed(2)} remaining` : "Nothing remaining"}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+// Status history of a settlement request, oldest first
+export function SettlementTimeline({ events }: SettlementTimelineProps) {
+  if (!events || events.length === 0) {
+    return <p className="text-sm text-gray-500">No status history for this request</p>
+  }
+
+  return (
+    <ol className="relative">
+      {events.map((event, index) => {
+        const meta = EVENT_META[event.type] || { title: event.type, icon: Send, classes: "bg-gray-100 text-gray-700" }
+        const Icon = meta.icon
+        return (
+          <li key={`${event.type}-${event.at}-${index}`} className="relative flex gap-3 pb-3 last:pb-0">
+            {index < events.length - 1 && <span className="absolute left-3.5 top-7 bottom-0 w-px bg-gray-200" aria-hidden />}
+            <span className={`flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center ${meta.classes}`}>
+              <Icon className="w-3.5 h-3.5" />
+            </span>
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="flex items-start justify-between gap-2">
+                <span className="font-medium">
+                  {meta.title}
+                  {event.amount !== undefined && <span className="text-gray-600 font-normal"> · ₹{toNumber(event.amount).toFixed(2)}</span>}
+                </span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">{format(new Date(event.at), "dd MMM yyyy, HH:mm")}</span>
+              </div>
+              {event.actorName && <p className="text-xs text-gray-500">by {event.actorName}</p>}
+              {event.note && <p className="text-xs text-gray-600 break-words">{event.type === "payment" ? `Ref: ${event.note}` : event.note}</p>}
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -56,6 +56,7 @@ import {
   XCircle
 } from "lucide-react"
 import { apiClient } from "@/lib/api"
+import { sessionStore } from "@/lib/session"
 import { useAuth } from "@/components/auth/auth-provider"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { useDeviceType } from "@/hooks/use-mobile"
@@ -309,10 +310,7 @@ export function UserManagement() {
     setWarehouseVerifyError("")
 
     try {
-      // Get auth header from localStorage
-      const authHeader = localStorage.getItem('authHeader')
-
-      if (!authHeader) {
+      if (!sessionStore.get()) {
         setWarehouseValid(false)
         setWarehouseVerifyError('Authentication required. Please login again.')
         return
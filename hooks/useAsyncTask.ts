@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { apiClient } from '@/lib/api';
 
 /**
  * useAsyncTask — Smart polling hook for PWA background operations.
@@ -59,9 +60,14 @@ function saveToStorage(tasks: Omit<PendingTask, 'onComplete' | 'onError'>[]) {
     }
 }
 
-function getAuthHeader(): string {
+async function getAuthHeader(): Promise<string> {
     if (typeof window === 'undefined') return '';
-    return localStorage.getItem('authHeader') || localStorage.getItem('vendorToken') || '';
+    try {
+        // Same session as every other request - refreshes the access token if it is about to expire
+        return (await apiClient.getAuthorizationHeader()) || '';
+    } catch {
+        return '';
+    }
 }
 
 export function useAsyncTask() {
@@ -77,7 +83,7 @@ export function useAsyncTask() {
 
     // ── Poll for a single task ────────────────────────────────────────────────
     const pollTask = useCallback(async (taskId: string) => {
-        const authHeader = getAuthHeader();
+        const authHeader = await getAuthHeader();
         try {
             const res = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
                 headers: authHeader ? { Authorization: authHeader } : {}
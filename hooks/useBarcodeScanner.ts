@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+// Same code seen again within this window (ms) is the same scan, not a new one
+const REPEAT_SCAN_WINDOW_MS = 2000;
+
+// How often (ms) a frame is handed to the native detector
+const NATIVE_SCAN_INTERVAL_MS = 200;
+
+// Label barcodes (AWB), product codes and QR codes on packing slips
+const NATIVE_FORMATS = ['code_128', 'code_39', 'code_93', 'codabar', 'ean_13', 'ean_8', 'itf', 'upc_a', 'upc_e', 'qr_code', 'data_matrix'];
+
+// Shape of the browser BarcodeDetector API (not in TypeScript's DOM lib yet)
+interface DetectedBarcode {
+    rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+    detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+    new (options?: { formats?: string[] }): BarcodeDetectorInstance;
+    getSupportedFormats?: () => Promise<string[]>;
+}
+
+export type BarcodeScannerEngine = 'native' | 'zxing';
+
+interface UseBarcodeScannerOptions {
+    // Camera runs only while active (e.g. while the scanner dialog is open)
+    active: boolean;
+    onScan: (code: string) => void;
+}
+
+function getNativeDetector(): BarcodeDetectorConstructor | null {
+    if (typeof window === 'undefined') return null;
+    return ((window as any).BarcodeDetector as BarcodeDetectorConstructor | undefined) ?? null;
+}
+
+function describeCameraError(err: any): string {
+    if (err?.name === 'NotAllowedError') return 'Camera permission was denied. Allow camera access to scan.';
+    if (err?.name === 'NotFoundError') return 'No camera found on this device.';
+    if (typeof navigator !== 'undefined' && !navigator.mediaDevices) return 'Camera access needs a secure (https) connection.';
+    return err?.message || 'Could not start the camera';
+}
+
+/**
+ * useBarcodeScanner — read barcodes / QR codes from the rear camera into `onScan`.
+ *
+ * Uses the browser's BarcodeDetector where it exists (Chrome on Android) and falls back to
+ * the ZXing decoder (loaded on demand) everywhere else. Attach `videoRef` to a <video> that
+ * shows the preview. Each distinct code is reported once until it leaves the frame for a
+ * couple of seconds, so holding a label in view doesn't repeat it.
+ */
+export function useBarcodeScanner({ active, onScan }: UseBarcodeScannerOptions) {
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const [engine, setEngine] = useState<BarcodeScannerEngine | null>(null);
+    const [starting, setStarting] = useState(false);
+    const [error, setError] = useState('');
+
+    // Keep the latest callback without restarting the camera on every render
+    const onScanRef = useRef(onScan);
+    onScanRef.current = onScan;
+
+    useEffect(() => {
+        if (!active) return;
+
+        let stopped = false;
+        let stream: MediaStream | null = null;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let stopDecoder: (() => void) | undefined;
+        let lastCode = '';
+        let lastSeenAt = 0;
+
+        const report = (raw: string) => {
+            const code = raw.trim();
+            if (!code || stopped) return;
+            const now = Date.now();
+            const repeated = code === lastCode && now - lastSeenAt < REPEAT_SCAN_WINDOW_MS;
+            lastCode = code;
+            lastSeenAt = now;
+            if (!repeated) onScanRef.current(code);
+        };
+
+        const start = async () => {
+            setStarting(true);
+            setError('');
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({
+                    video: { facingMode: { ideal: 'environment' } },
+                    audio: false,
+                });
+                const video = videoRef.current;
+                if (stopped || !video) {
+                    // Closed while the permission prompt was open - cleanup ran before there was a stream to stop
+                    stream.getTracks().forEach((track) => track.stop());
+                    return;
+                }
+                video.srcObject = stream;
+                video.setAttribute('playsinline', 'true');
+                await video.play();
+
+                const NativeDetector = getNativeDetector();
+                const supported = NativeDetector?.getSupportedFormats ? await NativeDetector.getSupportedFormats() : [];
+                const formats = NATIVE_FORMATS.filter((format) => supported.includes(format));
+
+                if (NativeDetector && formats.length > 0) {
+                    const detector = new NativeDetector({ formats });
+                    setEngine('native');
+                    console.log('📷 Barcode scanner started (BarcodeDetector):', formats.join(', '));
+
+                    const scanFrame = async () => {
+                        if (stopped) return;
+                        try {
+                            if (video.readyState >= 2) {
+                                const barcodes = await detector.detect(video);
+                                barcodes.forEach((barcode) => report(barcode.rawValue));
+                            }
+                        } catch (err) {
+                            console.warn('⚠️ Barcode detection failed for a frame:', err);
+                        }
+                        timer = setTimeout(scanFrame, NATIVE_SCAN_INTERVAL_MS);
+                    };
+                    scanFrame();
+                } else {
+                    const { BrowserMultiFormatReader } = await import('@zxing/browser');
+                    if (stopped) return;
+                    const reader = new BrowserMultiFormatReader();
+                    const controls = await reader.decodeFromStream(stream, video, (result) => {
+                        if (result) report(result.getText());
+                    });
+                    stopDecoder = () => controls.stop();
+                    if (stopped) stopDecoder();
+                    setEngine('zxing');
+                    console.log('📷 Barcode scanner started (ZXing fallback)');
+                }
+            } catch (err: any) {
+                if (stopped) return;
+                console.error('❌ Failed to start barcode scanner:', err);
+                setError(describeCameraError(err));
+            } finally {
+                if (!stopped) setStarting(false);
+            }
+        };
+
+        start();
+
+        return () => {
+            stopped = true;
+            if (timer) clearTimeout(timer);
+            stopDecoder?.();
+            stream?.getTracks().forEach((track) => track.stop());
+            if (videoRef.current) videoRef.current.srcObject = null;
+            setEngine(null);
+            setStarting(false);
+        };
+    }, [active]);
+
+    return { videoRef, engine, starting, error };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { offlineOutbox } from '@/lib/offline-outbox';
+import type { OutboxEntry, OutboxReplayResult } from '@/lib/offline-outbox';
+
+/**
+ * useOfflineOutbox — React view of the IndexedDB outbox.
+ *
+ * Returns the queued entries plus a lookup by unique_id / order_id so order rows can
+ * show "pending sync" / "sync failed" badges. `onReplayResult` fires for every replayed
+ * entry (refresh lists, toast conflicts).
+ */
+export function useOfflineOutbox(onReplayResult?: (result: OutboxReplayResult) => void) {
+    const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+    // Keep the latest callback without re-subscribing on every render
+    const onReplayResultRef = useRef(onReplayResult);
+    onReplayResultRef.current = onReplayResult;
+
+    useEffect(() => {
+        const unsubscribe = offlineOutbox.subscribe(setEntries);
+        const unsubscribeResults = offlineOutbox.onReplayResult((result) => onReplayResultRef.current?.(result));
+        return () => {
+            unsubscribe();
+            unsubscribeResults();
+        };
+    }, []);
+
+    const entriesByOrderId = useMemo(() => {
+        const map = new Map<string, OutboxEntry>();
+        entries.forEach((entry) => entry.orderIds.forEach((orderId) => map.set(orderId, entry)));
+        return map;
+    }, [entries]);
+
+    return {
+        entries,
+        entriesByOrderId,
+        retry: (id: string) => offlineOutbox.retry(id),
+        discard: (id: string) => offlineOutbox.discard(id),
+    };
+}
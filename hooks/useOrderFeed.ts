@@ -0,0 +1,29 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { orderFeed } from '@/lib/order-feed';
+import type { OrderFeedMessage, OrderFeedMode } from '@/lib/order-feed';
+
+/**
+ * useOrderFeed — subscribe a component to the real-time order feed.
+ *
+ * `onMessage` receives every pushed event (and `resync` requests) with the latest
+ * component state in scope. Returns the connection mode so the UI can show
+ * live / polling status.
+ */
+export function useOrderFeed(onMessage: (message: OrderFeedMessage) => void, enabled: boolean = true) {
+    const [mode, setMode] = useState<OrderFeedMode>('idle');
+
+    // Keep the latest callback without re-subscribing on every render
+    const onMessageRef = useRef(onMessage);
+    onMessageRef.current = onMessage;
+
+    useEffect(() => orderFeed.onModeChange(setMode), []);
+
+    useEffect(() => {
+        if (!enabled) return;
+        return orderFeed.subscribe((message) => onMessageRef.current(message));
+    }, [enabled]);
+
+    return { mode };
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { vendorOrderStore } from '@/lib/vendor-order-store';
+import type { OrderListParams, OrderListState, VendorOrderListKey } from '@/lib/vendor-order-store';
+import type { TabFilterValues } from '@/lib/vendor-filter-prefs';
+
+// Distance from the bottom of the page (px) at which the next page is requested
+const SCROLL_THRESHOLD_PX = 200;
+
+// How long (ms) a focused row stays highlighted after it is scrolled into view
+const FOCUS_HIGHLIGHT_MS = 2500;
+
+/**
+ * useOrderList — subscribe to a single list in the vendor order store.
+ *
+ * Only changes to that list re-render the caller; other tabs loading or patching
+ * their lists don't.
+ */
+export function useOrderList<T = any>(key: VendorOrderListKey): OrderListState<T> {
+    const getSnapshot = useCallback(() => vendorOrderStore.getList<T>(key), [key]);
+    return useSyncExternalStore(vendorOrderStore.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * useOrderListFilters — subscribe to the filters of a single list.
+ *
+ * Filter bar widgets use this so loading or patching the list's orders doesn't re-render them.
+ */
+export function useOrderListFilters(key: VendorOrderListKey): TabFilterValues {
+    const getSnapshot = useCallback(() => vendorOrderStore.getList(key).filters, [key]);
+    return useSyncExternalStore(vendorOrderStore.subscribe, getSnapshot, getSnapshot);
+}
+
+interface UsePaginatedListOptions {
+    // Server-side filters; a change reloads the list from page 1
+    params?: OrderListParams;
+    // Load the next page when the window is scrolled near the bottom
+    infiniteScroll?: boolean;
+    // Called after a silent refresh that brought in items the list didn't have
+    onNewItems?: (count: number) => void;
+}
+
+/**
+ * usePaginatedList — own one list of the vendor order store for as long as the calling
+ * component is mounted.
+ *
+ * The first mount loads page 1 with a spinner; later mounts show what the store kept and
+ * refresh it in the background. Unmounting cancels the list's in-flight fetch.
+ */
+export function usePaginatedList<T = any>(key: VendorOrderListKey, options: UsePaginatedListOptions = {}) {
+    const { params, infiniteScroll = true } = options;
+    const list = useOrderList<T>(key);
+    const paramsKey = JSON.stringify(params ?? null);
+
+    // Keep the latest callback without re-running the load effect on every render
+    const onNewItemsRef = useRef(options.onNewItems);
+    onNewItemsRef.current = options.onNewItems;
+
+    useEffect(() => {
+        const current = vendorOrderStore.getList(key);
+        if (current.loaded && vendorOrderStore.getParamsKey(key) === paramsKey) {
+            vendorOrderStore.refresh(key).then((added) => {
+                if (added > 0) onNewItemsRef.current?.(added);
+            });
+        } else {
+            vendorOrderStore.load(key, { reset: true, params: JSON.parse(paramsKey) ?? undefined });
+        }
+        return () => vendorOrderStore.cancel(key);
+    }, [key, paramsKey]);
+
+    useEffect(() => {
+        if (!infiniteScroll) return;
+
+        const handleScroll = () => {
+            const scrolledToBottom =
+                window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - SCROLL_THRESHOLD_PX;
+            if (scrolledToBottom) {
+                vendorOrderStore.loadMore(key);
+            }
+        };
+
+        window.addEventListener('scroll', handleScroll, { passive: true });
+        return () => window.removeEventListener('scroll', handleScroll);
+    }, [key, infiniteScroll]);
+
+    const reload = useCallback(() => vendorOrderStore.load(key, { reset: true, params: JSON.parse(paramsKey) ?? undefined }), [key, paramsKey]);
+    const loadMore = useCallback(() => vendorOrderStore.loadMore(key), [key]);
+    const setSelected = useCallback(
+        (selected: string[] | ((previous: string[]) => string[])) => vendorOrderStore.setSelection(key, selected),
+        [key]
+    );
+
+    return { ...list, reload, loadMore, setSelected };
+}
+
+/**
+ * useFocusedItem — scroll the list's focused item (vendorOrderStore.focusItem, e.g. a scanned
+ * order) into view once the tab showing it has rendered, then clear the request.
+ *
+ * Returns the key of the row to highlight for a moment afterwards.
+ */
+export function useFocusedItem(key: VendorOrderListKey, scrollToKey: (itemKey: string) => boolean): string | null {
+    const { focused } = useOrderList(key);
+    const [highlighted, setHighlighted] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!focused) return;
+        if (scrollToKey(focused)) {
+            setHighlighted(focused);
+        }
+        vendorOrderStore.focusItem(key, null);
+    }, [key, focused, scrollToKey]);
+
+    useEffect(() => {
+        if (!highlighted) return;
+        const timer = setTimeout(() => setHighlighted(null), FOCUS_HIGHLIGHT_MS);
+        return () => clearTimeout(timer);
+    }, [highlighted]);
+
+    return highlighted;
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Rows rendered before the first scroll measurement (SSR and first paint)
+const INITIAL_ROW_COUNT = 30;
+
+interface UseWindowVirtualizerOptions<T> {
+    items: T[];
+    // Stable identity per item - measured heights follow the item when rows are inserted above it
+    getItemKey: (item: T, index: number) => string;
+    // Height (px) assumed for rows that haven't been rendered yet
+    estimateSize: number;
+    // Rows kept rendered above and below the viewport
+    overscan?: number;
+}
+
+export interface VirtualRow<T> {
+    item: T;
+    index: number;
+    key: string;
+}
+
+// Last index whose offset is <= y (offsets is ascending, offsets[0] = 0)
+function findRowAt(offsets: number[], y: number) {
+    let low = 0;
+    let high = offsets.length - 2;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (offsets[mid] <= y) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return Math.max(0, low);
+}
+
+/**
+ * useWindowVirtualizer — render only the rows of a long list that are near the viewport.
+ *
+ * The page itself scrolls (not an inner container), so existing window scroll listeners and
+ * IntersectionObserver sentinels below the list keep working. Rows are measured as they render;
+ * the caller pads the container with `paddingTop` / `paddingBottom` so the list keeps its full
+ * height and scroll position.
+ */
+export function useWindowVirtualizer<T>({ items, getItemKey, estimateSize, overscan = 8 }: UseWindowVirtualizerOptions<T>) {
+    const containerRef = useRef<HTMLElement | null>(null);
+    const sizesRef = useRef(new Map<string, number>());
+    const observerRef = useRef<ResizeObserver | null>(null);
+    const [, setMeasureVersion] = useState(0);
+    const [range, setRange] = useState({ start: 0, end: INITIAL_ROW_COUNT - 1 });
+
+    const keys = items.map(getItemKey);
+
+    // offsets[i] = top of row i within the container; offsets[items.length] = full height
+    const offsets = new Array<number>(items.length + 1);
+    offsets[0] = 0;
+    for (let i = 0; i < items.length; i++) {
+        offsets[i + 1] = offsets[i] + (sizesRef.current.get(keys[i]) ?? estimateSize);
+    }
+
+    // Scroll handlers read the latest layout without being re-attached every render
+    const offsetsRef = useRef(offsets);
+    offsetsRef.current = offsets;
+    const keysRef = useRef(keys);
+    keysRef.current = keys;
+
+    const updateRange = useCallback(() => {
+        const container = containerRef.current;
+        const currentOffsets = offsetsRef.current;
+        if (!container || currentOffsets.length < 2) return;
+
+        const top = -container.getBoundingClientRect().top;
+        const start = Math.max(0, findRowAt(currentOffsets, top) - overscan);
+        const end = Math.min(currentOffsets.length - 2, findRowAt(currentOffsets, top + window.innerHeight) + overscan);
+
+        setRange((previous) => (previous.start === start && previous.end === end ? previous : { start, end }));
+    }, [overscan]);
+
+    useEffect(() => {
+        let frame = 0;
+        const handleScroll = () => {
+            if (frame) return;
+            frame = requestAnimationFrame(() => {
+                frame = 0;
+                updateRange();
+            });
+        };
+
+        window.addEventListener('scroll', handleScroll, { passive: true });
+        window.addEventListener('resize', handleScroll);
+        return () => {
+            window.removeEventListener('scroll', handleScroll);
+            window.removeEventListener('resize', handleScroll);
+            if (frame) cancelAnimationFrame(frame);
+        };
+    }, [updateRange]);
+
+    // New pages, filter changes and fresh measurements all move rows around
+    useEffect(() => {
+        updateRange();
+    });
+
+    useEffect(() => {
+        return () => observerRef.current?.disconnect();
+    }, []);
+
+    const recordSize = useCallback((element: HTMLElement) => {
+        const key = element.dataset.virtualKey;
+        if (!key) return false;
+
+        const height = element.getBoundingClientRect().height;
+        if (height === 0 || sizesRef.current.get(key) === height) return false;
+
+        sizesRef.current.set(key, height);
+        return true;
+    }, []);
+
+    // Ref callback for each rendered row; the row must carry data-virtual-key={row.key}
+    const measureRow = useCallback((element: HTMLElement | null) => {
+        if (!element) return;
+
+        if (!observerRef.current && typeof ResizeObserver !== 'undefined') {
+            observerRef.current = new ResizeObserver((entries) => {
+                let changed = false;
+                for (const entry of entries) {
+                    changed = recordSize(entry.target as HTMLElement) || changed;
+                }
+                if (changed) setMeasureVersion((version) => version + 1);
+            });
+        }
+
+        if (recordSize(element)) setMeasureVersion((version) => version + 1);
+        const observer = observerRef.current;
+        observer?.observe(element);
+        return () => observer?.unobserve(element);
+    }, [recordSize]);
+
+    // Centre a row in the viewport, rendered or not (its offset is known). False if it isn't in the list.
+    const scrollToKey = useCallback((key: string) => {
+        const container = containerRef.current;
+        const index = keysRef.current.indexOf(key);
+        if (!container || index < 0) return false;
+
+        const currentOffsets = offsetsRef.current;
+        const rowTop = container.getBoundingClientRect().top + window.scrollY + currentOffsets[index];
+        const rowHeight = currentOffsets[index + 1] - currentOffsets[index];
+        window.scrollTo({ top: Math.max(0, rowTop - (window.innerHeight - rowHeight) / 2), behavior: 'smooth' });
+        return true;
+    }, []);
+
+    const setContainer = useCallback((element: HTMLElement | null) => {
+        containerRef.current = element;
+    }, []);
+
+    const start = Math.min(range.start, Math.max(0, items.length - 1));
+    const end = Math.min(range.end, items.length - 1);
+    const rows: VirtualRow<T>[] = [];
+    for (let index = start; index <= end; index++) {
+        rows.push({ item: items[index], index, key: keys[index] });
+    }
+
+    return {
+        containerRef: setContainer,
+        rows,
+        paddingTop: items.length > 0 ? offsets[start] : 0,
+        paddingBottom: items.length > 0 ? offsets[items.length] - offsets[end + 1] : 0,
+        measureRow,
+        scrollToKey,
+    };
+}
@@ -0,0 +1,799 @@
+/**
+ * API Response Models
+ * Zod schemas + inferred types for every payload returned by ApiClient.
+ *
+ * Entity schemas only pin down the fields the dashboards actually read and
+ * keep every other backend column via `catchall`, so adding a column on the
+ * backend never breaks validation - only a changed or missing key does.
+ */
+
+import { z } from 'zod';
+
+// Some ids come back as numbers from MySQL and as strings from Shipway/Shopify
+const id = z.union([z.string(), z.number()]);
+
+// Order, product and manifest ids are compared as strings throughout the UI -
+// MySQL sends some of them as numbers, so coerce instead of rejecting those
+const stringId = z.coerce.string();
+
+// COUNT() / SUM() columns come back as strings from mysql2 on some endpoints
+const count = z.coerce.number();
+
+// Prices are left as-is, the UI already parseFloat()s them where needed
+const numeric = z.union([z.number(), z.string()]);
+
+const flag = z.union([z.boolean(), z.number(), z.string()]);
+
+function entity<S extends z.ZodRawShape>(shape: S) {
+  return z.object(shape).catchall(z.any());
+}
+
+// Backend sends null for empty columns - normalise to undefined so the
+// inferred types line up with the optional fields used across the UI
+function optional<S extends z.ZodTypeAny>(schema: S) {
+  return schema.nullish().transform((value): Exclude<z.output<S>, null> | undefined => value ?? undefined);
+}
+
+// ==================== SHARED ====================
+
+export const PaginationSchema = entity({
+  page: optional(count),
+  limit: optional(count),
+  total: count,
+  pages: optional(count),
+  totalPages: optional(count),
+  hasMore: optional(z.boolean()),
+  has_next: optional(z.boolean()),
+  totalQuantity: optional(count),
+});
+export type Pagination = z.infer<typeof PaginationSchema>;
+
+export const CountSummarySchema = entity({
+  totalCount: count,
+  totalQuantity: count,
+});
+export type CountSummary = z.infer<typeof CountSummarySchema>;
+
+// Generic acknowledgement payload for mutations that don't return an entity
+export const AnyDataSchema = z.any();
+
+// ==================== AUTH / USERS ====================
+
+export const UserSchema = entity({
+  id: z.coerce.string(),
+  name: z.string(),
+  email: z.string(),
+  role: z.enum(['vendor', 'admin', 'superadmin']),
+  status: z.string(),
+  phone: optional(z.string()),
+  warehouseId: optional(z.string()),
+  contactNumber: optional(z.string()),
+  createdAt: optional(z.string()),
+});
+export type User = z.infer<typeof UserSchema>;
+
+// expiresIn is the access token lifetime in seconds
+export const TokenSessionSchema = entity({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+  expiresIn: count,
+});
+export type TokenSession = z.infer<typeof TokenSessionSchema>;
+
+export const LoginResponseSchema = TokenSessionSchema.extend({
+  user: UserSchema,
+});
+export type LoginResponse = z.infer<typeof LoginResponseSchema>;
+
+export const UserListSchema = entity({
+  users: z.array(UserSchema.extend({ createdAt: z.string() })),
+  pagination: optional(PaginationSchema),
+});
+export type UserList = z.infer<typeof UserListSchema>;
+
+export const VendorAddressSchema = entity({
+  warehouseId: z.string(),
+  address: z.string(),
+  city: z.string(),
+  pincode: z.coerce.string(),
+});
+export type VendorAddress = z.infer<typeof VendorAddressSchema>;
+
+export const WarehouseAddressSchema = entity({
+  address: z.string(),
+  city: z.string(),
+  pincode: z.coerce.string(),
+  state: z.string(),
+  country: z.string(),
+});
+export type WarehouseAddress = z.infer<typeof WarehouseAddressSchema>;
+
+export const WarehouseValidationSchema = entity({
+  warehouse: optional(z.any()),
+});
+export type WarehouseValidation = z.infer<typeof WarehouseValidationSchema>;
+
+// ==================== ORDERS ====================
+
+export const OrderSchema = entity({
+  unique_id: stringId,
+  order_id: stringId,
+  status: optional(z.string()),
+  product_name: optional(z.string()),
+  product_code: optional(z.string()),
+  product_image: optional(z.string()),
+  image: optional(z.string()),
+  size: optional(z.string()),
+  quantity: optional(count),
+  value: optional(numeric),
+  order_date: optional(z.string()),
+  created_at: optional(z.string()),
+  customer_name: optional(z.string()),
+  payment_type: optional(z.string()),
+  claimed_by: optional(z.string()),
+  label_downloaded: optional(flag),
+  is_handover: optional(flag),
+  is_manifest: optional(flag),
+  manifest_id: optional(stringId),
+  current_shipment_status: optional(z.string()),
+  awb: optional(z.string()),
+  vendor_name: optional(z.string()),
+  store_name: optional(z.string()),
+  store_status: optional(z.string()),
+  account_code: optional(z.string()),
+});
+export type Order = z.infer<typeof OrderSchema>;
+
+export const GroupedOrderSchema = entity({
+  order_id: stringId,
+  status: optional(z.string()),
+  order_date: optional(z.string()),
+  total_value: optional(numeric),
+  total_products: optional(count),
+  total_quantity: optional(count),
+  label_downloaded: optional(flag),
+  is_handover: optional(flag),
+  manifest_id: optional(stringId),
+  current_shipment_status: optional(z.string()),
+  account_code: optional(z.string()),
+  products: optional(z.array(OrderSchema.partial({ order_id: true }))),
+});
+export type GroupedOrder = z.infer<typeof GroupedOrderSchema>;
+
+export const OrderListSchema = entity({
+  orders: z.array(OrderSchema),
+  pagination: optional(PaginationSchema),
+});
+export type OrderList = z.infer<typeof OrderListSchema>;
+
+export const GroupedOrderListSchema = entity({
+  groupedOrders: z.array(GroupedOrderSchema),
+  pagination: PaginationSchema.extend({ hasMore: z.boolean() }),
+  totalQuantity: optional(count),
+});
+export type GroupedOrderList = z.infer<typeof GroupedOrderListSchema>;
+
+export const OrderListSummarySchema = entity({
+  total_orders: optional(count),
+  total_quantity: optional(count),
+});
+
+export const HandoverOrderListSchema = entity({
+  handoverOrders: z.array(GroupedOrderSchema),
+  pagination: optional(PaginationSchema),
+  summary: optional(OrderListSummarySchema),
+});
+export type HandoverOrderList = z.infer<typeof HandoverOrderListSchema>;
+
+export const TrackingOrderListSchema = entity({
+  trackingOrders: z.array(GroupedOrderSchema),
+  pagination: optional(PaginationSchema),
+  summary: optional(OrderListSummarySchema),
+});
+export type TrackingOrderList = z.infer<typeof TrackingOrderListSchema>;
+
+// One carrier scan of a shipment
+export const ShipmentScanEventSchema = entity({
+  status: z.string(),
+  location: optional(z.string()),
+  remarks: optional(z.string()),
+  scanned_at: z.string(),
+});
+export type ShipmentScanEvent = z.infer<typeof ShipmentScanEventSchema>;
+
+export const ShipmentTrackingSchema = entity({
+  order_id: stringId,
+  awb: optional(z.string()),
+  carrier_name: optional(z.string()),
+  current_status: optional(z.string()),
+  // Carrier's promised delivery date, when it gives one
+  expected_delivery_date: optional(z.string()),
+  delivered_at: optional(z.string()),
+  // Newest first
+  events: z.array(ShipmentScanEventSchema),
+});
+export type ShipmentTracking = z.infer<typeof ShipmentTrackingSchema>;
+
+export const ShipmentTrackingListSchema = entity({
+  tracking: z.array(ShipmentTrackingSchema),
+});
+export type ShipmentTrackingList = z.infer<typeof ShipmentTrackingListSchema>;
+
+export const DashboardStatsSchema = entity({
+  allOrders: CountSummarySchema,
+  myOrders: CountSummarySchema,
+  handover: CountSummarySchema,
+  orderTracking: CountSummarySchema,
+  lastUpdated: z.string().nullable(),
+});
+export type DashboardStats = z.infer<typeof DashboardStatsSchema>;
+
+export const LastUpdatedSchema = entity({
+  lastUpdated: z.string().nullable(),
+});
+export type LastUpdated = z.infer<typeof LastUpdatedSchema>;
+
+// Events pushed on the vendor order feed (GET /orders/events, text/event-stream).
+// The SSE `event:` name is the type; `data:` is the JSON payload.
+export const OrderFeedEventSchema = z.discriminatedUnion('type', [
+  entity({
+    type: z.literal('order-created'),
+    order: OrderSchema,
+  }),
+  entity({
+    type: z.literal('order-claimed'),
+    unique_id: stringId,
+    order_id: optional(stringId),
+    // warehouseId of the vendor who claimed it
+    claimed_by: optional(z.string()),
+  }),
+  entity({
+    type: z.literal('status-changed'),
+    order_id: stringId,
+    unique_id: optional(stringId),
+    status: optional(z.string()),
+    current_shipment_status: optional(z.string()),
+    is_handover: optional(flag),
+  }),
+  entity({
+    type: z.literal('label-ready'),
+    order_id: stringId,
+  }),
+]);
+export type OrderFeedEvent = z.infer<typeof OrderFeedEventSchema>;
+
+export const ClaimResultSchema = entity({
+  order_id: optional(stringId),
+  unique_id: optional(stringId),
+});
+export type ClaimResult = z.infer<typeof ClaimResultSchema>;
+
+export const BulkClaimResultSchema = entity({
+  successful_claims: z.array(entity({ unique_id: z.string() })),
+  failed_claims: z.array(entity({ unique_id: optional(z.string()), reason: optional(z.string()) })),
+  total_successful: count,
+  total_failed: count,
+});
+export type BulkClaimResult = z.infer<typeof BulkClaimResultSchema>;
+
+export const OrderStatusVerificationSchema = entity({
+  statuses: z.record(z.string(), entity({ status: optional(z.string()) })),
+});
+export type OrderStatusVerification = z.infer<typeof OrderStatusVerificationSchema>;
+
+export const ReverseGroupedResultSchema = entity({
+  products_processed: count,
+  skipped_products: count,
+  total_requested: count,
+});
+export type ReverseGroupedResult = z.infer<typeof ReverseGroupedResultSchema>;
+
+export const BulkMarkReadyResultSchema = entity({
+  total_successful: count,
+  total_failed: count,
+  total_requested: count,
+  failed_orders: optional(z.array(z.any())),
+  manifest_ids: optional(z.array(z.coerce.string())),
+});
+export type BulkMarkReadyResult = z.infer<typeof BulkMarkReadyResultSchema>;
+
+export const AdminOrderListSchema = OrderListSchema;
+export type AdminOrderList = OrderList;
+
+export const AdminDashboardStatsSchema = entity({
+  totalOrders: count,
+  totalQuantity: count,
+  claimedOrders: count,
+  unclaimedOrders: count,
+  hasFilters: z.boolean(),
+});
+export type AdminDashboardStats = z.infer<typeof AdminDashboardStatsSchema>;
+
+export const VendorReportSchema = entity({
+  id: id,
+  name: optional(z.string()),
+  email: optional(z.string()),
+  status: optional(z.string()),
+  warehouseId: optional(z.string()),
+  totalOrders: optional(count),
+  completedOrders: optional(count),
+  revenue: optional(numeric),
+});
+export type VendorReport = z.infer<typeof VendorReportSchema>;
+
+export const VendorReportListSchema = entity({
+  vendors: z.array(VendorReportSchema),
+});
+export type VendorReportList = z.infer<typeof VendorReportListSchema>;
+
+export const VendorStatsSchema = entity({
+  totalVendors: optional(count),
+  activeVendors: optional(count),
+});
+export type VendorStats = z.infer<typeof VendorStatsSchema>;
+
+export const TaskAcceptedSchema = entity({
+  taskId: optional(z.string()),
+});
+export type TaskAccepted = z.infer<typeof TaskAcceptedSchema>;
+
+// ==================== LABELS ====================
+
+export const LabelDownloadSchema = entity({
+  shipping_url: z.string(),
+  awb: optional(z.string()),
+  original_order_id: optional(stringId),
+  clone_order_id: optional(stringId),
+  formatted_pdf: optional(z.string()),
+  format: optional(z.string()),
+});
+export type LabelDownload = z.infer<typeof LabelDownloadSchema>;
+
+export const BulkLabelResultSchema = entity({
+  successful: optional(z.array(z.any())),
+  // Generated label per order - fetched one by one to merge the labels in the browser
+  labels: optional(z.array(entity({
+    order_id: stringId,
+    shipping_url: z.string(),
+  }))),
+  failed: optional(z.array(z.any())),
+  total_successful: optional(count),
+  total_failed: optional(count),
+});
+export type BulkLabelResult = z.infer<typeof BulkLabelResultSchema>;
+
+// One label download of an order - who, when, which format, and whether it came in a merged PDF
+export const LabelHistoryEntrySchema = entity({
+  id: id,
+  order_id: stringId,
+  format: z.string(),
+  merged: flag,
+  // 'single' | 'bulk' | 'reprint'
+  source: optional(z.string()),
+  // Label PDF the backend generated - reprints fetch this instead of generating a new label
+  shipping_url: optional(z.string()),
+  awb: optional(z.string()),
+  downloaded_by: optional(z.coerce.string()),
+  downloaded_by_name: optional(z.string()),
+  downloaded_at: z.string(),
+});
+export type LabelHistoryEntry = z.infer<typeof LabelHistoryEntrySchema>;
+
+export const LabelHistorySchema = entity({
+  order_id: stringId,
+  // Newest first
+  history: z.array(LabelHistoryEntrySchema),
+});
+export type LabelHistory = z.infer<typeof LabelHistorySchema>;
+
+// One step in an order's lifecycle. type is one of: created, claimed, assigned, unassigned,
+// reversed, label-generated, label-downloaded, manifested, handover, shipment-status, rto, settlement
+export const OrderTimelineEventSchema = entity({
+  id: z.coerce.string(),
+  type: z.string(),
+  at: z.string(),
+  unique_id: optional(stringId),
+  actor_id: optional(z.coerce.string()),
+  actor_name: optional(z.string()),
+  // Shipment / RTO / settlement status the step moved the order to
+  status: optional(z.string()),
+  description: optional(z.string()),
+});
+export type OrderTimelineEvent = z.infer<typeof OrderTimelineEventSchema>;
+
+export const OrderTimelineSchema = entity({
+  order_id: stringId,
+  // Oldest first
+  events: z.array(OrderTimelineEventSchema),
+});
+export type OrderTimeline = z.infer<typeof OrderTimelineSchema>;
+
+// ==================== SETTLEMENTS ====================
+
+// Saved UPI ID or bank account a vendor is paid out to. Vendor endpoints return upiId and
+// accountNumber masked; the admin settlement endpoints return the full beneficiary.
+export const PayoutMethodSchema = entity({
+  id: id,
+  type: z.enum(['upi', 'bank']),
+  upiId: optional(z.string()),
+  accountHolderName: optional(z.string()),
+  accountNumber: optional(z.string()),
+  ifsc: optional(z.string()),
+  bankName: optional(z.string()),
+  verificationStatus: z.enum(['pending', 'verified', 'failed']),
+  verifiedName: optional(z.string()),
+  verifiedAt: optional(z.string()),
+  failureReason: optional(z.string()),
+  isDefault: optional(flag),
+  createdAt: optional(z.string()),
+});
+export type PayoutMethod = z.infer<typeof PayoutMethodSchema>;
+
+// Payout method as it stood when the settlement was requested
+export const SettlementBeneficiarySchema = entity({
+  payoutMethodId: optional(id),
+  type: z.enum(['upi', 'bank']),
+  name: optional(z.string()),
+  upiId: optional(z.string()),
+  accountNumber: optional(z.string()),
+  ifsc: optional(z.string()),
+  bankName: optional(z.string()),
+  verificationStatus: optional(z.string()),
+  verifiedAt: optional(z.string()),
+});
+export type SettlementBeneficiary = z.infer<typeof SettlementBeneficiarySchema>;
+
+// One part of the payout of an approved settlement - a request can be paid in several parts
+export const SettlementPaymentSchema = entity({
+  id: id,
+  amount: numeric,
+  transactionId: optional(z.string()),
+  paymentProofPath: optional(z.string()),
+  paidAt: z.string(),
+  paidBy: optional(z.string()),
+  // Bank statement the payment was reconciled from, and its row as proof
+  statementName: optional(z.string()),
+  statementRow: optional(z.record(z.string(), z.string())),
+});
+export type SettlementPayment = z.infer<typeof SettlementPaymentSchema>;
+
+// type: requested | auto-requested | approved | payment | settled | rejected
+export const SettlementEventSchema = entity({
+  type: z.string(),
+  at: z.string(),
+  actorName: optional(z.string()),
+  amount: optional(numeric),
+  note: optional(z.string()),
+});
+export type SettlementEvent = z.infer<typeof SettlementEventSchema>;
+
+export const SettlementSchema = entity({
+  id: id,
+  vendorName: optional(z.string()),
+  // 'vendor' when requested by hand, else the cycle that raised it ('weekly' / 'fortnightly')
+  source: optional(z.string()),
+  amount: optional(numeric),
+  // Total of all payments so far
+  amountPaid: optional(numeric),
+  remainingAmount: optional(numeric),
+  status: optional(z.string()),
+  // pending | settled_partially | settled_fully
+  paymentStatus: optional(z.string()),
+  upiId: optional(z.string()),
+  // Missing on requests made before payout methods - upiId is the only payee detail then
+  beneficiary: optional(SettlementBeneficiarySchema),
+  transactionId: optional(z.string()),
+  paymentProofPath: optional(z.string()),
+  rejectionReason: optional(z.string()),
+  payments: optional(z.array(SettlementPaymentSchema)),
+  // Oldest first
+  events: optional(z.array(SettlementEventSchema)),
+  createdAt: optional(z.string()),
+});
+export type Settlement = z.infer<typeof SettlementSchema>;
+
+export const SettlementReconcileResultSchema = entity({
+  approved: z.array(id),
+  failed: z.array(entity({ settlementId: id, message: z.string() })),
+});
+export type SettlementReconcileResult = z.infer<typeof SettlementReconcileResultSchema>;
+
+export const SettlementBulkResultSchema = entity({
+  updated: z.array(id),
+  failed: z.array(entity({ settlementId: id, message: z.string() })),
+});
+export type SettlementBulkResult = z.infer<typeof SettlementBulkResultSchema>;
+
+// How often settlement requests are raised automatically for the vendor's payable balance
+export const SettlementScheduleSchema = entity({
+  cycle: z.enum(['manual', 'weekly', 'fortnightly']),
+  nextRunAt: optional(z.string()),
+  lastRunAt: optional(z.string()),
+  lastRunNote: optional(z.string()),
+});
+export type SettlementSchedule = z.infer<typeof SettlementScheduleSchema>;
+
+const SettlementTotalSchema = entity({
+  count: count,
+  amount: count,
+});
+
+// Totals of the admin settlements tab, for the vendor / date filters but every status
+export const SettlementSummarySchema = entity({
+  pending: SettlementTotalSchema,
+  approved: SettlementTotalSchema.extend({ outstanding: count }),
+  paidThisMonth: SettlementTotalSchema,
+});
+export type SettlementSummary = z.infer<typeof SettlementSummarySchema>;
+
+export const SettlementListSchema = entity({
+  settlements: z.array(SettlementSchema),
+  pagination: entity({
+    totalPages: count,
+    totalItems: count,
+  }),
+  summary: optional(SettlementSummarySchema),
+});
+export type SettlementList = z.infer<typeof SettlementListSchema>;
+
+export const VendorPaymentsSchema = entity({
+  currentPayment: count,
+  futurePayment: count,
+});
+export type VendorPayments = z.infer<typeof VendorPaymentsSchema>;
+
+export const TransactionSchema = entity({
+  id: id,
+  amount: optional(numeric),
+  status: optional(z.string()),
+  transactionId: optional(z.string()),
+  paymentProofPath: optional(z.string()),
+  createdAt: optional(z.string()),
+});
+export type Transaction = z.infer<typeof TransactionSchema>;
+
+// One line of the vendor earnings ledger: an order's contribution or a settlement request.
+// bucket is 'payable' (delivered), 'future' (shipped, not delivered yet), 'rto' or 'settlement'.
+export const VendorLedgerEntrySchema = entity({
+  id: z.coerce.string(),
+  entry_type: z.string(),
+  bucket: z.string(),
+  date: z.string(),
+  order_id: optional(stringId),
+  delivered_at: optional(z.string()),
+  shipment_status: optional(z.string()),
+  settlement_id: optional(z.coerce.string()),
+  settlement_status: optional(z.string()),
+  // Order payout or settlement amount
+  amount: count,
+  rto_deduction: optional(count),
+  // Change to the payable balance (0 for future orders) and the balance after this line
+  balance_effect: count,
+  balance: count,
+});
+export type VendorLedgerEntry = z.infer<typeof VendorLedgerEntrySchema>;
+
+export const VendorLedgerSchema = entity({
+  // Oldest first
+  entries: z.array(VendorLedgerEntrySchema),
+  // Payable balance before the first entry in the date range
+  opening_balance: count,
+  summary: entity({
+    payable: count,
+    future: count,
+    rto_deductions: count,
+    settled: count,
+  }),
+});
+export type VendorLedger = z.infer<typeof VendorLedgerSchema>;
+
+// ==================== CARRIERS ====================
+
+export const CarrierSchema = entity({
+  carrier_id: z.string(),
+  carrier_name: optional(z.string()),
+  account_code: optional(z.string()),
+  store_name: optional(z.string()),
+  status: optional(z.string()),
+  priority: optional(numeric),
+  weight_in_kg: optional(numeric),
+});
+export type Carrier = z.infer<typeof CarrierSchema>;
+
+export const CarrierListSchema = entity({
+  carriers: z.array(CarrierSchema),
+});
+export type CarrierList = z.infer<typeof CarrierListSchema>;
+
+export const CarrierFormatSchema = entity({
+  expectedColumns: z.array(z.string()),
+});
+export type CarrierFormat = z.infer<typeof CarrierFormatSchema>;
+
+// ==================== STORES ====================
+
+export const ShopifyBrandSchema = entity({
+  id: optional(z.number()),
+  brand_name: optional(z.string()),
+  store_code: optional(z.string()),
+  shopify_store_url: optional(z.string()),
+});
+export type ShopifyBrand = z.infer<typeof ShopifyBrandSchema>;
+
+export const StoreSchema = entity({
+  id: optional(id),
+  account_code: z.string(),
+  store_name: optional(z.string()),
+  status: optional(z.string()),
+  username: optional(z.string()),
+  shipping_partner: optional(z.string()),
+  last_synced_at: optional(z.string()),
+  shopify_brands: optional(z.array(ShopifyBrandSchema)),
+});
+export type Store = z.infer<typeof StoreSchema>;
+
+export const ConnectionTestSchema = entity({
+  message: optional(z.string()),
+});
+export type ConnectionTest = z.infer<typeof ConnectionTestSchema>;
+
+// ==================== WAREHOUSE MAPPING ====================
+
+export const WhMappingSchema = entity({
+  id: z.number(),
+  claimio_wh_id: optional(z.string()),
+  vendor_wh_id: optional(z.string()),
+  account_code: optional(z.string()),
+  return_warehouse_id: optional(z.string()),
+  is_active: optional(flag),
+});
+export type WhMapping = z.infer<typeof WhMappingSchema>;
+
+export const WhMappingVendorSchema = entity({
+  warehouse_id: z.string(),
+  name: optional(z.string()),
+});
+export type WhMappingVendor = z.infer<typeof WhMappingVendorSchema>;
+
+// ==================== NOTIFICATIONS ====================
+
+export const NotificationSchema = entity({
+  id: z.number(),
+  type: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  title: z.string(),
+  message: z.string(),
+  order_id: optional(stringId),
+  vendor_name: optional(z.string()),
+  vendor_warehouse_id: optional(z.string()),
+  status: z.enum(['pending', 'in_progress', 'resolved', 'dismissed']),
+  created_at: z.string(),
+  resolved_by: optional(z.string()),
+  resolved_at: optional(z.string()),
+  resolution_notes: optional(z.string()),
+  metadata: z.any().optional(),
+  error_details: optional(z.string()),
+});
+export type Notification = z.infer<typeof NotificationSchema>;
+
+export const NotificationListSchema = entity({
+  notifications: z.array(NotificationSchema),
+  pagination: optional(PaginationSchema),
+});
+export type NotificationList = z.infer<typeof NotificationListSchema>;
+
+export const NotificationStatsSchema = entity({
+  overview: entity({
+    total: z.number(),
+    pending: z.number(),
+    in_progress: z.number(),
+    resolved: z.number(),
+    dismissed: z.number(),
+    critical: z.number(),
+    high: z.number(),
+    medium: z.number(),
+    low: z.number(),
+    last_24h: z.number(),
+    last_7days: z.number(),
+  }),
+});
+export type NotificationStats = z.infer<typeof NotificationStatsSchema>;
+
+export const VapidKeySchema = entity({
+  publicKey: z.string(),
+});
+export type VapidKey = z.infer<typeof VapidKeySchema>;
+
+export const PushStatusSchema = entity({
+  isSubscribed: z.boolean(),
+});
+export type PushStatus = z.infer<typeof PushStatusSchema>;
+
+export const ShipmentStatusMappingSchema = entity({
+  raw: z.string(),
+  renamed: z.string(),
+  color: z.string(),
+  is_handover: count,
+});
+export type ShipmentStatusMapping = z.infer<typeof ShipmentStatusMappingSchema>;
+
+// ==================== ANALYTICS ====================
+
+export const AnalyticsOverviewSchema = entity({
+  stats: optional(z.any()),
+  trend: optional(z.array(z.any())),
+  distribution: optional(z.any()),
+  vendors: optional(z.array(z.any())),
+});
+export type AnalyticsOverview = z.infer<typeof AnalyticsOverviewSchema>;
+
+// ==================== INVENTORY ====================
+
+export const RTOFocusOrderSchema = entity({
+  order_id: stringId,
+  order_status: z.string(),
+  instance_number: z.number(),
+  days_since_initiated: z.number(),
+  rto_wh: optional(z.string()),
+  account_code: z.string(),
+  activity_date: optional(z.string()),
+  created_at: z.string(),
+  updated_at: z.string(),
+  awb: optional(z.string()),
+  carrier_name: optional(z.string()),
+});
+export type RTOFocusOrder = z.infer<typeof RTOFocusOrderSchema>;
+
+export const RTOFocusOrderListSchema = entity({
+  orders: z.array(RTOFocusOrderSchema),
+});
+export type RTOFocusOrderList = z.infer<typeof RTOFocusOrderListSchema>;
+
+export const CriticalOrderSchema = entity({
+  order_id: stringId,
+  unique_id: stringId,
+  customer_name: optional(z.string()),
+  product_name: optional(z.string()),
+  product_code: optional(z.string()),
+  quantity: z.number(),
+  selling_price: optional(z.number()),
+  order_date: z.string(),
+  account_code: z.string(),
+  claims_status: optional(z.string()),
+  claimed_by: optional(z.string()),
+  claimed_at: optional(z.string()),
+  is_critical: z.number(),
+  awb: optional(z.string()),
+  carrier_name: optional(z.string()),
+  current_shipment_status: optional(z.string()),
+  store_name: optional(z.string()),
+  vendor_name: optional(z.string()),
+  product_image: optional(z.string()),
+  image: optional(z.string()),
+  status: z.string(),
+  value: optional(numeric),
+  priority: optional(z.string()),
+  created_at: optional(z.string()),
+  store_status: optional(z.string()),
+});
+export type CriticalOrder = z.infer<typeof CriticalOrderSchema>;
+
+export const CriticalOrderListSchema = entity({
+  orders: z.array(CriticalOrderSchema),
+});
+export type CriticalOrderList = z.infer<typeof CriticalOrderListSchema>;
+
+export const RTOStatusUpdateSchema = entity({
+  affectedRows: optional(count),
+});
+export type RTOStatusUpdate = z.infer<typeof RTOStatusUpdateSchema>;
+
+export const RTOLocationListSchema = entity({
+  locations: z.array(z.string()),
+});
+export type RTOLocationList = z.infer<typeof RTOLocationListSchema>;
+
+export const RTOProductListSchema = entity({
+  products: z.array(entity({ name: z.string(), sku_id: z.string() })),
+});
+export type RTOProductList = z.infer<typeof RTOProductListSchema>;
@@ -1,4 +1,35 @@
-// API utility for making backend calls with Basic Authentication
+// API utility for making backend calls with token-based sessions (see ./session)
+
+import { z } from 'zod'
+import { sessionStore } from './session'
+import { offlineReadCache } from './offline-read-cache'
+import {
+  AdminDashboardStatsSchema, AnalyticsOverviewSchema,
+  BulkClaimResultSchema, BulkLabelResultSchema, BulkMarkReadyResultSchema, CarrierFormatSchema, CarrierListSchema,
+  ClaimResultSchema, ConnectionTestSchema, CriticalOrderListSchema, DashboardStatsSchema,
+  GroupedOrderListSchema, HandoverOrderListSchema, LabelDownloadSchema, LabelHistorySchema,
+  LastUpdatedSchema, LoginResponseSchema, NotificationListSchema, NotificationSchema, NotificationStatsSchema,
+  OrderListSchema, OrderStatusVerificationSchema, OrderTimelineSchema, PayoutMethodSchema, PushStatusSchema,
+  RTOFocusOrderListSchema, RTOLocationListSchema, RTOProductListSchema,
+  RTOStatusUpdateSchema, ReverseGroupedResultSchema, SettlementListSchema,
+  SettlementBulkResultSchema, SettlementReconcileResultSchema, SettlementScheduleSchema, SettlementSchema, ShipmentStatusMappingSchema, ShipmentTrackingListSchema, ShipmentTrackingSchema,
+  StoreSchema, TaskAcceptedSchema,
+  TokenSessionSchema, TrackingOrderListSchema, TransactionSchema, UserListSchema, UserSchema, VapidKeySchema,
+  VendorAddressSchema, VendorLedgerSchema, VendorPaymentsSchema, WarehouseAddressSchema, VendorReportListSchema,
+  VendorStatsSchema, WarehouseValidationSchema, WhMappingSchema, WhMappingVendorSchema,
+} from './api-types'
+import type {
+  AdminDashboardStats, AnalyticsOverview, BulkClaimResult,
+  BulkLabelResult, BulkMarkReadyResult, CarrierFormat, CarrierList, ClaimResult, ConnectionTest,
+  CriticalOrderList, DashboardStats, GroupedOrderList, HandoverOrderList, LabelDownload, LabelHistory,
+  LastUpdated, LoginResponse, Notification, NotificationList, NotificationStats, OrderList,
+  OrderStatusVerification, OrderTimeline, PayoutMethod, PushStatus, RTOFocusOrderList, RTOLocationList,
+  RTOProductList, RTOStatusUpdate, ReverseGroupedResult, Settlement, SettlementBulkResult, SettlementList, SettlementReconcileResult, SettlementSchedule,
+  ShipmentStatusMapping, ShipmentTracking, ShipmentTrackingList, Store, TaskAccepted, TokenSession,
+  TrackingOrderList, Transaction, User,
+  UserList, VapidKey, VendorAddress, VendorLedger, VendorPayments, VendorReportList, VendorStats,
+  WarehouseAddress, WarehouseValidation, WhMapping, WhMappingVendor,
+} from './api-types'
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api'
 
@@ -21,13 +52,32 @@ const NETWORK_CONFIG = {
   RETRY_BASE_DELAY_MS: 1000,
   // Maximum delay between retries
   RETRY_MAX_DELAY_MS: 10000,
+  // How long order lists / dashboard stats may be served from memory
+  ORDERS_CACHE_TTL_MS: 5000,
+  // Lookup data that only changes on deploy (status mapping etc.)
+  STATIC_CACHE_TTL_MS: 5 * 60 * 1000,
+  // Refresh the access token this long before it expires
+  TOKEN_REFRESH_SKEW_MS: 30000,
 };
 
+// Endpoints where 401/403 means "wrong credentials", not "session expired"
+const SESSION_CHECK_EXCLUDED_ENDPOINTS = [
+  '/auth/login',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/change-password',
+  '/auth/reset-password',
+];
+
 /**
  * Creates an AbortController with a timeout
+ * Also aborts when the caller's signal aborts (superseded dashboard fetches)
  * Returns the controller and a cleanup function
  */
-function createTimeoutController(timeoutMs: number = NETWORK_CONFIG.REQUEST_TIMEOUT_MS): {
+function createTimeoutController(
+  timeoutMs: number = NETWORK_CONFIG.REQUEST_TIMEOUT_MS,
+  externalSignal?: AbortSignal | null
+): {
   controller: AbortController;
   timeoutId: NodeJS.Timeout;
   cleanup: () => void;
@@ -37,13 +87,55 @@ function createTimeoutController(timeoutMs: number = NETWORK_CONFIG.REQUEST_TIME
     controller.abort();
   }, timeoutMs);
 
+  const onExternalAbort = () => controller.abort();
+  externalSignal?.addEventListener('abort', onExternalAbort);
+
   return {
     controller,
     timeoutId,
-    cleanup: () => clearTimeout(timeoutId),
+    cleanup: () => {
+      clearTimeout(timeoutId);
+      externalSignal?.removeEventListener('abort', onExternalAbort);
+    },
   };
 }
 
+/**
+ * Error thrown when the caller cancels a request through its AbortSignal.
+ * Timeouts are reported as a regular Error, so an AbortError leaving ApiClient
+ * always means "superseded, ignore the result".
+ */
+function createAbortError(): Error {
+  const error = new Error('Request was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Check if an error came from a request cancelled by the caller
+ */
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError';
+}
+
+/**
+ * Thrown when the server could not be reached at all (offline, DNS, connection reset)
+ * after all retries. The request never landed, so it is safe to queue and replay.
+ */
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Check if an error means the backend was unreachable
+ */
+export function isNetworkError(error: any): boolean {
+  return error?.name === 'NetworkError';
+}
+
 /**
  * Delay helper for retry logic with exponential backoff
  */
@@ -108,21 +200,239 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-interface ApiResponse<T = any> {
-  success: boolean
+interface ApiResponseBase {
   message: string
-  data?: T
   errors?: any[]
   warning?: boolean
   userMessage?: string
+  // Set when the backend was unreachable and this is the last saved response (epoch ms it was fetched)
+  offlineSavedAt?: number
+}
+
+// Discriminated on `success` so `if (response.success)` narrows `data` to T
+export type ApiResponse<T = any> =
+  | (ApiResponseBase & { success: true; data: T })
+  | (ApiResponseBase & { success: false; data?: T })
+
+/**
+ * Thrown when the backend answers with success: true but the payload doesn't
+ * match the expected response model. Not retryable - the same request will
+ * keep returning the same shape.
+ */
+export class ApiResponseValidationError extends Error {
+  endpoint: string
+  issues: z.ZodIssue[]
+
+  constructor(endpoint: string, issues: z.ZodIssue[]) {
+    const path = endpoint.split('?')[0]
+    const details = issues
+      .slice(0, 3)
+      .map(issue => `${['data', ...issue.path].join('.')}: ${issue.message}`)
+      .join('; ')
+    super(`Unexpected response from ${path}: ${details}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`)
+    this.name = 'ApiResponseValidationError'
+    this.endpoint = endpoint
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when the stored credentials were rejected (401) and the user did not
+ * sign back in from the re-login dialog.
+ */
+export class SessionExpiredError extends Error {
+  status: number
+
+  constructor(message: string = 'Your session has expired. Please login again.', status: number = 401) {
+    super(message)
+    this.name = 'SessionExpiredError'
+    this.status = status
+  }
+}
+
+export interface SessionExpiredEvent {
+  endpoint: string
+  status: number
+}
+
+type SessionExpiredListener = (event: SessionExpiredEvent) => void
+
+interface PendingReauthentication {
+  promise: Promise<void>
+  resolve: () => void
+  reject: (error: Error) => void
+}
+
+// Keys used to drop cached GET responses after a mutation touches that data
+export type ApiCacheTag = 'orders' | 'grouped' | 'handover' | 'tracking' | 'dashboard-stats' | 'status-mapping' | 'label-history'
+
+// Filters of the admin settlements tab, shared by the list and the CSV export
+export interface SettlementFilterParams {
+  status?: string
+  vendorName?: string
+  startDate?: string
+  endDate?: string
+}
+
+interface RequestCacheOptions {
+  // Serve a successful response from memory for this long (no caching when omitted)
+  ttlMs?: number
+  tags?: ApiCacheTag[]
+  // Keep the last successful response in IndexedDB and fall back to it when offline
+  offline?: boolean
+}
+
+interface CachedResponse {
+  response: ApiResponse<any>
+  expiresAt: number
+  tags: ApiCacheTag[]
+}
+
+interface InFlightRequest {
+  promise: Promise<ApiResponse<any>>
+  tags: ApiCacheTag[]
+  controller: AbortController
+  // Callers still waiting on the shared fetch - it is only cancelled once all of them abort
+  waiting: number
+}
+
+/**
+ * Validate the `data` field of a successful response against its schema.
+ * Failed responses are passed through untouched so callers can still read `message`.
+ */
+function validateResponse<T>(endpoint: string, body: any, schema?: z.ZodType<T, z.ZodTypeDef, any>): ApiResponse<T> {
+  if (!schema || !body || body.success !== true) {
+    return body
+  }
+
+  const result = schema.safeParse(body.data)
+  if (!result.success) {
+    console.error('❌ API response failed validation:', {
+      endpoint,
+      issues: result.error.issues,
+      data: body.data,
+    })
+    throw new ApiResponseValidationError(endpoint, result.error.issues)
+  }
+
+  return { ...body, data: result.data }
 }
 
 class ApiClient {
+  // Identical GETs issued while one is still pending share the same promise
+  private inFlightRequests = new Map<string, InFlightRequest>()
+  private responseCache = new Map<string, CachedResponse>()
+  // Bumped on every invalidation so responses that were already in flight don't repopulate the cache
+  private cacheGeneration = 0
+  private sessionExpiredListeners = new Set<SessionExpiredListener>()
+  // Requests rejected with 401 park here until the user signs back in (or gives up)
+  private pendingReauthentication: PendingReauthentication | null = null
+  private loggedOutListeners = new Set<() => void>()
+  // Concurrent 401s / expiring tokens share one refresh call
+  private refreshPromise: Promise<void> | null = null
+
   private getAuthHeader(): string | null {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('authHeader')
+    return sessionStore.getAuthorization()
+  }
+
+  /**
+   * Authorization header for the current session, refreshing the access token first
+   * if it is about to expire. Use this for requests that bypass makeRequest (file
+   * downloads, FormData uploads, task polling).
+   */
+  async getAuthorizationHeader(): Promise<string | null> {
+    if (sessionStore.isExpiring(NETWORK_CONFIG.TOKEN_REFRESH_SKEW_MS)) {
+      try {
+        await this.refreshToken()
+      } catch (error) {
+        if (error instanceof SessionExpiredError) {
+          throw error
+        }
+        // Network trouble - send the current token, the 401 path will refresh again
+        console.warn('⚠️ Token refresh failed, using current access token:', error)
+      }
     }
-    return null
+    return sessionStore.getAuthorization()
+  }
+
+  /**
+   * Subscribe to forced logouts (refresh token rejected). Returns an unsubscribe function.
+   */
+  onLoggedOut(listener: () => void): () => void {
+    this.loggedOutListeners.add(listener)
+    return () => {
+      this.loggedOutListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Exchange the refresh token for a new access token
+   */
+  async refreshToken(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null
+      })
+    }
+    return this.refreshPromise
+  }
+
+  private async performTokenRefresh(): Promise<void> {
+    const session = sessionStore.get()
+    if (!session) {
+      throw new SessionExpiredError()
+    }
+
+    console.log('🔄 API CLIENT: Refreshing access token');
+
+    // Plain fetch: only an explicit rejection ends the session, an unreachable backend is a NetworkError like any request
+    let response: Response
+    try {
+      response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken: session.refreshToken }),
+      })
+    } catch (error) {
+      throw new NetworkError(getNetworkErrorMessage(error, '/auth/refresh'))
+    }
+
+    if (response.status === 400 || response.status === 401 || response.status === 403) {
+      this.endSession()
+      throw new SessionExpiredError(undefined, response.status)
+    }
+    if (!response.ok) {
+      throw new Error(`Token refresh failed: ${response.status} ${response.statusText}`)
+    }
+
+    const data = validateResponse('/auth/refresh', await response.json(), TokenSessionSchema)
+    if (!data.success) {
+      this.endSession()
+      throw new SessionExpiredError(data.message)
+    }
+
+    this.saveSession(data.data)
+    console.log('✅ API CLIENT: Access token refreshed');
+  }
+
+  private saveSession(tokens: TokenSession): void {
+    sessionStore.save({
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: Date.now() + tokens.expiresIn * 1000,
+    })
+  }
+
+  /**
+   * Session can't be recovered - drop it locally and tell AuthProvider to log out
+   */
+  private endSession(): void {
+    console.warn('🔒 API CLIENT: Refresh token rejected, logging out');
+    sessionStore.clear()
+    this.invalidateCache()
+    offlineReadCache.clear()
+    this.abandonReauthentication()
+    this.loggedOutListeners.forEach(listener => listener())
   }
 
   private getCurrentUserInfo(): { role?: string; email?: string } | null {
@@ -139,11 +449,247 @@ class ApiClient {
     return null
   }
 
-  private async makeRequest<T>(
+  /**
+   * Drop cached responses carrying any of the given tags.
+   * Called without tags it clears everything (refresh from Shipway, logout).
+   */
+  invalidateCache(...tags: ApiCacheTag[]): void {
+    this.cacheGeneration++
+
+    const matches = (entryTags: ApiCacheTag[]) =>
+      tags.length === 0 || entryTags.some(tag => tags.includes(tag))
+
+    this.responseCache.forEach((entry, key) => {
+      if (matches(entry.tags)) this.responseCache.delete(key)
+    })
+    // Let the next caller start a fresh request instead of joining a stale one
+    this.inFlightRequests.forEach((entry, key) => {
+      if (matches(entry.tags)) this.inFlightRequests.delete(key)
+    })
+
+    if (DEBUG_API) {
+      console.log('🧹 API cache invalidated:', tags.length ? tags.join(', ') : 'all');
+    }
+  }
+
+  /**
+   * Subscribe to session-expired events (AuthProvider shows the re-login dialog).
+   * Returns an unsubscribe function.
+   */
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener)
+    return () => {
+      this.sessionExpiredListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Called after a successful re-login - every parked request is retried with the new credentials
+   */
+  resumeAfterReauthentication(): void {
+    const pending = this.pendingReauthentication
+    this.pendingReauthentication = null
+    this.invalidateCache()
+    pending?.resolve()
+  }
+
+  /**
+   * Called when the user dismisses the re-login dialog - parked requests fail with SessionExpiredError
+   */
+  abandonReauthentication(): void {
+    const pending = this.pendingReauthentication
+    this.pendingReauthentication = null
+    pending?.reject(new SessionExpiredError())
+  }
+
+  /**
+   * Announce an expired session once and wait until the user signs back in.
+   * Requests failing while the dialog is open all wait on the same promise.
+   */
+  private waitForReauthentication(event: SessionExpiredEvent, signal?: AbortSignal | null): Promise<void> {
+    if (this.sessionExpiredListeners.size === 0) {
+      // Nobody can show the dialog (e.g. not logged in) - fail straight away
+      return Promise.reject(new SessionExpiredError(undefined, event.status))
+    }
+
+    if (!this.pendingReauthentication) {
+      let resolve!: () => void
+      let reject!: (error: Error) => void
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res
+        reject = rej
+      })
+      // Callers that go away while the dialog is open must not leave an unhandled rejection behind
+      promise.catch(() => {})
+      this.pendingReauthentication = { promise, resolve, reject }
+
+      console.warn('🔒 Session expired:', event)
+      this.sessionExpiredListeners.forEach(listener => listener(event))
+    }
+
+    const { promise } = this.pendingReauthentication
+    if (!signal) {
+      return promise
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(createAbortError())
+      if (signal.aborted) {
+        onAbort()
+        return
+      }
+      signal.addEventListener('abort', onAbort, { once: true })
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+
+  /**
+   * Guard for vendor-only endpoints. A missing session is handled like an
+   * expired one: the call waits for the re-login dialog instead of failing.
+   */
+  private async requireSession(endpoint: string, signal?: AbortSignal | null): Promise<void> {
+    if (!sessionStore.get()) {
+      console.log('❌ API CLIENT: No session found');
+      await this.waitForReauthentication({ endpoint, status: 401 }, signal)
+    }
+
+    if (!sessionStore.get()) {
+      throw new SessionExpiredError('No active session found. Please login again.')
+    }
+  }
+
+  private getRequestKey(endpoint: string, options: RequestInit): string {
+    const headers = (options.headers || {}) as Record<string, string>
+    const authorization = headers['Authorization'] || this.getAuthHeader() || ''
+    return `${endpoint}|${authorization}`
+  }
+
+  private async makeRequest<T = any>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    schema?: z.ZodType<T, z.ZodTypeDef, any>,
+    cacheOptions: RequestCacheOptions = {}
   ): Promise<ApiResponse<T>> {
-    const authHeader = this.getAuthHeader()
+    const method = (options.method || 'GET').toUpperCase()
+    if (method !== 'GET') {
+      return this.sendRequest(endpoint, options, schema)
+    }
+
+    if (options.signal?.aborted) {
+      throw createAbortError()
+    }
+
+    const key = this.getRequestKey(endpoint, options)
+
+    const cached = this.responseCache.get(key)
+    if (cached && cached.expiresAt > Date.now()) {
+      if (DEBUG_API) {
+        console.log(`♻️ API Cache hit: GET ${endpoint}`);
+      }
+      return cached.response
+    }
+
+    // No point waiting through the retries - go straight to the saved copy
+    if (cacheOptions.offline && typeof navigator !== 'undefined' && !navigator.onLine) {
+      return this.loadOfflineSnapshot(endpoint, new NetworkError(getNetworkErrorMessage({}, endpoint)))
+    }
+
+    let inFlight = this.inFlightRequests.get(key)
+    if (inFlight) {
+      if (DEBUG_API) {
+        console.log(`🔗 Joining in-flight request: GET ${endpoint}`);
+      }
+    } else {
+      const tags = cacheOptions.tags || []
+      const generation = this.cacheGeneration
+      const controller = new AbortController()
+      const promise: Promise<ApiResponse<T>> = this.sendRequest(endpoint, { ...options, signal: controller.signal }, schema)
+        .then(response => {
+          if (cacheOptions.ttlMs && response.success && generation === this.cacheGeneration) {
+            this.responseCache.set(key, {
+              response,
+              expiresAt: Date.now() + cacheOptions.ttlMs,
+              tags,
+            })
+          }
+          if (cacheOptions.offline && response.success) {
+            offlineReadCache.save(endpoint, response)
+          }
+          return response
+        })
+        .catch(error => {
+          if (cacheOptions.offline && isNetworkError(error)) {
+            return this.loadOfflineSnapshot<T>(endpoint, error)
+          }
+          throw error
+        })
+        .finally(() => {
+          if (this.inFlightRequests.get(key)?.promise === promise) {
+            this.inFlightRequests.delete(key)
+          }
+        })
+
+      inFlight = { promise, tags, controller, waiting: 0 }
+      this.inFlightRequests.set(key, inFlight)
+    }
+
+    return this.waitForRequest(inFlight, options.signal)
+  }
+
+  /**
+   * Last saved response for an endpoint, flagged with `offlineSavedAt`.
+   * Rethrows the network error when nothing was saved yet.
+   */
+  private async loadOfflineSnapshot<T>(endpoint: string, error: Error): Promise<ApiResponse<T>> {
+    const snapshot = await offlineReadCache.load(endpoint)
+    if (!snapshot) {
+      throw error
+    }
+    return { ...snapshot.response, offlineSavedAt: snapshot.savedAt }
+  }
+
+  /**
+   * Attach one caller to a shared in-flight request.
+   * Aborting the caller's signal rejects only that caller; the underlying fetch is
+   * cancelled when nobody is left waiting for it.
+   */
+  private waitForRequest<T>(request: InFlightRequest, signal?: AbortSignal | null): Promise<ApiResponse<T>> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError())
+    }
+
+    request.waiting++
+    if (!signal) {
+      return request.promise
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        request.waiting--
+        if (request.waiting === 0) {
+          request.controller.abort()
+        }
+        reject(createAbortError())
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true })
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+
+  private async sendRequest<T>(
+    endpoint: string,
+    options: RequestInit,
+    schema?: z.ZodType<T, z.ZodTypeDef, any>,
+    authRetry: 'refreshed' | 'relogged' | null = null,
+    responseType: 'json' | 'blob' = 'json'
+  ): Promise<ApiResponse<T>> {
+    const isSessionCheckExcluded = SESSION_CHECK_EXCLUDED_ENDPOINTS.some(path => endpoint.startsWith(path))
+    const authHeader = isSessionCheckExcluded ? this.getAuthHeader() : await this.getAuthorizationHeader()
 
     const { headers: optionHeaders, ...restOptions } = options;
     const config: RequestInit = {
@@ -157,10 +703,15 @@ class ApiClient {
 
     // Retry loop for network resilience
     let lastError: Error | null = null;
+    let rejectedStatus: number | null = null;
 
     for (let attempt = 0; attempt < NETWORK_CONFIG.MAX_RETRIES; attempt++) {
+      if (options.signal?.aborted) {
+        throw createAbortError();
+      }
+
       // Create timeout controller for this attempt
-      const { controller, cleanup } = createTimeoutController();
+      const { controller, cleanup } = createTimeoutController(NETWORK_CONFIG.REQUEST_TIMEOUT_MS, options.signal);
 
       try {
         if (DEBUG_API) {
@@ -177,6 +728,20 @@ class ApiClient {
         // Clear timeout since request completed
         cleanup();
 
+        const sentAuthorization = (config.headers as Record<string, string>)['Authorization']
+
+        // Only 401 means the session is gone - a 403 is a role the user doesn't have and is reported like any other error
+        if (response.status === 401 && sentAuthorization && !isSessionCheckExcluded && authRetry !== 'relogged') {
+          // Handled after the loop so a failed refresh / re-login isn't retried as a network error
+          rejectedStatus = response.status
+          break
+        }
+
+        // File downloads - the body is the file; errors still come back as JSON below
+        if (responseType === 'blob' && response.ok) {
+          return { success: true, message: '', data: (await response.blob()) as T }
+        }
+
         // Check if response is JSON
         const contentType = response.headers.get('content-type')
         let data: any;
@@ -251,11 +816,16 @@ class ApiClient {
           console.log('  Data:', data);
         }
 
-        return data
+        return validateResponse(endpoint, data, schema)
       } catch (error: any) {
         cleanup(); // Ensure timeout is cleared
         lastError = error;
 
+        // Cancelled by the caller - don't retry and don't dress it up as a network error
+        if (options.signal?.aborted) {
+          throw createAbortError();
+        }
+
         // Check if we should retry
         if (isRetryableError(error) && attempt < NETWORK_CONFIG.MAX_RETRIES - 1) {
           const delay = getRetryDelay(attempt);
@@ -283,53 +853,99 @@ class ApiClient {
 
         // Provide user-friendly message for network errors
         if (isRetryableError(error)) {
-          throw new Error(getNetworkErrorMessage(error, endpoint));
+          throw new NetworkError(getNetworkErrorMessage(error, endpoint));
         }
 
         throw error
       }
     }
 
+    if (rejectedStatus !== null) {
+      // Access token expired - refresh it and replay the request once
+      if (authRetry === null) {
+        await this.refreshToken()
+        return this.sendRequest(endpoint, options, schema, 'refreshed', responseType)
+      }
+
+      // Still rejected - park the request behind the re-login dialog and retry it once more
+      await this.waitForReauthentication({ endpoint, status: rejectedStatus }, options.signal)
+      return this.sendRequest(endpoint, options, schema, 'relogged', responseType)
+    }
+
     // If we've exhausted all retries, throw the last error with a user-friendly message
     if (lastError && isRetryableError(lastError)) {
-      throw new Error(getNetworkErrorMessage(lastError, endpoint));
+      throw new NetworkError(getNetworkErrorMessage(lastError, endpoint));
     }
     throw lastError || new Error('Request failed after maximum retries');
   }
 
+  /**
+   * Download a file (CSV / PDF) with the same retries, token refresh and re-login as JSON requests
+   */
+  private async requestFile(endpoint: string, options: RequestInit = {}): Promise<Blob> {
+    const response = await this.sendRequest<Blob>(endpoint, options, undefined, null, 'blob')
+    if (!response.success) {
+      throw new Error(response.message || 'Download failed')
+    }
+    return response.data
+  }
+
   // Authentication methods
-  async generateAuthHeader(email: string, password: string): Promise<ApiResponse> {
-    return this.makeRequest('/auth/generate-header', {
+  async login(email: string, password: string): Promise<ApiResponse<LoginResponse>> {
+    const response = await this.makeRequest('/auth/login', {
       method: 'POST',
       body: JSON.stringify({ email, password })
-    })
+    }, LoginResponseSchema)
+
+    if (response.success) {
+      this.invalidateCache()
+      this.saveSession(response.data)
+    }
+    return response
   }
 
-  async logout(): Promise<ApiResponse> {
+  /**
+   * Revoke the session on the server. The local session is dropped right away so
+   * the UI can redirect without waiting for the network.
+   */
+  async logout(): Promise<ApiResponse<unknown>> {
+    const session = sessionStore.get()
+    this.invalidateCache()
+    offlineReadCache.clear()
+    sessionStore.clear()
+
+    if (!session) {
+      return { success: true, message: 'No active session', data: undefined }
+    }
+
     return this.makeRequest('/auth/logout', {
-      method: 'POST'
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.accessToken}`
+      },
+      body: JSON.stringify({ refreshToken: session.refreshToken })
     })
   }
 
-  async getProfile(): Promise<ApiResponse> {
+  async getProfile(): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/auth/profile')
   }
 
-  async changePassword(oldPassword: string, newPassword: string, confirmPassword: string): Promise<ApiResponse> {
+  async changePassword(oldPassword: string, newPassword: string, confirmPassword: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/auth/change-password', {
       method: 'PUT',
       body: JSON.stringify({ oldPassword, newPassword, confirmPassword })
     })
   }
 
-  async resetPassword(email: string, oldPassword: string, newPassword: string, confirmPassword: string): Promise<ApiResponse> {
+  async resetPassword(email: string, oldPassword: string, newPassword: string, confirmPassword: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/auth/reset-password', {
       method: 'POST',
       body: JSON.stringify({ email, oldPassword, newPassword, confirmPassword })
     })
   }
 
-  async changeUserPassword(userId: string, newPassword: string): Promise<ApiResponse> {
+  async changeUserPassword(userId: string, newPassword: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/auth/change-user-password', {
       method: 'PUT',
       body: JSON.stringify({ userId, newPassword })
@@ -343,7 +959,7 @@ class ApiClient {
     role?: string
     status?: string
     q?: string
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<UserList>> {
     const queryParams = new URLSearchParams()
     if (params?.page) queryParams.append('page', params.page.toString())
     if (params?.limit) queryParams.append('limit', params.limit.toString())
@@ -354,7 +970,7 @@ class ApiClient {
     const queryString = queryParams.toString()
     const endpoint = queryString ? `/users?${queryString}` : '/users'
 
-    return this.makeRequest(endpoint)
+    return this.makeRequest(endpoint, {}, UserListSchema)
   }
 
   async createUser(userData: {
@@ -366,7 +982,7 @@ class ApiClient {
     status?: string
     warehouseId?: string
     contactNumber?: string
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<unknown>> {
     // Check user role from localStorage to determine which endpoint to use
     const authHeader = this.getAuthHeader()
     if (!authHeader) {
@@ -403,7 +1019,7 @@ class ApiClient {
     status: string
     warehouseId: string
     contactNumber: string
-  }>): Promise<ApiResponse> {
+  }>): Promise<ApiResponse<unknown>> {
     const userInfo = this.getCurrentUserInfo()
 
     if (userInfo?.role === 'superadmin') {
@@ -423,7 +1039,7 @@ class ApiClient {
     }
   }
 
-  async deleteUser(userId: string): Promise<ApiResponse> {
+  async deleteUser(userId: string): Promise<ApiResponse<unknown>> {
     const userInfo = this.getCurrentUserInfo()
 
     if (userInfo?.role === 'superadmin') {
@@ -441,59 +1057,59 @@ class ApiClient {
     }
   }
 
-  async getUserById(userId: string): Promise<ApiResponse> {
-    return this.makeRequest(`/users/${userId}`)
+  async getUserById(userId: string): Promise<ApiResponse<User>> {
+    return this.makeRequest(`/users/${userId}`, {}, UserSchema)
   }
 
-  async getUsersByRole(role: string): Promise<ApiResponse> {
-    return this.makeRequest(`/users/role/${role}`)
+  async getUsersByRole(role: string): Promise<ApiResponse<User[]>> {
+    return this.makeRequest(`/users/role/${role}`, {}, z.array(UserSchema))
   }
 
-  async getUsersByStatus(status: string): Promise<ApiResponse> {
-    return this.makeRequest(`/users/status/${status}`)
+  async getUsersByStatus(status: string): Promise<ApiResponse<User[]>> {
+    return this.makeRequest(`/users/status/${status}`, {}, z.array(UserSchema))
   }
 
-  async toggleUserStatus(userId: string): Promise<ApiResponse> {
+  async toggleUserStatus(userId: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/users/${userId}/toggle-status`, {
       method: 'PATCH'
     })
   }
 
-  async getVendorAddress(): Promise<ApiResponse> {
-    return this.makeRequest('/users/vendor/address');
+  async getVendorAddress(): Promise<ApiResponse<VendorAddress>> {
+    return this.makeRequest('/users/vendor/address', {}, VendorAddressSchema, { offline: true });
   }
 
   // Shipway API methods (Superadmin only)
-  async getWarehouseById(warehouseId: string): Promise<ApiResponse> {
+  async getWarehouseById(warehouseId: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/shipway/warehouse/${warehouseId}`)
   }
 
-  async validateWarehouseId(warehouseId: string): Promise<ApiResponse> {
+  async validateWarehouseId(warehouseId: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/shipway/validate/${warehouseId}`)
   }
 
-  async validateWarehouseForUser(warehouseId: string): Promise<ApiResponse> {
+  async validateWarehouseForUser(warehouseId: string): Promise<ApiResponse<WarehouseValidation>> {
     return this.makeRequest('/shipway/validate-warehouse', {
       method: 'POST',
       body: JSON.stringify({ warehouseId })
-    })
+    }, WarehouseValidationSchema)
   }
 
-  async testShipwayConnection(): Promise<ApiResponse> {
+  async testShipwayConnection(): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/shipway/test-connection')
   }
 
-  async getShipwayStats(): Promise<ApiResponse> {
+  async getShipwayStats(): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/shipway/stats')
   }
 
-  async verifyWarehouse(warehouseId: string): Promise<ApiResponse> {
-    return this.makeRequest(`/shipway/verify-warehouse/${warehouseId}`);
+  async verifyWarehouse(warehouseId: string): Promise<ApiResponse<WarehouseAddress>> {
+    return this.makeRequest(`/shipway/verify-warehouse/${warehouseId}`, {}, WarehouseAddressSchema);
   }
 
 
   // Orders API for vendor panel
-  async getOrders(page: number = 1, limit: number = 50, status: string = 'unclaimed', search?: string, dateFrom?: string, dateTo?: string): Promise<ApiResponse> {
+  async getOrders(page: number = 1, limit: number = 50, status: string = 'unclaimed', search?: string, dateFrom?: string, dateTo?: string, signal?: AbortSignal): Promise<ApiResponse<OrderList>> {
     let url = `/orders?page=${page}&limit=${limit}&status=${status}`;
     if (search) {
       url += `&search=${encodeURIComponent(search)}`;
@@ -504,22 +1120,25 @@ class ApiClient {
     if (dateTo) {
       url += `&dateTo=${encodeURIComponent(dateTo)}`;
     }
-    return this.makeRequest(url);
+    return this.makeRequest(url, { signal }, OrderListSchema, {
+      ttlMs: NETWORK_CONFIG.ORDERS_CACHE_TTL_MS,
+      tags: ['orders'],
+      offline: true,
+    });
   }
-  async getOrdersLastUpdated(): Promise<ApiResponse> {
-    return this.makeRequest('/orders/last-updated')
+  async getOrdersLastUpdated(): Promise<ApiResponse<LastUpdated>> {
+    return this.makeRequest('/orders/last-updated', {}, LastUpdatedSchema)
   }
 
-  async refreshOrders(runAsync: boolean = false): Promise<ApiResponse> {
-    const vendorToken = typeof window !== 'undefined' ? localStorage.getItem('vendorToken') : null;
-
-    return this.makeRequest('/orders/refresh', {
+  async refreshOrders(runAsync: boolean = false): Promise<ApiResponse<TaskAccepted>> {
+    const response = await this.makeRequest('/orders/refresh', {
       method: 'POST',
-      headers: {
-        ...(vendorToken && { 'Authorization': vendorToken }),
-      },
       body: JSON.stringify({ async: runAsync })
-    });
+    }, TaskAcceptedSchema);
+
+    // Sync mode has already replaced the data; async callers invalidate again once the task completes
+    this.invalidateCache()
+    return response
   }
 
   // Admin orders API
@@ -534,8 +1153,9 @@ class ApiClient {
       vendor?: string | string[],
       store?: string | string[],
       showInactiveStores?: boolean
-    }
-  ): Promise<ApiResponse> {
+    },
+    signal?: AbortSignal
+  ): Promise<ApiResponse<OrderList>> {
     // Build query params
     const params = new URLSearchParams({
       page: page.toString(),
@@ -574,7 +1194,7 @@ class ApiClient {
       if (filters.showInactiveStores) params.append('showInactiveStores', 'true');
     }
 
-    return this.makeRequest(`/orders/admin/all?${params.toString()}`);
+    return this.makeRequest(`/orders/admin/all?${params.toString()}`, { signal }, OrderListSchema);
   }
 
   async getAdminDashboardStats(filters?: {
@@ -585,7 +1205,7 @@ class ApiClient {
     vendor?: string | string[],
     store?: string | string[],
     showInactiveStores?: boolean
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<AdminDashboardStats>> {
     // Build query params
     const params = new URLSearchParams();
 
@@ -622,122 +1242,114 @@ class ApiClient {
     }
 
     const queryString = params.toString();
-    return this.makeRequest(`/orders/admin/dashboard-stats${queryString ? '?' + queryString : ''}`);
+    return this.makeRequest(`/orders/admin/dashboard-stats${queryString ? '?' + queryString : ''}`, {}, AdminDashboardStatsSchema);
   }
 
-  async refreshAdminOrders(runAsync: boolean = false): Promise<ApiResponse> {
+  async refreshAdminOrders(runAsync: boolean = false): Promise<ApiResponse<TaskAccepted>> {
     return this.makeRequest('/orders/admin/refresh', {
       method: 'POST',
       body: JSON.stringify({ async: runAsync })
-    });
+    }, TaskAcceptedSchema);
   }
 
-  async getAdminVendors(): Promise<ApiResponse> {
+  async getAdminVendors(): Promise<ApiResponse<VendorReportList>> {
     // Prefer enriched vendors report for admin auditing table
-    return this.makeRequest('/users/vendors-report');
+    return this.makeRequest('/users/vendors-report', {}, VendorReportListSchema);
   }
 
-  async getDistinctOrderStatuses(): Promise<ApiResponse> {
-    return this.makeRequest('/orders/distinct-statuses')
+  async getDistinctOrderStatuses(): Promise<ApiResponse<string[]>> {
+    return this.makeRequest('/orders/distinct-statuses', {}, z.array(z.string()))
   }
 
-  async getVendorStats(): Promise<ApiResponse> {
+  async getVendorStats(): Promise<ApiResponse<VendorStats>> {
     // Lightweight endpoint for vendor counts only (for dashboard cards)
-    return this.makeRequest('/users/vendors-stats');
+    return this.makeRequest('/users/vendors-stats', {}, VendorStatsSchema);
   }
 
-  async assignOrderToVendor(unique_id: string, vendor_warehouse_id: string): Promise<ApiResponse> {
+  async assignOrderToVendor(unique_id: string, vendor_warehouse_id: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/orders/admin/assign', {
       method: 'POST',
       body: JSON.stringify({ unique_id, vendor_warehouse_id })
     });
   }
 
-  async bulkAssignOrdersToVendor(unique_ids: string[], vendor_warehouse_id: string): Promise<ApiResponse> {
+  async bulkAssignOrdersToVendor(unique_ids: string[], vendor_warehouse_id: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/orders/admin/bulk-assign', {
       method: 'POST',
       body: JSON.stringify({ unique_ids, vendor_warehouse_id })
     });
   }
 
-  async bulkUnassignOrders(unique_ids: string[]): Promise<ApiResponse> {
+  async bulkUnassignOrders(unique_ids: string[]): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/orders/admin/bulk-unassign', {
       method: 'POST',
       body: JSON.stringify({ unique_ids })
     });
   }
 
-  async unassignOrder(unique_id: string): Promise<ApiResponse> {
+  async unassignOrder(unique_id: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/orders/admin/unassign', {
       method: 'POST',
       body: JSON.stringify({ unique_id })
     });
   }
 
-  async claimOrder(unique_id: string): Promise<ApiResponse> {
+  async claimOrder(unique_id: string): Promise<ApiResponse<ClaimResult>> {
     console.log('🔵 API CLIENT: claimOrder called');
     console.log('  - unique_id:', unique_id);
 
-    // Use vendor token for claim endpoint
-    const vendorToken = localStorage.getItem('vendorToken')
-
-
-    if (!vendorToken) {
-      console.log('❌ API CLIENT: No vendor token found');
-      throw new Error('No vendor token found. Please login again.')
-    }
+    // Vendor-only claim endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/claim')
 
     console.log('📤 API CLIENT: Making request to /orders/claim');
     console.log('  - Body:', JSON.stringify({ unique_id }));
 
-    return this.makeRequest('/orders/claim', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': vendorToken
-      },
-      body: JSON.stringify({ unique_id }),
-    })
+    try {
+      return await this.makeRequest('/orders/claim', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ unique_id }),
+      }, ClaimResultSchema)
+    } finally {
+      // Even when the request throws (e.g. already claimed by another vendor) the cached lists are stale
+      this.invalidateCache('orders', 'grouped', 'dashboard-stats')
+    }
   }
 
-  async bulkClaimOrders(unique_ids: string[]): Promise<ApiResponse> {
+  async bulkClaimOrders(unique_ids: string[]): Promise<ApiResponse<BulkClaimResult>> {
     console.log('🔵 API CLIENT: bulkClaimOrders called');
     console.log('  - unique_ids:', unique_ids);
 
-    // Use vendor token for bulk claim endpoint
-    const vendorToken = localStorage.getItem('vendorToken')
-    console.log('🔑 API CLIENT: Token check');
-    console.log('  - vendorToken exists:', vendorToken ? 'YES' : 'NO');
-
-    if (!vendorToken) {
-      console.log('❌ API CLIENT: No vendor token found');
-      throw new Error('No vendor token found. Please login again.')
-    }
+    // Vendor-only bulk claim endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/bulk-claim')
 
     console.log('📤 API CLIENT: Making request to /orders/bulk-claim');
     console.log('  - Method: POST');
     console.log('  - Headers: Content-Type, Authorization');
     console.log('  - Body:', JSON.stringify({ unique_ids }));
 
-    return this.makeRequest('/orders/bulk-claim', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': vendorToken
-      },
-      body: JSON.stringify({ unique_ids }),
-    })
+    try {
+      return await this.makeRequest('/orders/bulk-claim', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ unique_ids }),
+      }, BulkClaimResultSchema)
+    } finally {
+      this.invalidateCache('orders', 'grouped', 'dashboard-stats')
+    }
   }
 
-  async verifyOrderStatuses(unique_ids: string[]): Promise<ApiResponse> {
+  async verifyOrderStatuses(unique_ids: string[]): Promise<ApiResponse<OrderStatusVerification>> {
     console.log('🔵 API CLIENT: verifyOrderStatuses called');
     console.log('  - unique_ids:', unique_ids);
 
-    const vendorToken = localStorage.getItem('vendorToken')
-
-    if (!vendorToken) {
-      console.log('❌ API CLIENT: No vendor token found');
-      return { success: false, message: 'No vendor token found' };
+    if (!sessionStore.get()) {
+      console.log('❌ API CLIENT: No session found');
+      return { success: false, message: 'No active session found' };
     }
 
     console.log('📤 API CLIENT: Making request to /orders/verify-status');
@@ -750,27 +1362,18 @@ class ApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': vendorToken
       },
       body: JSON.stringify({ unique_ids }),
-    });
+    }, OrderStatusVerificationSchema);
   }
 
-  async getGroupedOrders(page: number = 1, limit: number = 50): Promise<ApiResponse> {
+  async getGroupedOrders(page: number = 1, limit: number = 50, signal?: AbortSignal): Promise<ApiResponse<GroupedOrderList>> {
     console.log('🔵 API CLIENT: getGroupedOrders called');
     console.log('  - page:', page);
     console.log('  - limit:', limit);
 
-    // Use vendor token for grouped orders endpoint
-    const vendorToken = localStorage.getItem('vendorToken')
-    console.log('🔑 API CLIENT: Token check');
-    console.log('  - vendorToken exists:', vendorToken ? 'YES' : 'NO');
-    console.log('  - vendorToken value:', JSON.stringify(vendorToken));
-
-    if (!vendorToken) {
-      console.log('❌ API CLIENT: No vendor token found');
-      throw new Error('No vendor token found. Please login again.')
-    }
+    // Vendor-only grouped orders endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/grouped', signal)
 
     console.log('📤 API CLIENT: Making request to /orders/grouped');
     console.log('  - Method: GET');
@@ -779,26 +1382,21 @@ class ApiClient {
 
     return this.makeRequest(`/orders/grouped?page=${page}&limit=${limit}`, {
       method: 'GET',
-      headers: {
-        'Authorization': vendorToken
-      },
+      signal,
+    }, GroupedOrderListSchema, {
+      ttlMs: NETWORK_CONFIG.ORDERS_CACHE_TTL_MS,
+      tags: ['grouped'],
+      offline: true,
     })
   }
 
-  async getHandoverOrders(page: number = 1, limit: number = 50): Promise<ApiResponse> {
+  async getHandoverOrders(page: number = 1, limit: number = 50, signal?: AbortSignal): Promise<ApiResponse<HandoverOrderList>> {
     console.log('🔵 API CLIENT: getHandoverOrders called');
     console.log('  - page:', page);
     console.log('  - limit:', limit);
 
-    // Use vendor token for handover orders endpoint
-    const vendorToken = localStorage.getItem('vendorToken')
-    console.log('🔑 API CLIENT: Token check');
-    console.log('  - vendorToken exists:', vendorToken ? 'YES' : 'NO');
-
-    if (!vendorToken) {
-      console.log('❌ API CLIENT: No vendor token found');
-      throw new Error('No vendor token found. Please login again.')
-    }
+    // Vendor-only handover orders endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/handover', signal)
 
     console.log('📤 API CLIENT: Making request to /orders/handover');
     console.log('  - Method: GET');
@@ -807,26 +1405,21 @@ class ApiClient {
 
     return this.makeRequest(`/orders/handover?page=${page}&limit=${limit}`, {
       method: 'GET',
-      headers: {
-        'Authorization': vendorToken
-      },
+      signal,
+    }, HandoverOrderListSchema, {
+      ttlMs: NETWORK_CONFIG.ORDERS_CACHE_TTL_MS,
+      tags: ['handover'],
+      offline: true,
     })
   }
 
-  async getOrderTrackingOrders(page: number = 1, limit: number = 50): Promise<ApiResponse> {
+  async getOrderTrackingOrders(page: number = 1, limit: number = 50, signal?: AbortSignal): Promise<ApiResponse<TrackingOrderList>> {
     console.log('🔵 API CLIENT: getOrderTrackingOrders called');
     console.log('  - page:', page);
     console.log('  - limit:', limit);
 
-    // Use vendor token for order tracking endpoint
-    const vendorToken = localStorage.getItem('vendorToken')
-    console.log('🔑 API CLIENT: Token check');
-    console.log('  - vendorToken exists:', vendorToken ? 'YES' : 'NO');
-
-    if (!vendorToken) {
-      console.log('❌ API CLIENT: No vendor token found');
-      throw new Error('No vendor token found. Please login again.')
-    }
+    // Vendor-only order tracking endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/order-tracking', signal)
 
     console.log('📤 API CLIENT: Making request to /orders/order-tracking');
     console.log('  - Method: GET');
@@ -835,24 +1428,53 @@ class ApiClient {
 
     return this.makeRequest(`/orders/order-tracking?page=${page}&limit=${limit}`, {
       method: 'GET',
-      headers: {
-        'Authorization': vendorToken
-      },
+      signal,
+    }, TrackingOrderListSchema, {
+      ttlMs: NETWORK_CONFIG.ORDERS_CACHE_TTL_MS,
+      tags: ['tracking'],
+      offline: true,
     })
   }
 
-  async getDashboardStats(): Promise<ApiResponse> {
-    console.log('📊 API CLIENT: getDashboardStats called');
+  /**
+   * Carrier scan events of one tracked order (newest first) with its expected delivery date
+   */
+  async getShipmentTracking(orderId: string, signal?: AbortSignal): Promise<ApiResponse<ShipmentTracking>> {
+    console.log('🚚 API CLIENT: getShipmentTracking called for', orderId);
 
-    // Use vendor token for dashboard stats endpoint
-    const vendorToken = localStorage.getItem('vendorToken')
-    console.log('🔑 API CLIENT: Token check');
-    console.log('  - vendorToken exists:', vendorToken ? 'YES' : 'NO');
+    const path = `/orders/${encodeURIComponent(orderId)}/tracking-events`
+    await this.requireSession(path, signal)
 
-    if (!vendorToken) {
-      console.log('❌ API CLIENT: No vendor token found');
-      throw new Error('No vendor token found. Please login again.')
-    }
+    return this.makeRequest(path, {
+      method: 'GET',
+      signal,
+    }, ShipmentTrackingSchema, {
+      ttlMs: NETWORK_CONFIG.ORDERS_CACHE_TTL_MS,
+      tags: ['tracking'],
+    })
+  }
+
+  /**
+   * Scan events of several tracked orders at once, for the tracking export
+   */
+  async getShipmentTrackingBulk(order_ids: string[], signal?: AbortSignal): Promise<ApiResponse<ShipmentTrackingList>> {
+    console.log('🚚 API CLIENT: getShipmentTrackingBulk called');
+    console.log('  - order_ids:', order_ids);
+
+    await this.requireSession('/orders/tracking-events', signal)
+
+    return this.makeRequest('/orders/tracking-events', {
+      method: 'POST',
+      body: JSON.stringify({ order_ids }),
+      signal,
+    }, ShipmentTrackingListSchema)
+  }
+
+  async getDashboardStats(): Promise<ApiResponse<DashboardStats>> {
+    console.log('📊 API CLIENT: getDashboardStats called');
+
+    // Vendor-only dashboard stats endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/dashboard-stats')
 
     console.log('📤 API CLIENT: Making request to /orders/dashboard-stats');
     console.log('  - Method: GET');
@@ -860,121 +1482,239 @@ class ApiClient {
 
     return this.makeRequest(`/orders/dashboard-stats`, {
       method: 'GET',
-      headers: {
-        'Authorization': vendorToken
-      },
+    }, DashboardStatsSchema, {
+      ttlMs: NETWORK_CONFIG.ORDERS_CACHE_TTL_MS,
+      tags: ['dashboard-stats'],
+      offline: true,
     })
   }
 
-  async reverseOrder(unique_id: string): Promise<ApiResponse> {
+  async reverseOrder(unique_id: string): Promise<ApiResponse<unknown>> {
     console.log('🔵 API CLIENT: reverseOrder called');
     console.log('  - unique_id:', unique_id);
 
-    // Use vendor token for reverse endpoint
-    const vendorToken = localStorage.getItem('vendorToken')
-    console.log('🔑 API CLIENT: Token check');
-    console.log('  - vendorToken exists:', vendorToken ? 'YES' : 'NO');
-
-    if (!vendorToken) {
-      console.log('❌ API CLIENT: No vendor token found');
-      throw new Error('No vendor token found. Please login again.')
-    }
+    // Vendor-only reverse endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/reverse')
 
     console.log('📤 API CLIENT: Making request to /orders/reverse');
     console.log('  - Method: POST');
     console.log('  - Headers: Content-Type, Authorization');
     console.log('  - Body:', JSON.stringify({ unique_id }));
 
-    return this.makeRequest('/orders/reverse', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': vendorToken
-      },
-      body: JSON.stringify({ unique_id }),
-    })
+    try {
+      return await this.makeRequest('/orders/reverse', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ unique_id }),
+      })
+    } finally {
+      this.invalidateCache('orders', 'grouped', 'dashboard-stats')
+    }
   }
 
-  async reverseGroupedOrder(order_id: string, unique_ids: string[]): Promise<ApiResponse> {
-    console.log('🔵 API CLIENT: reverseGroupedOrder called');
+  async markOrderReady(order_id: string): Promise<ApiResponse<unknown>> {
+    console.log('🔵 API CLIENT: markOrderReady called');
     console.log('  - order_id:', order_id);
-    console.log('  - unique_ids:', unique_ids);
 
-    // Use vendor token for reverse grouped endpoint
-    const vendorToken = localStorage.getItem('vendorToken')
-    console.log('🔑 API CLIENT: Token check');
-    console.log('  - vendorToken exists:', vendorToken ? 'YES' : 'NO');
+    // Vendor-only mark ready endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/mark-ready')
+
+    try {
+      return await this.makeRequest('/orders/mark-ready', {
+        method: 'POST',
+        body: JSON.stringify({ order_id }),
+      })
+    } finally {
+      this.invalidateCache('grouped', 'handover', 'dashboard-stats')
+    }
+  }
+
+  async bulkMarkOrdersReady(order_ids: string[]): Promise<ApiResponse<BulkMarkReadyResult>> {
+    console.log('🔵 API CLIENT: bulkMarkOrdersReady called');
+    console.log('  - order_ids:', order_ids);
+
+    // Vendor-only bulk mark ready endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/bulk-mark-ready')
 
-    if (!vendorToken) {
-      console.log('❌ API CLIENT: No vendor token found');
-      throw new Error('No vendor token found. Please login again.')
+    try {
+      return await this.makeRequest('/orders/bulk-mark-ready', {
+        method: 'POST',
+        body: JSON.stringify({ order_ids }),
+      }, BulkMarkReadyResultSchema)
+    } finally {
+      this.invalidateCache('grouped', 'handover', 'dashboard-stats')
     }
+  }
+
+  async reverseGroupedOrder(order_id: string, unique_ids: string[]): Promise<ApiResponse<ReverseGroupedResult>> {
+    console.log('🔵 API CLIENT: reverseGroupedOrder called');
+    console.log('  - order_id:', order_id);
+    console.log('  - unique_ids:', unique_ids);
+
+    // Vendor-only reverse grouped endpoint - waits for re-login if the session is gone
+    await this.requireSession('/orders/reverse-grouped')
 
     console.log('📤 API CLIENT: Making request to /orders/reverse-grouped');
     console.log('  - Method: POST');
     console.log('  - Headers: Content-Type, Authorization');
     console.log('  - Body:', JSON.stringify({ order_id, unique_ids }));
 
-    return this.makeRequest('/orders/reverse-grouped', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': vendorToken
-      },
-      body: JSON.stringify({ order_id, unique_ids }),
-    })
+    try {
+      return await this.makeRequest('/orders/reverse-grouped', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ order_id, unique_ids }),
+      }, ReverseGroupedResultSchema)
+    } finally {
+      this.invalidateCache('orders', 'grouped', 'dashboard-stats')
+    }
   }
 
   // Settlement API methods
 
   // Vendor settlement methods
-  async getVendorPayments(): Promise<ApiResponse> {
-    return this.makeRequest('/settlements/vendor/payments');
+  async getVendorPayments(): Promise<ApiResponse<VendorPayments>> {
+    return this.makeRequest('/settlements/vendor/payments', {}, VendorPaymentsSchema, { offline: true });
   }
 
-  async createSettlementRequest(upiId: string): Promise<ApiResponse> {
+  // payoutMethodId must be one of the vendor's verified payout methods
+  async createSettlementRequest(payoutMethodId: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/settlements/vendor/request', {
       method: 'POST',
-      body: JSON.stringify({ upiId })
+      body: JSON.stringify({ payoutMethodId })
     });
   }
 
-  async getVendorSettlements(): Promise<ApiResponse> {
-    return this.makeRequest('/settlements/vendor/history');
+  // Saved payout methods, with the UPI ID / account number masked
+  async getPayoutMethods(signal?: AbortSignal): Promise<ApiResponse<PayoutMethod[]>> {
+    return this.makeRequest('/settlements/vendor/payout-methods', { signal }, z.array(PayoutMethodSchema));
+  }
+
+  // New methods start unverified and can't be used for settlements until verifyPayoutMethod succeeds
+  async addPayoutMethod(
+    method: { type: 'upi'; upiId: string } | { type: 'bank'; accountHolderName: string; accountNumber: string; ifsc: string }
+  ): Promise<ApiResponse<PayoutMethod>> {
+    return this.makeRequest('/settlements/vendor/payout-methods', {
+      method: 'POST',
+      body: JSON.stringify(method)
+    }, PayoutMethodSchema);
+  }
+
+  async verifyPayoutMethod(methodId: string): Promise<ApiResponse<PayoutMethod>> {
+    return this.makeRequest(`/settlements/vendor/payout-methods/${methodId}/verify`, { method: 'POST' }, PayoutMethodSchema);
+  }
+
+  async setDefaultPayoutMethod(methodId: string): Promise<ApiResponse<PayoutMethod>> {
+    return this.makeRequest(`/settlements/vendor/payout-methods/${methodId}/default`, { method: 'POST' }, PayoutMethodSchema);
+  }
+
+  async deletePayoutMethod(methodId: string): Promise<ApiResponse<unknown>> {
+    return this.makeRequest(`/settlements/vendor/payout-methods/${methodId}`, { method: 'DELETE' });
+  }
+
+  async getSettlementSchedule(signal?: AbortSignal): Promise<ApiResponse<SettlementSchedule>> {
+    return this.makeRequest('/settlements/vendor/schedule', { signal }, SettlementScheduleSchema);
   }
 
-  async getVendorTransactions(): Promise<ApiResponse> {
-    return this.makeRequest('/settlements/vendor/transactions');
+  // Automatic cycles pay the whole payable balance to the default verified payout method
+  async updateSettlementSchedule(cycle: SettlementSchedule['cycle']): Promise<ApiResponse<SettlementSchedule>> {
+    return this.makeRequest('/settlements/vendor/schedule', {
+      method: 'PUT',
+      body: JSON.stringify({ cycle })
+    }, SettlementScheduleSchema);
+  }
+
+  async getVendorSettlements(): Promise<ApiResponse<Settlement[]>> {
+    return this.makeRequest('/settlements/vendor/history', {}, z.array(SettlementSchema));
+  }
+
+  async getVendorTransactions(): Promise<ApiResponse<Transaction[]>> {
+    return this.makeRequest('/settlements/vendor/transactions', {}, z.array(TransactionSchema));
+  }
+
+  /**
+   * Itemized earnings behind the current / future payment totals, oldest first, with the
+   * running payable balance. from / to (YYYY-MM-DD) narrow the entries; balances still count
+   * everything before the range.
+   */
+  async getVendorLedger(params?: { from?: string; to?: string }, signal?: AbortSignal): Promise<ApiResponse<VendorLedger>> {
+    const queryParams = new URLSearchParams();
+    if (params?.from) queryParams.append('from', params.from);
+    if (params?.to) queryParams.append('to', params.to);
+
+    const queryString = queryParams.toString();
+    const endpoint = queryString ? `/settlements/vendor/ledger?${queryString}` : '/settlements/vendor/ledger';
+    return this.makeRequest(endpoint, { signal }, VendorLedgerSchema);
   }
 
   // Admin settlement methods
-  async getAllSettlements(params?: {
+  async getAllSettlements(params?: SettlementFilterParams & {
     page?: number;
     limit?: number;
-    status?: string;
-    vendorName?: string;
-    startDate?: string;
-    endDate?: string;
-  }): Promise<ApiResponse> {
-    const queryParams = new URLSearchParams();
+  }): Promise<ApiResponse<SettlementList>> {
+    const queryParams = this.settlementFilterQuery(params);
     if (params?.page) queryParams.append('page', params.page.toString());
     if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+    const queryString = queryParams.toString();
+    const endpoint = queryString ? `/settlements/admin/all?${queryString}` : '/settlements/admin/all';
+
+    return this.makeRequest(endpoint, {}, SettlementListSchema);
+  }
+
+  private settlementFilterQuery(params?: SettlementFilterParams): URLSearchParams {
+    const queryParams = new URLSearchParams();
     if (params?.status) queryParams.append('status', params.status);
     if (params?.vendorName) queryParams.append('vendorName', params.vendorName);
     if (params?.startDate) queryParams.append('startDate', params.startDate);
     if (params?.endDate) queryParams.append('endDate', params.endDate);
+    return queryParams;
+  }
 
-    const queryString = queryParams.toString();
-    const endpoint = queryString ? `/settlements/admin/all?${queryString}` : '/settlements/admin/all';
+  async getSettlementById(settlementId: string): Promise<ApiResponse<Settlement>> {
+    return this.makeRequest(`/settlements/admin/${settlementId}`, {}, SettlementSchema);
+  }
 
-    return this.makeRequest(endpoint);
+  // amountPaid may be less than the requested amount - the rest is paid later with recordSettlementPayment
+  async approveSettlement(settlementId: string, amountPaid: number, transactionId: string, paymentProof?: File): Promise<ApiResponse<unknown>> {
+    return this.postSettlementPayment(`/settlements/admin/${settlementId}/approve`, amountPaid, transactionId, paymentProof);
   }
 
-  async getSettlementById(settlementId: string): Promise<ApiResponse> {
-    return this.makeRequest(`/settlements/admin/${settlementId}`);
+  // Another payment against an approved, partially paid settlement
+  async recordSettlementPayment(settlementId: string, amountPaid: number, transactionId: string, paymentProof?: File): Promise<ApiResponse<unknown>> {
+    return this.postSettlementPayment(`/settlements/admin/${settlementId}/payments`, amountPaid, transactionId, paymentProof);
   }
 
-  async approveSettlement(settlementId: string, amountPaid: number, transactionId: string, paymentProof?: File): Promise<ApiResponse> {
+  // Approve / pay settlements matched to rows of an imported bank statement in one go
+  async reconcileSettlements(
+    statementName: string,
+    matches: { settlementId: string; amountPaid: number; transactionId: string; paidAt?: string; statementRow: Record<string, string> }[]
+  ): Promise<ApiResponse<SettlementReconcileResult>> {
+    return this.makeRequest('/settlements/admin/reconcile', {
+      method: 'POST',
+      body: JSON.stringify({ statementName, matches })
+    }, SettlementReconcileResultSchema);
+  }
+
+  async bulkApproveSettlements(ids: string[]): Promise<ApiResponse<SettlementBulkResult>> {
+    return this.makeRequest('/settlements/admin/bulk-approve', {
+      method: 'POST',
+      body: JSON.stringify({ ids })
+    }, SettlementBulkResultSchema);
+  }
+
+  async bulkRejectSettlements(ids: string[], rejectionReason: string): Promise<ApiResponse<SettlementBulkResult>> {
+    return this.makeRequest('/settlements/admin/bulk-reject', {
+      method: 'POST',
+      body: JSON.stringify({ ids, rejectionReason })
+    }, SettlementBulkResultSchema);
+  }
+
+  private async postSettlementPayment(endpoint: string, amountPaid: number, transactionId: string, paymentProof?: File): Promise<ApiResponse<unknown>> {
     const formData = new FormData();
     formData.append('amountPaid', amountPaid.toString());
     formData.append('transactionId', transactionId);
@@ -982,7 +1722,7 @@ class ApiClient {
       formData.append('paymentProof', paymentProof);
     }
 
-    const authHeader = this.getAuthHeader();
+    const authHeader = await this.getAuthorizationHeader();
 
     const config: RequestInit = {
       method: 'POST',
@@ -993,7 +1733,7 @@ class ApiClient {
     };
 
     try {
-      const response = await fetch(`${API_BASE_URL}/settlements/admin/${settlementId}/approve`, config);
+      const response = await fetch(`${API_BASE_URL}${endpoint}`, config);
       const data = await response.json();
 
       if (!response.ok) {
@@ -1007,30 +1747,19 @@ class ApiClient {
     }
   }
 
-  async rejectSettlement(settlementId: string, rejectionReason: string): Promise<ApiResponse> {
+  async rejectSettlement(settlementId: string, rejectionReason: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/settlements/admin/${settlementId}/reject`, {
       method: 'POST',
       body: JSON.stringify({ rejectionReason })
     });
   }
 
-  async exportSettlementsCSV(): Promise<Blob> {
-    const authHeader = this.getAuthHeader();
-
-    const config: RequestInit = {
-      headers: {
-        ...(authHeader && { 'Authorization': authHeader }),
-      },
-    };
+  // Exports only the settlements matching the given filters - the whole table without any
+  async exportSettlementsCSV(params?: SettlementFilterParams): Promise<Blob> {
+    const queryString = this.settlementFilterQuery(params).toString();
 
     try {
-      const response = await fetch(`${API_BASE_URL}/settlements/admin/export-csv`, config);
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return response.blob();
+      return await this.requestFile(`/settlements/admin/export-csv${queryString ? `?${queryString}` : ''}`);
     } catch (error) {
       console.error('CSV export failed:', error);
       throw error;
@@ -1038,7 +1767,7 @@ class ApiClient {
   }
 
   async getPaymentProof(filename: string): Promise<Blob> {
-    const authHeader = this.getAuthHeader();
+    const authHeader = await this.getAuthorizationHeader();
 
     const config: RequestInit = {
       headers: {
@@ -1061,37 +1790,37 @@ class ApiClient {
   }
 
   // Carrier management methods
-  async getCarriers(accountCode?: string): Promise<ApiResponse> {
+  async getCarriers(accountCode?: string): Promise<ApiResponse<CarrierList>> {
     const url = accountCode
       ? `/shipway/carriers/local?account_code=${encodeURIComponent(accountCode)}`
       : '/shipway/carriers/local'
-    return this.makeRequest(url)
+    return this.makeRequest(url, {}, CarrierListSchema)
   }
 
-  async syncCarriers(): Promise<ApiResponse> {
+  async syncCarriers(): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/shipway/carriers/sync', {
       method: 'POST'
     })
   }
 
-  async getCarrierStatus(): Promise<ApiResponse> {
+  async getCarrierStatus(): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/shipway/carriers/status')
   }
 
-  async updateCarrier(carrierId: string, updates: { carrier_id?: string; status?: string }): Promise<ApiResponse> {
+  async updateCarrier(carrierId: string, updates: { carrier_id?: string; status?: string }): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/shipway/carriers/${encodeURIComponent(carrierId)}`, {
       method: 'PUT',
       body: JSON.stringify(updates),
     })
   }
 
-  async deleteCarrier(carrierId: string): Promise<ApiResponse> {
+  async deleteCarrier(carrierId: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/shipway/carriers/${encodeURIComponent(carrierId)}`, {
       method: 'DELETE',
     })
   }
 
-  async moveCarrier(carrierId: string, direction: 'up' | 'down', accountCode: string): Promise<ApiResponse> {
+  async moveCarrier(carrierId: string, direction: 'up' | 'down', accountCode: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/shipway/carriers/${encodeURIComponent(carrierId)}/move`, {
       method: 'POST',
       body: JSON.stringify({ direction, account_code: accountCode }),
@@ -1100,7 +1829,7 @@ class ApiClient {
 
   async downloadCarriersCSV(): Promise<void> {
     try {
-      const authHeader = this.getAuthHeader();
+      const authHeader = await this.getAuthorizationHeader();
 
       const response = await fetch(`${API_BASE_URL}/shipway/carriers/download`, {
         method: 'GET',
@@ -1135,9 +1864,9 @@ class ApiClient {
     }
   }
 
-  async uploadCarrierPriorities(file: File): Promise<ApiResponse> {
+  async uploadCarrierPriorities(file: File): Promise<ApiResponse<unknown>> {
     try {
-      const authHeader = this.getAuthHeader();
+      const authHeader = await this.getAuthorizationHeader();
 
       const formData = new FormData();
       formData.append('csvFile', file, file.name); // Add filename explicitly
@@ -1184,24 +1913,24 @@ class ApiClient {
     }
   }
 
-  async getCarrierFormat(): Promise<ApiResponse> {
-    return this.makeRequest('/shipway/carrier-format')
+  async getCarrierFormat(): Promise<ApiResponse<CarrierFormat>> {
+    return this.makeRequest('/shipway/carrier-format', {}, CarrierFormatSchema)
   }
 
   // Store methods
-  async getStoresForFilter(): Promise<ApiResponse> {
-    return this.makeRequest('/stores/list-for-filter')
+  async getStoresForFilter(): Promise<ApiResponse<Store[]>> {
+    return this.makeRequest('/stores/list-for-filter', {}, z.array(StoreSchema))
   }
 
-  async getAllStores(): Promise<ApiResponse> {
-    return this.makeRequest('/stores')
+  async getAllStores(): Promise<ApiResponse<Store[]>> {
+    return this.makeRequest('/stores', {}, z.array(StoreSchema))
   }
 
-  async getStoreByCode(accountCode: string): Promise<ApiResponse> {
-    return this.makeRequest(`/stores/${accountCode}`)
+  async getStoreByCode(accountCode: string): Promise<ApiResponse<Store>> {
+    return this.makeRequest(`/stores/${accountCode}`, {}, StoreSchema)
   }
 
-  async getShippingPartners(): Promise<ApiResponse> {
+  async getShippingPartners(): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/stores/shipping-partners')
   }
 
@@ -1217,7 +1946,7 @@ class ApiClient {
       shopify_token: string
     }>
     status: 'active' | 'inactive'
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/stores', {
       method: 'POST',
       body: JSON.stringify(storeData)
@@ -1236,43 +1965,43 @@ class ApiClient {
       shopify_token: string
     }>
     status?: 'active' | 'inactive'
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/stores/${accountCode}`, {
       method: 'PUT',
       body: JSON.stringify(storeData)
     })
   }
 
-  async deleteStore(accountCode: string): Promise<ApiResponse> {
+  async deleteStore(accountCode: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/stores/${accountCode}`, {
       method: 'DELETE'
     })
   }
 
-  async toggleStoreStatus(accountCode: string): Promise<ApiResponse> {
+  async toggleStoreStatus(accountCode: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/stores/${accountCode}/toggle-status`, {
       method: 'PATCH'
     })
   }
 
   // Warehouse Mapping API methods (Superadmin only)
-  async getAllWhMappings(includeInactive: boolean = true): Promise<ApiResponse> {
-    return this.makeRequest(`/warehouse-mapping?includeInactive=${includeInactive}`);
+  async getAllWhMappings(includeInactive: boolean = true): Promise<ApiResponse<WhMapping[]>> {
+    return this.makeRequest(`/warehouse-mapping?includeInactive=${includeInactive}`, {}, z.array(WhMappingSchema));
   }
 
-  async getWhMappingVendors(): Promise<ApiResponse> {
-    return this.makeRequest('/warehouse-mapping/vendors');
+  async getWhMappingVendors(): Promise<ApiResponse<WhMappingVendor[]>> {
+    return this.makeRequest('/warehouse-mapping/vendors', {}, z.array(WhMappingVendorSchema));
   }
 
-  async getWhMappingStores(): Promise<ApiResponse> {
-    return this.makeRequest('/warehouse-mapping/stores');
+  async getWhMappingStores(): Promise<ApiResponse<Store[]>> {
+    return this.makeRequest('/warehouse-mapping/stores', {}, z.array(StoreSchema));
   }
 
-  async validateVendorWhId(vendor_wh_id: string, account_code: string): Promise<ApiResponse> {
+  async validateVendorWhId(vendor_wh_id: string, account_code: string): Promise<ApiResponse<WarehouseValidation>> {
     return this.makeRequest('/warehouse-mapping/validate', {
       method: 'POST',
       body: JSON.stringify({ vendor_wh_id, account_code })
-    });
+    }, WarehouseValidationSchema);
   }
 
   async createWhMapping(mappingData: {
@@ -1280,14 +2009,14 @@ class ApiClient {
     vendor_wh_id: string;
     account_code: string;
     return_warehouse_id?: string;
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/warehouse-mapping', {
       method: 'POST',
       body: JSON.stringify(mappingData)
     });
   }
 
-  async deleteWhMapping(id: number): Promise<ApiResponse> {
+  async deleteWhMapping(id: number): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/warehouse-mapping/${id}`, {
       method: 'DELETE'
     });
@@ -1296,39 +2025,38 @@ class ApiClient {
   async testStoreShipwayConnection(credentials: {
     username: string
     password: string
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<ConnectionTest>> {
     return this.makeRequest('/stores/test-shipway', {
       method: 'POST',
       body: JSON.stringify(credentials)
-    })
+    }, ConnectionTestSchema)
   }
 
   async testShopifyConnection(credentials: {
     shopify_store_url: string
     shopify_token: string
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<ConnectionTest>> {
     return this.makeRequest('/stores/test-shopify', {
       method: 'POST',
       body: JSON.stringify(credentials)
-    })
+    }, ConnectionTestSchema)
   }
 
   // Download label methods
-  async downloadLabel(orderId: string, format: string = 'thermal', runAsync: boolean = false): Promise<ApiResponse> {
-    // For vendor endpoints, use vendorToken instead of authHeader
-    const vendorToken = typeof window !== 'undefined' ? localStorage.getItem('vendorToken') : null;
+  async downloadLabel(orderId: string, format: string = 'thermal', runAsync: boolean = false): Promise<ApiResponse<LabelDownload | undefined>> {
+    const authHeader = await this.getAuthorizationHeader();
 
     console.log('🔍 DOWNLOAD LABEL API CLIENT DEBUG:');
     console.log('  - Order ID being sent:', orderId);
     console.log('  - Format being sent:', format);
     console.log('  - Async mode:', runAsync);
-    console.log('  - Vendor token:', vendorToken ? vendorToken.substring(0, 20) + '...' : 'null');
+    console.log('  - Session:', authHeader ? 'YES' : 'NO');
 
     const config: RequestInit = {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...(vendorToken && { 'Authorization': vendorToken }),
+        ...(authHeader && { 'Authorization': authHeader }),
       },
       body: JSON.stringify({ order_id: orderId, format: format, async: runAsync })
     }
@@ -1345,16 +2073,16 @@ class ApiClient {
         throw new Error(data.message || `HTTP error! status: ${response.status}`)
       }
 
-      return data
+      // Async mode only returns a taskId, the label payload arrives via task polling
+      return validateResponse('/orders/download-label', data, LabelDownloadSchema.optional())
     } catch (error) {
       console.error('Download label API request failed:', error)
       throw error
     }
   }
 
-  async bulkDownloadLabels(orderIds: string[], format: string = 'thermal', generateOnly: boolean = false, runAsync: boolean = false): Promise<Blob | ApiResponse> {
-    // For vendor endpoints, use vendorToken instead of authHeader
-    const vendorToken = typeof window !== 'undefined' ? localStorage.getItem('vendorToken') : null;
+  async bulkDownloadLabels(orderIds: string[], format: string = 'thermal', generateOnly: boolean = false, runAsync: boolean = false): Promise<Blob | ApiResponse<BulkLabelResult | undefined>> {
+    const authHeader = await this.getAuthorizationHeader();
 
     console.log('🔍 BULK DOWNLOAD LABELS API CLIENT DEBUG:');
     console.log('  - Order IDs count:', orderIds.length);
@@ -1364,7 +2092,7 @@ class ApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...(vendorToken && { 'Authorization': vendorToken }),
+        ...(authHeader && { 'Authorization': authHeader }),
       },
       body: JSON.stringify({ order_ids: orderIds, format: format, generate_only: generateOnly, async: runAsync })
     }
@@ -1380,14 +2108,14 @@ class ApiClient {
       // Async mode: backend returned taskId
       if (runAsync) {
         const data = await response.json();
-        return data as ApiResponse;
+        return data as ApiResponse<undefined>;
       }
 
       // If generate_only is true, return JSON response
       if (generateOnly) {
         const data = await response.json();
         console.log('✅ Bulk labels generated successfully (generate_only=true)');
-        return data as ApiResponse;
+        return validateResponse('/orders/bulk-download-labels', data, BulkLabelResultSchema);
       }
 
       // Get the blob from the response
@@ -1409,9 +2137,8 @@ class ApiClient {
     }
   }
 
-  async bulkDownloadLabelsMerge(orderIds: string[], format: string = 'thermal', runAsync: boolean = false): Promise<Blob | ApiResponse> {
-    // For vendor endpoints, use vendorToken instead of authHeader
-    const vendorToken = typeof window !== 'undefined' ? localStorage.getItem('vendorToken') : null;
+  async bulkDownloadLabelsMerge(orderIds: string[], format: string = 'thermal', runAsync: boolean = false): Promise<Blob | ApiResponse<TaskAccepted | undefined>> {
+    const authHeader = await this.getAuthorizationHeader();
 
     console.log('🔍 BULK DOWNLOAD LABELS MERGE API CLIENT DEBUG:');
     console.log('  - Order IDs count:', orderIds.length, '| Format:', format, '| Async:', runAsync);
@@ -1420,7 +2147,7 @@ class ApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...(vendorToken && { 'Authorization': vendorToken }),
+        ...(authHeader && { 'Authorization': authHeader }),
       },
       body: JSON.stringify({ order_ids: orderIds, format: format, async: runAsync })
     }
@@ -1436,7 +2163,7 @@ class ApiClient {
       // Async mode: backend returned taskId
       if (runAsync) {
         const data = await response.json();
-        return data as ApiResponse;
+        return data as ApiResponse<undefined>;
       }
 
       // Get the blob from the response
@@ -1454,17 +2181,16 @@ class ApiClient {
     console.log('  - Shipping URL:', shippingUrl);
 
     // Use backend proxy to avoid CORS issues (same as before migration)
-    const vendorToken = typeof window !== 'undefined' ? localStorage.getItem('vendorToken') : null;
+    const authHeader = await this.getAuthorizationHeader();
 
     console.log('🔍 FRONTEND TOKEN DEBUG:');
-    console.log('  - vendorToken exists:', vendorToken ? 'YES' : 'NO');
-    console.log('  - vendorToken value:', vendorToken ? vendorToken.substring(0, 20) + '...' : 'null');
+    console.log('  - Session:', authHeader ? 'YES' : 'NO');
 
     const config: RequestInit = {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...(vendorToken && { 'Authorization': vendorToken }),
+        ...(authHeader && { 'Authorization': authHeader }),
       },
       body: JSON.stringify({ pdfUrl: shippingUrl })
     }
@@ -1505,13 +2231,72 @@ class ApiClient {
     }
   }
 
+  async getLabelHistory(orderId: string, signal?: AbortSignal): Promise<ApiResponse<LabelHistory>> {
+    console.log('🏷️ API CLIENT: getLabelHistory called for', orderId);
+
+    await this.requireSession('/orders/label-history', signal)
+
+    return this.makeRequest(`/orders/label-history?order_id=${encodeURIComponent(orderId)}`, {
+      method: 'GET',
+      signal,
+    }, LabelHistorySchema, {
+      ttlMs: NETWORK_CONFIG.ORDERS_CACHE_TTL_MS,
+      tags: ['label-history'],
+    })
+  }
+
+  /**
+   * Record that labels were downloaded. The backend stamps the user and time and keeps the
+   * generated shipping_url so the label can be reprinted later without regenerating it.
+   * Merged downloads pass each order's URL in `shipping_urls` (order_id -> url).
+   */
+  async recordLabelDownload(order_ids: string[], details: {
+    format: string
+    merged: boolean
+    source: 'single' | 'bulk' | 'reprint'
+    shipping_url?: string
+    shipping_urls?: Record<string, string>
+  }): Promise<ApiResponse<unknown>> {
+    console.log('🏷️ API CLIENT: recordLabelDownload called');
+    console.log('  - order_ids:', order_ids);
+    console.log('  - details:', details);
+
+    await this.requireSession('/orders/label-history')
+
+    try {
+      return await this.makeRequest('/orders/label-history', {
+        method: 'POST',
+        body: JSON.stringify({ order_ids, ...details }),
+      })
+    } finally {
+      this.invalidateCache('label-history')
+    }
+  }
+
+  /**
+   * Full lifecycle of an order, oldest first: creation, claim / assignment, labels, manifest,
+   * handover, shipment status changes, RTO, reversals and settlement inclusion.
+   * Vendors only get orders they hold or acted on; admins get any order.
+   */
+  async getOrderTimeline(orderId: string, signal?: AbortSignal): Promise<ApiResponse<OrderTimeline>> {
+    console.log('🕒 API CLIENT: getOrderTimeline called for', orderId);
+
+    const path = `/orders/${encodeURIComponent(orderId)}/timeline`
+    await this.requireSession(path, signal)
+
+    return this.makeRequest(path, {
+      method: 'GET',
+      signal,
+    }, OrderTimelineSchema)
+  }
+
   /**
    * Android-only download helper.
    * Converts a blob URL to base64, registers it on the backend for one-time download,
    * and returns the full GET URL the Android browser can navigate to.
    */
   async prepareAndroidDownload(blobUrl: string, filename: string): Promise<string> {
-    const vendorToken = typeof window !== 'undefined' ? localStorage.getItem('vendorToken') : null;
+    const authHeader = await this.getAuthorizationHeader();
 
     // Read the blob URL back into an ArrayBuffer, then base64-encode it
     const blobResponse = await fetch(blobUrl);
@@ -1524,7 +2309,7 @@ class ApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...(vendorToken && { 'Authorization': vendorToken }),
+        ...(authHeader && { 'Authorization': authHeader }),
       },
       body: JSON.stringify({ pdf_base64, filename }),
     });
@@ -1557,7 +2342,7 @@ class ApiClient {
     start_date?: string
     end_date?: string
     search?: string
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<NotificationList>> {
     const queryParams = new URLSearchParams()
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -1567,14 +2352,14 @@ class ApiClient {
       })
     }
     const queryString = queryParams.toString()
-    return this.makeRequest(`/notifications${queryString ? `?${queryString}` : ''}`)
+    return this.makeRequest(`/notifications${queryString ? `?${queryString}` : ''}`, {}, NotificationListSchema)
   }
 
   /**
    * Get notification by ID
    */
-  async getNotificationById(id: number): Promise<ApiResponse> {
-    return this.makeRequest(`/notifications/${id}`)
+  async getNotificationById(id: number): Promise<ApiResponse<Notification>> {
+    return this.makeRequest(`/notifications/${id}`, {}, NotificationSchema)
   }
 
   /**
@@ -1591,7 +2376,7 @@ class ApiClient {
     vendor_warehouse_id?: string
     metadata?: any
     error_details?: string
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/notifications', {
       method: 'POST',
       body: JSON.stringify(data)
@@ -1601,7 +2386,7 @@ class ApiClient {
   /**
    * Update notification status
    */
-  async updateNotificationStatus(id: number, status: string): Promise<ApiResponse> {
+  async updateNotificationStatus(id: number, status: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/notifications/${id}/status`, {
       method: 'PATCH',
       body: JSON.stringify({ status })
@@ -1611,7 +2396,7 @@ class ApiClient {
   /**
    * Resolve notification
    */
-  async resolveNotification(id: number, resolution_notes?: string): Promise<ApiResponse> {
+  async resolveNotification(id: number, resolution_notes?: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/notifications/${id}/resolve`, {
       method: 'POST',
       body: JSON.stringify({ resolution_notes })
@@ -1621,7 +2406,7 @@ class ApiClient {
   /**
    * Dismiss notification
    */
-  async dismissNotification(id: number, dismiss_reason?: string): Promise<ApiResponse> {
+  async dismissNotification(id: number, dismiss_reason?: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/notifications/${id}/dismiss`, {
       method: 'POST',
       body: JSON.stringify({ dismiss_reason })
@@ -1631,7 +2416,7 @@ class ApiClient {
   /**
    * Bulk resolve notifications
    */
-  async bulkResolveNotifications(notification_ids: number[], resolution_notes?: string): Promise<ApiResponse> {
+  async bulkResolveNotifications(notification_ids: number[], resolution_notes?: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/notifications/bulk-resolve', {
       method: 'POST',
       body: JSON.stringify({ notification_ids, resolution_notes })
@@ -1641,7 +2426,7 @@ class ApiClient {
   /**
    * Delete notification
    */
-  async deleteNotification(id: number): Promise<ApiResponse> {
+  async deleteNotification(id: number): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/notifications/${id}`, {
       method: 'DELETE'
     })
@@ -1650,8 +2435,8 @@ class ApiClient {
   /**
    * Get notification statistics
    */
-  async getNotificationStats(): Promise<ApiResponse> {
-    return this.makeRequest('/notifications/stats')
+  async getNotificationStats(): Promise<ApiResponse<NotificationStats>> {
+    return this.makeRequest('/notifications/stats', {}, NotificationStatsSchema)
   }
 
   // ==================== PUSH NOTIFICATION METHODS ====================
@@ -1659,22 +2444,25 @@ class ApiClient {
   /**
    * Get VAPID public key
    */
-  async getVapidKey(): Promise<ApiResponse> {
-    return this.makeRequest('/public/vapid-key')
+  async getVapidKey(): Promise<ApiResponse<VapidKey>> {
+    return this.makeRequest('/public/vapid-key', {}, VapidKeySchema)
   }
 
   /**
    * Get shipment status mapping for badge colors and display names
    * This is a public endpoint that doesn't require authentication
    */
-  async getShipmentStatusMapping(): Promise<ApiResponse> {
-    return this.makeRequest('/public/shipment-status-mapping')
+  async getShipmentStatusMapping(): Promise<ApiResponse<ShipmentStatusMapping[]>> {
+    return this.makeRequest('/public/shipment-status-mapping', {}, z.array(ShipmentStatusMappingSchema), {
+      ttlMs: NETWORK_CONFIG.STATIC_CACHE_TTL_MS,
+      tags: ['status-mapping'],
+    })
   }
 
   /**
    * Subscribe to push notifications
    */
-  async subscribeToPushNotifications(subscription: any): Promise<ApiResponse> {
+  async subscribeToPushNotifications(subscription: any): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/notifications/subscribe', {
       method: 'POST',
       body: JSON.stringify({ subscription })
@@ -1684,7 +2472,7 @@ class ApiClient {
   /**
    * Unsubscribe from push notifications
    */
-  async unsubscribeFromPushNotifications(): Promise<ApiResponse> {
+  async unsubscribeFromPushNotifications(): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/notifications/unsubscribe', {
       method: 'POST'
     })
@@ -1693,14 +2481,14 @@ class ApiClient {
   /**
    * Get push subscription status
    */
-  async getPushNotificationStatus(): Promise<ApiResponse> {
-    return this.makeRequest('/notifications/push-status')
+  async getPushNotificationStatus(): Promise<ApiResponse<PushStatus>> {
+    return this.makeRequest('/notifications/push-status', {}, PushStatusSchema)
   }
 
   /**
    * Update push notification preference
    */
-  async updatePushNotificationPreference(enabled: boolean): Promise<ApiResponse> {
+  async updatePushNotificationPreference(enabled: boolean): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/notifications/push-preference', {
       method: 'PATCH',
       body: JSON.stringify({ enabled })
@@ -1717,7 +2505,7 @@ class ApiClient {
     dateFrom?: string,
     dateTo?: string,
     store?: string | string[]
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<AnalyticsOverview>> {
     const params = new URLSearchParams()
     if (filters?.vendorId) {
       if (Array.isArray(filters.vendorId)) {
@@ -1736,7 +2524,7 @@ class ApiClient {
       }
     }
 
-    return this.makeRequest(`/analytics/admin/overview?${params.toString()}`)
+    return this.makeRequest(`/analytics/admin/overview?${params.toString()}`, {}, AnalyticsOverviewSchema)
   }
 
   /**
@@ -1747,7 +2535,7 @@ class ApiClient {
     dateFrom?: string,
     dateTo?: string,
     store?: string | string[]
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<AnalyticsOverview>> {
     const params = new URLSearchParams()
     if (filters?.vendorId) {
       if (Array.isArray(filters.vendorId)) {
@@ -1771,7 +2559,7 @@ class ApiClient {
       ? `/analytics/vendor/${filters.vendorId}?${params.toString()}`
       : `/analytics/vendor?${params.toString()}`;
 
-    return this.makeRequest(endpoint)
+    return this.makeRequest(endpoint, {}, AnalyticsOverviewSchema)
   }
 
   // ==================== RTO FOCUS METHODS ====================
@@ -1780,20 +2568,20 @@ class ApiClient {
    * Get RTO focus orders (is_focus = 1, instance_number = 1)
    * These are orders that need attention (RTO Initiated > 7 days and not delivered)
    */
-  async getRTOFocusOrders(accountCode?: string): Promise<ApiResponse> {
+  async getRTOFocusOrders(accountCode?: string): Promise<ApiResponse<RTOFocusOrderList>> {
     const queryParams = accountCode ? `?account_code=${encodeURIComponent(accountCode)}` : '';
-    return this.makeRequest(`/admin/inventory/rto-focus${queryParams}`)
+    return this.makeRequest(`/admin/inventory/rto-focus${queryParams}`, {}, RTOFocusOrderListSchema)
   }
 
   /**
    * Update RTO focus orders status (batch update)
    * Updates order_status and sets is_focus = 0
    */
-  async updateRTOFocusStatus(orderIds: string[], newStatus: string, accountCode?: string): Promise<ApiResponse> {
+  async updateRTOFocusStatus(orderIds: string[], newStatus: string, accountCode?: string): Promise<ApiResponse<RTOStatusUpdate>> {
     return this.makeRequest('/admin/inventory/rto-focus/status', {
       method: 'PUT',
       body: JSON.stringify({ orderIds, newStatus, accountCode })
-    })
+    }, RTOStatusUpdateSchema)
   }
 
   // ==================== CRITICAL ORDERS METHODS ====================
@@ -1802,9 +2590,9 @@ class ApiClient {
    * Get critical orders (claims.is_critical = 1)
    * These are orders that need urgent attention
    */
-  async getCriticalOrders(accountCode?: string): Promise<ApiResponse> {
+  async getCriticalOrders(accountCode?: string): Promise<ApiResponse<CriticalOrderList>> {
     const queryParams = accountCode ? `?account_code=${encodeURIComponent(accountCode)}` : '';
-    return this.makeRequest(`/admin/inventory/critical-orders${queryParams}`)
+    return this.makeRequest(`/admin/inventory/critical-orders${queryParams}`, {}, CriticalOrderListSchema)
   }
 
   // ==================== RTO MANUAL ENTRY METHODS ====================
@@ -1812,21 +2600,21 @@ class ApiClient {
   /**
    * Get distinct RTO warehouse locations for dropdown
    */
-  async getRTOLocations(): Promise<ApiResponse> {
-    return this.makeRequest('/admin/inventory/rto-locations')
+  async getRTOLocations(): Promise<ApiResponse<RTOLocationList>> {
+    return this.makeRequest('/admin/inventory/rto-locations', {}, RTOLocationListSchema)
   }
 
   /**
    * Get products for RTO dropdown
    */
-  async getRTOProducts(): Promise<ApiResponse> {
-    return this.makeRequest('/admin/inventory/rto-products')
+  async getRTOProducts(): Promise<ApiResponse<RTOProductList>> {
+    return this.makeRequest('/admin/inventory/rto-products', {}, RTOProductListSchema)
   }
 
   /**
    * Get sizes for a specific product
    */
-  async getRTOSizesForProduct(skuId: string): Promise<ApiResponse> {
+  async getRTOSizesForProduct(skuId: string): Promise<ApiResponse<unknown>> {
     return this.makeRequest(`/admin/inventory/rto-sizes/${encodeURIComponent(skuId)}`)
   }
 
@@ -1839,7 +2627,7 @@ class ApiClient {
     sku_id: string
     size: string
     quantity: number
-  }): Promise<ApiResponse> {
+  }): Promise<ApiResponse<unknown>> {
     return this.makeRequest('/admin/inventory/rto-manual', {
       method: 'POST',
       body: JSON.stringify(data)
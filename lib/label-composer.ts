@@ -0,0 +1,146 @@
+/**
+ * Label Composer
+ * Builds the bulk label PDF in the browser from the individual carrier label PDFs
+ * (`apiClient.downloadLabelFile`): merges them and lays them out on thermal 4x6 or A4 pages,
+ * optionally stamping the order id / SKUs under each label. Composing never fetches, so a
+ * caller that keeps the label blobs can switch layouts without going back to the carrier.
+ */
+
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+
+export type LabelLayout = 'thermal' | 'a4' | 'a4-4up' | 'a4-6up';
+
+export interface LabelLayoutOption {
+  value: LabelLayout;
+  label: string;
+  description: string;
+  // Label format name recorded in the label history
+  format: string;
+}
+
+export const LABEL_LAYOUTS: LabelLayoutOption[] = [
+  { value: 'thermal', label: 'Thermal 4x6', description: 'One label per 4x6 page, for thermal printers', format: 'thermal' },
+  { value: 'a4', label: 'A4', description: 'One label per A4 page', format: 'a4' },
+  { value: 'a4-4up', label: 'A4 4-up', description: '4 labels per A4 page (2 x 2)', format: 'four-in-one' },
+  { value: 'a4-6up', label: 'A4 6-up', description: '6 labels per A4 page (2 x 3)', format: 'six-in-one' },
+];
+
+export interface LabelSource {
+  orderId: string;
+  // Carrier label PDF - every page becomes one label
+  pdf: Blob | ArrayBuffer | Uint8Array;
+  // Text printed under the label when stamping (e.g. "#1234 | SKU-1, SKU-2")
+  stamp?: string;
+}
+
+export interface ComposeLabelsOptions {
+  layout: LabelLayout;
+  stamp?: boolean;
+}
+
+interface PageGrid {
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  margin: number;
+  gap: number;
+}
+
+// PDF points (1/72 inch)
+const THERMAL_SIZE: [number, number] = [288, 432];
+const A4_SIZE: [number, number] = [595.28, 841.89];
+
+const GRIDS: Record<LabelLayout, PageGrid> = {
+  thermal: { width: THERMAL_SIZE[0], height: THERMAL_SIZE[1], columns: 1, rows: 1, margin: 0, gap: 0 },
+  a4: { width: A4_SIZE[0], height: A4_SIZE[1], columns: 1, rows: 1, margin: 36, gap: 0 },
+  'a4-4up': { width: A4_SIZE[0], height: A4_SIZE[1], columns: 2, rows: 2, margin: 18, gap: 12 },
+  'a4-6up': { width: A4_SIZE[0], height: A4_SIZE[1], columns: 2, rows: 3, margin: 18, gap: 10 },
+};
+
+const STAMP_FONT_SIZE = 8;
+const STAMP_HEIGHT = 14;
+
+async function toBytes(pdf: LabelSource['pdf']): Promise<Uint8Array> {
+  if (pdf instanceof Uint8Array) return pdf;
+  if (pdf instanceof ArrayBuffer) return new Uint8Array(pdf);
+  return new Uint8Array(await pdf.arrayBuffer());
+}
+
+// Standard fonts are WinAnsi only - replace anything else and cut the text to the cell width
+function fitStampText(text: string, font: PDFFont, maxWidth: number): string {
+  let fitted = text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+  if (font.widthOfTextAtSize(fitted, STAMP_FONT_SIZE) <= maxWidth) return fitted;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, STAMP_FONT_SIZE) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+function drawStamp(page: PDFPage, font: PDFFont, text: string, x: number, y: number, width: number) {
+  const fitted = fitStampText(text, font, width - 8);
+  page.drawRectangle({ x, y, width, height: STAMP_HEIGHT, color: rgb(1, 1, 1) });
+  page.drawText(fitted, {
+    x: x + (width - font.widthOfTextAtSize(fitted, STAMP_FONT_SIZE)) / 2,
+    y: y + (STAMP_HEIGHT - STAMP_FONT_SIZE) / 2 + 1,
+    size: STAMP_FONT_SIZE,
+    font,
+    color: rgb(0, 0, 0),
+  });
+}
+
+/**
+ * Merge label PDFs into one document in the given layout. Labels keep their aspect ratio and
+ * are centred in their cell; a stamp strip is reserved under each label when `stamp` is set.
+ */
+export async function composeLabels(sources: LabelSource[], options: ComposeLabelsOptions): Promise<Blob> {
+  const grid = GRIDS[options.layout];
+  const output = await PDFDocument.create();
+  const font = await output.embedFont(StandardFonts.Helvetica);
+
+  const cellWidth = (grid.width - grid.margin * 2 - grid.gap * (grid.columns - 1)) / grid.columns;
+  const cellHeight = (grid.height - grid.margin * 2 - grid.gap * (grid.rows - 1)) / grid.rows;
+  const perPage = grid.columns * grid.rows;
+
+  let page: PDFPage | null = null;
+  let cell = 0;
+
+  for (const source of sources) {
+    const label = await PDFDocument.load(await toBytes(source.pdf), { ignoreEncryption: true });
+    const embedded = await output.embedPdf(label, label.getPageIndices());
+
+    for (const labelPage of embedded) {
+      if (!page || cell === perPage) {
+        page = output.addPage([grid.width, grid.height]);
+        cell = 0;
+      }
+
+      const column = cell % grid.columns;
+      const row = Math.floor(cell / grid.columns);
+      const cellX = grid.margin + column * (cellWidth + grid.gap);
+      // PDF y runs bottom-up; fill rows from the top of the page
+      const cellY = grid.height - grid.margin - (row + 1) * cellHeight - row * grid.gap;
+
+      const stampText = options.stamp ? source.stamp || source.orderId : '';
+      const labelArea = stampText ? cellHeight - STAMP_HEIGHT : cellHeight;
+      const scale = Math.min(cellWidth / labelPage.width, labelArea / labelPage.height);
+      const width = labelPage.width * scale;
+      const height = labelPage.height * scale;
+
+      page.drawPage(labelPage, {
+        x: cellX + (cellWidth - width) / 2,
+        y: cellY + (stampText ? STAMP_HEIGHT : 0) + (labelArea - height) / 2,
+        width,
+        height,
+      });
+      if (stampText) {
+        drawStamp(page, font, stampText, cellX, cellY, cellWidth);
+      }
+      cell++;
+    }
+  }
+
+  const bytes = await output.save();
+  return new Blob([bytes as BlobPart], { type: 'application/pdf' });
+}
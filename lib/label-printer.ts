@@ -0,0 +1,359 @@
+/**
+ * Label Printer
+ * Sends shipping labels straight to a thermal printer instead of downloading a PDF.
+ * The label PDF is rendered in the browser (pdf.js), converted to a 1-bit image and
+ * encoded as raw ZPL (Zebra and compatibles) or ESC/POS (most generic thermal printers),
+ * then sent either to a local print bridge over HTTP (which forwards to a network
+ * printer on port 9100) or to a USB printer via WebUSB.
+ *
+ * Settings belong to the device the printer is attached to, so they are stored in
+ * localStorage without a user id.
+ */
+
+export type PrinterLanguage = 'zpl' | 'escpos';
+export type PrinterTransport = 'bridge' | 'webusb';
+
+export interface UsbPrinterInfo {
+  vendorId: number;
+  productId: number;
+  name: string;
+}
+
+export interface PrinterSettings {
+  enabled: boolean;
+  language: PrinterLanguage;
+  transport: PrinterTransport;
+  // Local print bridge, e.g. http://localhost:9101
+  bridgeUrl: string;
+  // Network printer the bridge forwards to
+  printerHost: string;
+  printerPort: number;
+  usbPrinter: UsbPrinterInfo | null;
+  dpi: 203 | 300;
+  // Printable width of the label roll (4 inch labels = 101.6mm)
+  labelWidthMm: number;
+}
+
+export const DEFAULT_PRINTER_SETTINGS: PrinterSettings = {
+  enabled: false,
+  language: 'zpl',
+  transport: 'bridge',
+  bridgeUrl: 'http://localhost:9101',
+  printerHost: '',
+  printerPort: 9100,
+  usbPrinter: null,
+  dpi: 203,
+  labelWidthMm: 101.6,
+};
+
+export class PrinterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrinterError';
+  }
+}
+
+const SETTINGS_STORAGE_KEY = 'label_printer_settings';
+const BRIDGE_TIMEOUT_MS = 15000;
+// Rows per ESC/POS raster command - small printers have small receive buffers
+const ESCPOS_BAND_ROWS = 256;
+
+// 1-bit image, rows padded to whole bytes, bit set = black dot
+interface MonoBitmap {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
+// Minimal WebUSB surface (the DOM lib doesn't ship these types)
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+}
+
+interface UsbDevice {
+  vendorId: number;
+  productId: number;
+  productName?: string;
+  manufacturerName?: string;
+  opened: boolean;
+  configuration: { interfaces: { interfaceNumber: number; alternate: { endpoints: UsbEndpoint[] } }[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: BufferSource): Promise<{ status: string }>;
+}
+
+interface Usb {
+  getDevices(): Promise<UsbDevice[]>;
+  requestDevice(options: { filters: { vendorId?: number }[] }): Promise<UsbDevice>;
+}
+
+const getUsb = (): Usb | undefined =>
+  typeof navigator !== 'undefined' ? (navigator as Navigator & { usb?: Usb }).usb : undefined;
+
+function toBitmap(canvas: HTMLCanvasElement): MonoBitmap {
+  const context = canvas.getContext('2d')!;
+  const { width, height } = canvas;
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      // Transparent pixels count as paper
+      const luminance = (pixels[offset] * 299 + pixels[offset + 1] * 587 + pixels[offset + 2] * 114) / 1000;
+      if (pixels[offset + 3] > 127 && luminance < 128) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return { width, height, bytesPerRow, data };
+}
+
+function encodeZpl(bitmap: MonoBitmap): Uint8Array {
+  let hex = '';
+  for (let i = 0; i < bitmap.data.length; i++) {
+    hex += bitmap.data[i].toString(16).padStart(2, '0');
+  }
+  const total = bitmap.data.length;
+  const zpl = `^XA^PW${bitmap.width}^LL${bitmap.height}^FO0,0^GFA,${total},${total},${bitmap.bytesPerRow},${hex.toUpperCase()}^FS^XZ\n`;
+  return new TextEncoder().encode(zpl);
+}
+
+function encodeEscPos(bitmap: MonoBitmap): Uint8Array {
+  const chunks: number[][] = [[0x1b, 0x40]]; // ESC @ - reset
+
+  for (let top = 0; top < bitmap.height; top += ESCPOS_BAND_ROWS) {
+    const rows = Math.min(ESCPOS_BAND_ROWS, bitmap.height - top);
+    // GS v 0 - raster bit image, normal density
+    chunks.push([0x1d, 0x76, 0x30, 0x00, bitmap.bytesPerRow & 0xff, bitmap.bytesPerRow >> 8, rows & 0xff, rows >> 8]);
+    chunks.push(Array.from(bitmap.data.subarray(top * bitmap.bytesPerRow, (top + rows) * bitmap.bytesPerRow)));
+  }
+  // Feed past the tear bar, then a partial cut (ignored by printers without a cutter)
+  chunks.push([0x1b, 0x64, 0x04, 0x1d, 0x56, 0x42, 0x00]);
+
+  const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const output = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+async function renderPdfPages(pdf: Blob, widthDots: number): Promise<HTMLCanvasElement[]> {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+
+  const pdfDocument = await pdfjs.getDocument({ data: new Uint8Array(await pdf.arrayBuffer()) }).promise;
+  const canvases: HTMLCanvasElement[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: widthDots / unscaled.width });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const context = canvas.getContext('2d')!;
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context, viewport }).promise;
+      canvases.push(canvas);
+    }
+  } finally {
+    pdfDocument.destroy();
+  }
+  return canvases;
+}
+
+function renderTestLabel(widthDots: number, settings: PrinterSettings): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = widthDots;
+  canvas.height = Math.round(widthDots * 0.75);
+  const context = canvas.getContext('2d')!;
+  const unit = widthDots / 40;
+
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.strokeStyle = '#000';
+  context.lineWidth = Math.max(2, Math.round(unit / 3));
+  context.strokeRect(unit, unit, canvas.width - unit * 2, canvas.height - unit * 2);
+
+  context.fillStyle = '#000';
+  context.font = `bold ${Math.round(unit * 3)}px sans-serif`;
+  context.fillText('CLAIMIO TEST PRINT', unit * 2.5, unit * 6);
+  context.font = `${Math.round(unit * 1.8)}px sans-serif`;
+  [
+    new Date().toLocaleString(),
+    `${settings.language.toUpperCase()} via ${settings.transport === 'webusb' ? 'USB' : 'print bridge'}`,
+    `${settings.dpi} dpi, ${settings.labelWidthMm} mm (${widthDots} dots)`,
+  ].forEach((line, index) => context.fillText(line, unit * 2.5, unit * (10 + index * 3)));
+
+  // Alignment ruler along the bottom edge
+  for (let x = unit * 2; x < canvas.width - unit * 2; x += unit) {
+    context.fillRect(x, canvas.height - unit * 4, 2, (x / unit) % 5 < 1 ? unit * 1.5 : unit * 0.8);
+  }
+  return canvas;
+}
+
+class LabelPrinter {
+  getSettings(): PrinterSettings {
+    if (typeof window === 'undefined') return { ...DEFAULT_PRINTER_SETTINGS };
+    try {
+      const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return { ...DEFAULT_PRINTER_SETTINGS, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (error) {
+      console.error('Error reading printer settings:', error);
+      return { ...DEFAULT_PRINTER_SETTINGS };
+    }
+  }
+
+  saveSettings(settings: PrinterSettings): void {
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving printer settings:', error);
+    }
+  }
+
+  /**
+   * Whether labels should go to the printer - turned on and pointing at a printer
+   */
+  isEnabled(settings: PrinterSettings = this.getSettings()): boolean {
+    if (!settings.enabled) return false;
+    return settings.transport === 'webusb' ? settings.usbPrinter !== null && this.isWebUsbSupported() : Boolean(settings.bridgeUrl && settings.printerHost);
+  }
+
+  /**
+   * Short printer name for buttons and toasts
+   */
+  describe(settings: PrinterSettings = this.getSettings()): string {
+    if (settings.transport === 'webusb') return settings.usbPrinter?.name || 'USB printer';
+    return `${settings.printerHost}:${settings.printerPort}`;
+  }
+
+  isWebUsbSupported(): boolean {
+    return getUsb() !== undefined;
+  }
+
+  /**
+   * Ask the user to pick a USB printer (must run inside a click handler)
+   */
+  async pairUsbPrinter(): Promise<UsbPrinterInfo> {
+    const usb = getUsb();
+    if (!usb) throw new PrinterError('This browser does not support USB printers - use Chrome or Edge, or the print bridge');
+
+    const device = await usb.requestDevice({ filters: [] });
+    return {
+      vendorId: device.vendorId,
+      productId: device.productId,
+      name: [device.manufacturerName, device.productName].filter(Boolean).join(' ') || `USB ${device.vendorId}:${device.productId}`,
+    };
+  }
+
+  /**
+   * Print every page of a label PDF as one label. Returns the number of labels sent.
+   */
+  async printPdf(pdf: Blob, settings: PrinterSettings = this.getSettings()): Promise<number> {
+    console.log('🖨️ Printing label PDF:', pdf.size, 'bytes via', settings.transport, settings.language);
+    const canvases = await renderPdfPages(pdf, this.getWidthDots(settings));
+    await this.send(canvases.map((canvas) => this.encode(toBitmap(canvas), settings)), settings);
+    console.log(`✅ Sent ${canvases.length} label(s) to the printer`);
+    return canvases.length;
+  }
+
+  async printTestPage(settings: PrinterSettings = this.getSettings()): Promise<void> {
+    const canvas = renderTestLabel(this.getWidthDots(settings), settings);
+    await this.send([this.encode(toBitmap(canvas), settings)], settings);
+  }
+
+  private getWidthDots(settings: PrinterSettings): number {
+    // Whole bytes per row keep ZPL ^GF and ESC/POS raster widths exact
+    return Math.floor(((settings.labelWidthMm / 25.4) * settings.dpi) / 8) * 8;
+  }
+
+  private encode(bitmap: MonoBitmap, settings: PrinterSettings): Uint8Array {
+    return settings.language === 'zpl' ? encodeZpl(bitmap) : encodeEscPos(bitmap);
+  }
+
+  private async send(jobs: Uint8Array[], settings: PrinterSettings): Promise<void> {
+    if (settings.transport === 'webusb') {
+      await this.sendUsb(jobs, settings);
+    } else {
+      for (const job of jobs) {
+        await this.sendBridge(job, settings);
+      }
+    }
+  }
+
+  private async sendBridge(job: Uint8Array, settings: PrinterSettings): Promise<void> {
+    if (!settings.printerHost) throw new PrinterError('Set the printer address in printer settings');
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), BRIDGE_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${settings.bridgeUrl.replace(/\/+$/, '')}/print`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Printer-Host': settings.printerHost,
+          'X-Printer-Port': String(settings.printerPort),
+        },
+        body: job as BodyInit,
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const message = await response.text().catch(() => '');
+        throw new PrinterError(message || `Print bridge returned ${response.status}`);
+      }
+    } catch (error) {
+      if (error instanceof PrinterError) throw error;
+      throw new PrinterError(`Print bridge not reachable at ${settings.bridgeUrl} - is it running?`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async sendUsb(jobs: Uint8Array[], settings: PrinterSettings): Promise<void> {
+    const usb = getUsb();
+    if (!usb) throw new PrinterError('This browser does not support USB printers');
+    const paired = settings.usbPrinter;
+    if (!paired) throw new PrinterError('Pair a USB printer in printer settings');
+
+    // Devices the user already granted access to - no prompt outside a click handler
+    const device = (await usb.getDevices()).find((candidate) => candidate.vendorId === paired.vendorId && candidate.productId === paired.productId);
+    if (!device) throw new PrinterError(`${paired.name} is not connected`);
+
+    if (!device.opened) await device.open();
+    if (!device.configuration) await device.selectConfiguration(1);
+
+    const printerInterface = device.configuration?.interfaces.find((candidate) =>
+      candidate.alternate.endpoints.some((endpoint) => endpoint.direction === 'out')
+    );
+    const endpoint = printerInterface?.alternate.endpoints.find((candidate) => candidate.direction === 'out');
+    if (!printerInterface || !endpoint) throw new PrinterError(`${paired.name} has no output endpoint`);
+
+    await device.claimInterface(printerInterface.interfaceNumber);
+    try {
+      for (const job of jobs) {
+        const result = await device.transferOut(endpoint.endpointNumber, job as BufferSource);
+        if (result.status !== 'ok') throw new PrinterError(`USB transfer failed (${result.status})`);
+      }
+    } finally {
+      await device.releaseInterface(printerInterface.interfaceNumber).catch(() => {});
+    }
+  }
+}
+
+// Export singleton instance
+export const labelPrinter = new LabelPrinter();
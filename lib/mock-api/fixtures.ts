@@ -0,0 +1,585 @@
+/**
+ * Mock API Fixtures
+ * Seed data for the local mock backend (see ./handlers and MOCK_BACKEND.md).
+ * Generated from a fixed seed so every restart shows the same orders.
+ */
+
+export interface MockUser {
+  id: string;
+  name: string;
+  email: string;
+  password: string;
+  role: 'vendor' | 'admin' | 'superadmin';
+  status: 'active' | 'inactive';
+  phone?: string;
+  warehouseId?: string;
+  contactNumber?: string;
+  address?: string;
+  city?: string;
+  pincode?: string;
+  createdAt: string;
+}
+
+export interface MockStore {
+  id: number;
+  account_code: string;
+  store_name: string;
+  status: 'active' | 'inactive';
+  username: string;
+  shipping_partner: string;
+  last_synced_at: string;
+  shopify_brands: { id: number; brand_name: string; store_code: string; shopify_store_url: string }[];
+}
+
+export interface MockOrder {
+  unique_id: string;
+  order_id: string;
+  account_code: string;
+  store_name: string;
+  store_status: string;
+  product_name: string;
+  product_code: string;
+  size: string;
+  quantity: number;
+  value: number;
+  order_date: string;
+  created_at: string;
+  customer_name: string;
+  payment_type: 'prepaid' | 'cod';
+  product_image: string;
+  image: string;
+  // Claim lifecycle: unclaimed -> claimed -> ready_for_handover (manifested) -> handover
+  claims_status: 'unclaimed' | 'claimed' | 'ready_for_handover' | 'handover';
+  claimed_by: string | null;
+  claimed_at: string | null;
+  vendor_name: string | null;
+  label_downloaded: 0 | 1;
+  is_manifest: 0 | 1;
+  manifest_id: string | null;
+  is_handover: 0 | 1;
+  is_critical: 0 | 1;
+  awb: string | null;
+  carrier_name: string | null;
+  current_shipment_status: string | null;
+}
+
+export interface MockCarrier {
+  carrier_id: string;
+  carrier_name: string;
+  account_code: string;
+  store_name: string;
+  status: 'active' | 'inactive';
+  priority: number;
+  weight_in_kg: number;
+}
+
+export interface MockWhMapping {
+  id: number;
+  claimio_wh_id: string;
+  vendor_wh_id: string;
+  account_code: string;
+  return_warehouse_id: string;
+  is_active: 0 | 1;
+}
+
+export interface MockPayoutMethod {
+  id: string;
+  vendorId: string;
+  type: 'upi' | 'bank';
+  upiId: string | null;
+  accountHolderName: string | null;
+  accountNumber: string | null;
+  ifsc: string | null;
+  bankName: string | null;
+  verificationStatus: 'pending' | 'verified' | 'failed';
+  // Name the bank / UPI app returned for the account when it was verified
+  verifiedName: string | null;
+  verifiedAt: string | null;
+  failureReason: string | null;
+  isDefault: boolean;
+  createdAt: string;
+}
+
+// Payout method as it was when a settlement was requested, so later edits don't change history
+export interface MockBeneficiary {
+  payoutMethodId: string;
+  type: MockPayoutMethod['type'];
+  name: string | null;
+  upiId: string | null;
+  accountNumber: string | null;
+  ifsc: string | null;
+  bankName: string | null;
+  verificationStatus: MockPayoutMethod['verificationStatus'];
+  verifiedAt: string | null;
+}
+
+export interface MockSettlementPayment {
+  id: string;
+  amount: number;
+  transactionId: string | null;
+  paymentProofPath: string | null;
+  paidAt: string;
+  paidBy: string | null;
+  // Set when the payment was reconciled from an imported bank statement
+  statementName: string | null;
+  statementRow: Record<string, string> | null;
+}
+
+export interface MockSettlementEvent {
+  type: 'requested' | 'auto-requested' | 'approved' | 'payment' | 'settled' | 'rejected';
+  at: string;
+  actorName: string | null;
+  amount: number | null;
+  note: string | null;
+}
+
+export type SettlementCycle = 'manual' | 'weekly' | 'fortnightly';
+
+export interface MockSettlementSchedule {
+  vendorId: string;
+  cycle: SettlementCycle;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  // What the last run did, e.g. the request it raised or why it raised none
+  lastRunNote: string | null;
+}
+
+export interface MockSettlement {
+  id: string;
+  vendorId: string;
+  vendorName: string;
+  // 'vendor' for requests raised by hand, otherwise the cycle that raised it
+  source: 'vendor' | Exclude<SettlementCycle, 'manual'>;
+  amount: number;
+  // Sum of payments - an approved request can be paid in several parts
+  amountPaid: number | null;
+  status: 'pending' | 'approved' | 'rejected';
+  paymentStatus: 'pending' | 'settled_partially' | 'settled_fully';
+  // Raw UPI ID of requests made before payout methods existed, and of UPI beneficiaries
+  upiId: string | null;
+  beneficiary: MockBeneficiary | null;
+  transactionId: string | null;
+  paymentProofPath: string | null;
+  rejectionReason: string | null;
+  payments: MockSettlementPayment[];
+  // Oldest first
+  events: MockSettlementEvent[];
+  createdAt: string;
+}
+
+export interface MockNotification {
+  id: number;
+  type: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  message: string;
+  order_id?: string;
+  vendor_name?: string;
+  vendor_warehouse_id?: string;
+  status: 'pending' | 'in_progress' | 'resolved' | 'dismissed';
+  created_at: string;
+  resolved_by?: string;
+  resolved_at?: string;
+  resolution_notes?: string;
+  metadata?: any;
+  error_details?: string;
+}
+
+export interface MockRTOFocusOrder {
+  order_id: string;
+  order_status: string;
+  instance_number: number;
+  days_since_initiated: number;
+  rto_wh: string | null;
+  account_code: string;
+  activity_date: string | null;
+  created_at: string;
+  updated_at: string;
+  awb: string | null;
+  carrier_name: string | null;
+}
+
+// Anyone can sign in to the mock with these - the password is not checked against anything else
+export const MOCK_PASSWORD = 'password123';
+
+// Small deterministic PRNG (mulberry32) so fixtures don't change between restarts
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state |= 0;
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number, hours: number = 0): string {
+  return new Date(Date.now() - days * DAY_MS - hours * 60 * 60 * 1000).toISOString();
+}
+
+export const SHIPMENT_STATUS_MAPPING = [
+  { raw: 'AWB Assigned', renamed: 'Shipment Booked', color: '#3b82f6', is_handover: 0 },
+  { raw: 'Shipment Booked', renamed: 'Shipment Booked', color: '#3b82f6', is_handover: 0 },
+  { raw: 'Pickup Failed', renamed: 'Pickup Failed', color: '#ef4444', is_handover: 0 },
+  { raw: 'In Transit', renamed: 'In Transit', color: '#f59e0b', is_handover: 1 },
+  { raw: 'Out for Delivery', renamed: 'Out for Delivery', color: '#8b5cf6', is_handover: 1 },
+  { raw: 'Delivered', renamed: 'Delivered', color: '#22c55e', is_handover: 1 },
+  { raw: 'RTO Initiated', renamed: 'RTO Initiated', color: '#f97316', is_handover: 1 },
+  { raw: 'RTO Delivered', renamed: 'RTO Delivered', color: '#64748b', is_handover: 1 },
+];
+
+const PRODUCTS = [
+  { name: 'Real Madrid Home Jersey 24/25', code: 'RM-HOME-2425' },
+  { name: 'Barcelona Away Jersey 24/25', code: 'FCB-AWAY-2425' },
+  { name: 'Manchester United Third Kit', code: 'MUN-THIRD-2425' },
+  { name: 'India Cricket ODI Jersey', code: 'IND-ODI-2024' },
+  { name: 'Argentina Home Jersey (3 Star)', code: 'ARG-HOME-3S' },
+  { name: 'Liverpool Training Tee', code: 'LFC-TRN-TEE' },
+  { name: 'Chennai Super Kings Jersey', code: 'CSK-IPL-2025' },
+  { name: 'Retro Brazil 2002 Jersey', code: 'BRA-RETRO-02' },
+];
+
+const SIZES = ['S', 'M', 'L', 'XL', 'XXL'] as const;
+
+const CUSTOMERS = [
+  'Aarav Sharma', 'Diya Patel', 'Rohan Mehta', 'Ananya Iyer', 'Kabir Singh', 'Meera Nair',
+  'Vihaan Gupta', 'Isha Reddy', 'Arjun Rao', 'Saanvi Joshi', 'Aditya Kulkarni', 'Priya Das',
+];
+
+const CARRIERS = ['Delhivery', 'Xpressbees', 'Ekart', 'Blue Dart', 'Shadowfax'];
+
+export function createMockUsers(): MockUser[] {
+  return [
+    { id: '1', name: 'Super Admin', email: 'superadmin@claimio.test', password: MOCK_PASSWORD, role: 'superadmin', status: 'active', phone: '9000000001', createdAt: daysAgo(400) },
+    { id: '2', name: 'Ops Admin', email: 'admin@claimio.test', password: MOCK_PASSWORD, role: 'admin', status: 'active', phone: '9000000002', createdAt: daysAgo(300) },
+    {
+      id: '3', name: 'Mumbai Kits Co.', email: 'vendor@claimio.test', password: MOCK_PASSWORD, role: 'vendor', status: 'active',
+      phone: '9000000003', warehouseId: 'WH1001', contactNumber: '9000000003',
+      address: 'Unit 12, Andheri Industrial Estate', city: 'Mumbai', pincode: '400053', createdAt: daysAgo(200),
+    },
+    {
+      id: '4', name: 'Delhi Sports Hub', email: 'vendor2@claimio.test', password: MOCK_PASSWORD, role: 'vendor', status: 'active',
+      phone: '9000000004', warehouseId: 'WH1002', contactNumber: '9000000004',
+      address: 'Plot 44, Okhla Phase II', city: 'New Delhi', pincode: '110020', createdAt: daysAgo(150),
+    },
+    {
+      id: '5', name: 'Bengaluru Threads', email: 'vendor3@claimio.test', password: MOCK_PASSWORD, role: 'vendor', status: 'inactive',
+      phone: '9000000005', warehouseId: 'WH1003', contactNumber: '9000000005',
+      address: '88 Peenya 2nd Stage', city: 'Bengaluru', pincode: '560058', createdAt: daysAgo(90),
+    },
+  ];
+}
+
+export function createMockStores(): MockStore[] {
+  return [
+    {
+      id: 1, account_code: 'STRIKER', store_name: 'Striker Store', status: 'active', username: 'striker@shipway.test',
+      shipping_partner: 'Shipway', last_synced_at: daysAgo(0, 1),
+      shopify_brands: [{ id: 1, brand_name: 'Striker', store_code: 'STRIKER', shopify_store_url: 'striker-store.myshopify.com' }],
+    },
+    {
+      id: 2, account_code: 'JERSEYHUB', store_name: 'Jersey Hub', status: 'active', username: 'jerseyhub@shipway.test',
+      shipping_partner: 'Shipway', last_synced_at: daysAgo(0, 3),
+      shopify_brands: [{ id: 2, brand_name: 'Jersey Hub', store_code: 'JERSEYHUB', shopify_store_url: 'jersey-hub.myshopify.com' }],
+    },
+    {
+      id: 3, account_code: 'RETROKITS', store_name: 'Retro Kits', status: 'inactive', username: 'retro@shipway.test',
+      shipping_partner: 'Shipway', last_synced_at: daysAgo(12),
+      shopify_brands: [],
+    },
+  ];
+}
+
+export function createMockOrders(users: MockUser[], stores: MockStore[]): MockOrder[] {
+  const random = createRandom(20240601);
+  const vendors = users.filter((user) => user.role === 'vendor' && user.status === 'active');
+  const orders: MockOrder[] = [];
+
+  for (let index = 0; index < 90; index++) {
+    const orderId = String(100500 + index);
+    const store = stores[index % stores.length];
+    const orderDate = daysAgo(random.int(0, 20), random.int(0, 23));
+    const customer = random.pick(CUSTOMERS);
+    const paymentType = random.next() < 0.35 ? 'cod' : 'prepaid';
+
+    // Roughly half unclaimed, the rest spread over the claim lifecycle
+    const roll = random.next();
+    const claimsStatus: MockOrder['claims_status'] =
+      roll < 0.5 ? 'unclaimed' : roll < 0.72 ? 'claimed' : roll < 0.85 ? 'ready_for_handover' : 'handover';
+    const vendor = claimsStatus === 'unclaimed' ? null : random.pick(vendors);
+    const carrier = claimsStatus === 'unclaimed' || claimsStatus === 'claimed' ? null : random.pick(CARRIERS);
+    const labelDownloaded = claimsStatus === 'claimed' ? (random.next() < 0.4 ? 1 : 0) : claimsStatus === 'unclaimed' ? 0 : 1;
+
+    // Some orders have more than one product line
+    const productCount = random.next() < 0.25 ? 2 : 1;
+    for (let line = 0; line < productCount; line++) {
+      const product = random.pick(PRODUCTS);
+      const size = random.pick(SIZES);
+      orders.push({
+        unique_id: `${orderId}_${product.code}-${size}`,
+        order_id: orderId,
+        account_code: store.account_code,
+        store_name: store.store_name,
+        store_status: store.status,
+        product_name: `${product.name} - ${size}`,
+        product_code: `${product.code}-${size}`,
+        size,
+        quantity: random.next() < 0.15 ? 2 : 1,
+        value: random.pick([799, 999, 1299, 1499, 1899]),
+        order_date: orderDate,
+        created_at: orderDate,
+        customer_name: customer,
+        payment_type: paymentType,
+        product_image: '/placeholder.jpg',
+        image: '/placeholder.jpg',
+        claims_status: claimsStatus,
+        claimed_by: vendor?.warehouseId || null,
+        claimed_at: vendor ? daysAgo(random.int(0, 5)) : null,
+        vendor_name: vendor?.name || null,
+        label_downloaded: labelDownloaded,
+        is_manifest: claimsStatus === 'ready_for_handover' || claimsStatus === 'handover' ? 1 : 0,
+        manifest_id: claimsStatus === 'ready_for_handover' || claimsStatus === 'handover' ? `MF${orderId.slice(-3)}` : null,
+        is_handover: claimsStatus === 'handover' ? 1 : 0,
+        is_critical: claimsStatus === 'unclaimed' && random.next() < 0.1 ? 1 : 0,
+        awb: carrier ? `AWB${random.int(10000000, 99999999)}` : null,
+        carrier_name: carrier,
+        current_shipment_status: claimsStatus === 'handover'
+          ? random.pick(['In Transit', 'Out for Delivery', 'Delivered', 'RTO Initiated'])
+          : carrier ? 'Shipment Booked' : null,
+      });
+    }
+  }
+
+  return orders;
+}
+
+export function createMockCarriers(stores: MockStore[]): MockCarrier[] {
+  return stores.flatMap((store) =>
+    CARRIERS.map((name, index) => ({
+      carrier_id: `${store.account_code}-${index + 1}`,
+      carrier_name: name,
+      account_code: store.account_code,
+      store_name: store.store_name,
+      status: index === CARRIERS.length - 1 ? 'inactive' as const : 'active' as const,
+      priority: index + 1,
+      weight_in_kg: index % 2 === 0 ? 0.5 : 1,
+    }))
+  );
+}
+
+export function createMockWhMappings(users: MockUser[]): MockWhMapping[] {
+  return users
+    .filter((user) => user.role === 'vendor')
+    .map((vendor, index) => ({
+      id: index + 1,
+      claimio_wh_id: vendor.warehouseId!,
+      vendor_wh_id: `SW${vendor.warehouseId}`,
+      account_code: index % 2 === 0 ? 'STRIKER' : 'JERSEYHUB',
+      return_warehouse_id: `RET${vendor.warehouseId}`,
+      is_active: vendor.status === 'active' ? 1 as const : 0 as const,
+    }));
+}
+
+export function createMockPayoutMethods(users: MockUser[]): MockPayoutMethod[] {
+  const vendors = users.filter((user) => user.role === 'vendor');
+  const method = (fields: Partial<MockPayoutMethod> & Pick<MockPayoutMethod, 'id' | 'vendorId' | 'type'>): MockPayoutMethod => ({
+    upiId: null, accountHolderName: null, accountNumber: null, ifsc: null, bankName: null,
+    verificationStatus: 'pending', verifiedName: null, verifiedAt: null, failureReason: null,
+    isDefault: false, createdAt: daysAgo(60), ...fields,
+  });
+  return [
+    method({ id: 'PM1', vendorId: vendors[0].id, type: 'upi', upiId: 'mumbaikits@okhdfc', verificationStatus: 'verified', verifiedName: 'MUMBAI KITS CO', verifiedAt: daysAgo(59), isDefault: true }),
+    method({ id: 'PM2', vendorId: vendors[0].id, type: 'bank', accountHolderName: 'Mumbai Kits Co.', accountNumber: '50200012345678', ifsc: 'HDFC0001234', bankName: 'HDFC Bank', createdAt: daysAgo(3) }),
+    method({ id: 'PM3', vendorId: vendors[1].id, type: 'upi', upiId: 'delhisports@ybl', verificationStatus: 'failed', failureReason: 'Name on the UPI ID does not match the registered business', createdAt: daysAgo(20) }),
+    method({ id: 'PM4', vendorId: vendors[1].id, type: 'upi', upiId: 'delhisports@okaxis', verificationStatus: 'verified', verifiedName: 'DELHI SPORTS HUB', verifiedAt: daysAgo(10), isDefault: true, createdAt: daysAgo(10) }),
+  ];
+}
+
+export function toBeneficiary(method: MockPayoutMethod): MockBeneficiary {
+  return {
+    payoutMethodId: method.id,
+    type: method.type,
+    name: method.verifiedName || method.accountHolderName,
+    upiId: method.upiId,
+    accountNumber: method.accountNumber,
+    ifsc: method.ifsc,
+    bankName: method.bankName,
+    verificationStatus: method.verificationStatus,
+    verifiedAt: method.verifiedAt,
+  };
+}
+
+export function createMockSettlements(users: MockUser[], payoutMethods: MockPayoutMethod[]): MockSettlement[] {
+  const vendors = users.filter((user) => user.role === 'vendor');
+  const beneficiary = (id: string) => toBeneficiary(payoutMethods.find((method) => method.id === id)!);
+  const event = (type: MockSettlementEvent['type'], at: string, actorName: string | null, amount: number | null = null, note: string | null = null): MockSettlementEvent =>
+    ({ type, at, actorName, amount, note });
+  return [
+    {
+      id: '1', vendorId: vendors[0].id, vendorName: vendors[0].name, source: 'weekly', amount: 18450, amountPaid: 12000,
+      status: 'approved', paymentStatus: 'settled_partially', upiId: 'mumbaikits@okhdfc', beneficiary: beneficiary('PM1'),
+      transactionId: 'UTR2201459981', paymentProofPath: 'proof-1.png', rejectionReason: null,
+      payments: [{ id: 'PAY1', amount: 12000, transactionId: 'UTR2201459981', paymentProofPath: 'proof-1.png', paidAt: daysAgo(29), paidBy: 'Ops Admin', statementName: null, statementRow: null }],
+      events: [
+        event('auto-requested', daysAgo(30), null, 18450, 'Weekly settlement cycle'),
+        event('approved', daysAgo(29), 'Ops Admin'),
+        event('payment', daysAgo(29), 'Ops Admin', 12000, 'UTR2201459981'),
+      ],
+      createdAt: daysAgo(30),
+    },
+    {
+      id: '2', vendorId: vendors[0].id, vendorName: vendors[0].name, source: 'vendor', amount: 9200, amountPaid: null,
+      status: 'pending', paymentStatus: 'pending', upiId: 'mumbaikits@okhdfc', beneficiary: beneficiary('PM1'),
+      transactionId: null, paymentProofPath: null, rejectionReason: null, payments: [],
+      events: [event('requested', daysAgo(2), vendors[0].name, 9200)],
+      createdAt: daysAgo(2),
+    },
+    {
+      id: '3', vendorId: vendors[1].id, vendorName: vendors[1].name, source: 'vendor', amount: 12600, amountPaid: null,
+      status: 'rejected', paymentStatus: 'pending', upiId: 'delhisports@ybl', beneficiary: null,
+      transactionId: null, paymentProofPath: null, rejectionReason: 'UPI ID does not match the registered bank account', payments: [],
+      events: [
+        event('requested', daysAgo(14), vendors[1].name, 12600),
+        event('rejected', daysAgo(13), 'Ops Admin', null, 'UPI ID does not match the registered bank account'),
+      ],
+      createdAt: daysAgo(14),
+    },
+    {
+      id: '4', vendorId: vendors[1].id, vendorName: vendors[1].name, source: 'vendor', amount: 15300, amountPaid: null,
+      status: 'pending', paymentStatus: 'pending', upiId: 'delhisports@okaxis', beneficiary: beneficiary('PM4'),
+      transactionId: null, paymentProofPath: null, rejectionReason: null, payments: [],
+      events: [event('requested', daysAgo(1), vendors[1].name, 15300)],
+      createdAt: daysAgo(1),
+    },
+  ];
+}
+
+// Weekly cycles run on Mondays, fortnightly ones on the 1st and 16th - both at 09:00
+export function nextSettlementRun(cycle: SettlementCycle, from: Date = new Date()): string | null {
+  if (cycle === 'manual') return null;
+  const next = new Date(from);
+  next.setHours(9, 0, 0, 0);
+  if (cycle === 'weekly') {
+    next.setDate(next.getDate() + ((8 - next.getDay()) % 7));
+    if (next <= from) next.setDate(next.getDate() + 7);
+    return next.toISOString();
+  }
+  if (next.getDate() < 16) {
+    next.setDate(16);
+  } else {
+    next.setMonth(next.getMonth() + 1, 1);
+  }
+  return next.toISOString();
+}
+
+export function createMockSettlementSchedules(users: MockUser[]): MockSettlementSchedule[] {
+  const vendors = users.filter((user) => user.role === 'vendor');
+  return [
+    { vendorId: vendors[0].id, cycle: 'weekly', nextRunAt: nextSettlementRun('weekly'), lastRunAt: daysAgo(30), lastRunNote: 'Raised settlement request #1' },
+  ];
+}
+
+export function createMockNotifications(): MockNotification[] {
+  return [
+    { id: 1, type: 'label_generation_failed', severity: 'high', title: 'Label generation failed', message: 'Shipway rejected the label request for order 100512: pincode not serviceable.', order_id: '100512', vendor_name: 'Mumbai Kits Co.', vendor_warehouse_id: 'WH1001', status: 'pending', created_at: daysAgo(0, 2), error_details: 'PINCODE_NOT_SERVICEABLE' },
+    { id: 2, type: 'order_stuck', severity: 'medium', title: 'Order claimed but not manifested', message: 'Order 100521 was claimed 3 days ago and has not been marked ready.', order_id: '100521', vendor_name: 'Delhi Sports Hub', vendor_warehouse_id: 'WH1002', status: 'in_progress', created_at: daysAgo(1) },
+    { id: 3, type: 'sync_failed', severity: 'critical', title: 'Store sync failed', message: 'Retro Kits could not be synced from Shopify for 12 days.', status: 'pending', created_at: daysAgo(0, 5), metadata: { account_code: 'RETROKITS' } },
+    { id: 4, type: 'vendor_error', severity: 'low', title: 'Vendor reported a download issue', message: 'Bulk label download timed out on a slow connection.', vendor_name: 'Mumbai Kits Co.', vendor_warehouse_id: 'WH1001', status: 'resolved', created_at: daysAgo(4), resolved_by: 'Ops Admin', resolved_at: daysAgo(3), resolution_notes: 'Retried with async mode.' },
+  ];
+}
+
+export function createMockRTOFocusOrders(): MockRTOFocusOrder[] {
+  return [
+    { order_id: '100431', order_status: 'RTO Initiated', instance_number: 1, days_since_initiated: 6, rto_wh: 'Mumbai RTO Hub', account_code: 'STRIKER', activity_date: daysAgo(6), created_at: daysAgo(18), updated_at: daysAgo(1), awb: 'AWB55310021', carrier_name: 'Delhivery' },
+    { order_id: '100447', order_status: 'RTO In Transit', instance_number: 2, days_since_initiated: 11, rto_wh: 'Delhi RTO Hub', account_code: 'JERSEYHUB', activity_date: daysAgo(11), created_at: daysAgo(25), updated_at: daysAgo(2), awb: 'AWB55310877', carrier_name: 'Xpressbees' },
+    { order_id: '100462', order_status: 'RTO Delivered', instance_number: 1, days_since_initiated: 15, rto_wh: null, account_code: 'STRIKER', activity_date: null, created_at: daysAgo(30), updated_at: daysAgo(4), awb: 'AWB55311204', carrier_name: 'Ekart' },
+  ];
+}
+
+export const RTO_LOCATIONS = ['Mumbai RTO Hub', 'Delhi RTO Hub', 'Bengaluru RTO Hub'];
+
+export const RTO_PRODUCTS = PRODUCTS.map((product) => ({ name: product.name, sku_id: product.code }));
+
+export const RTO_SIZES = [...SIZES];
+
+const SCAN_CITIES = ['Mumbai', 'Bhiwandi', 'Pune', 'Nagpur', 'Hyderabad', 'Bengaluru', 'New Delhi', 'Jaipur'];
+
+type ScanStep = [status: string, remarks: string, at: 'origin' | 'hub' | 'destination'];
+
+const FORWARD_SCANS: ScanStep[] = [
+  ['Shipment Booked', 'Shipment details received', 'origin'],
+  ['Picked Up', 'Shipment picked up from seller', 'origin'],
+  ['In Transit', 'Shipment left origin facility', 'hub'],
+  ['In Transit', 'Shipment reached destination hub', 'destination'],
+  ['Out for Delivery', 'Out for delivery with courier', 'destination'],
+];
+
+// Scan path that ends in each current status
+const SCAN_PATHS: Record<string, ScanStep[]> = {
+  'shipment booked': FORWARD_SCANS.slice(0, 1),
+  'awb assigned': FORWARD_SCANS.slice(0, 1),
+  'pickup failed': [FORWARD_SCANS[0], ['Pickup Failed', 'Seller not ready with the shipment', 'origin']],
+  'in transit': FORWARD_SCANS.slice(0, 3),
+  'out for delivery': FORWARD_SCANS,
+  delivered: [...FORWARD_SCANS, ['Delivered', 'Delivered to customer', 'destination']],
+  'rto initiated': [
+    ...FORWARD_SCANS,
+    ['Undelivered', 'Customer not available', 'destination'],
+    ['RTO Initiated', 'Return to origin initiated', 'destination'],
+  ],
+  'rto delivered': [
+    ...FORWARD_SCANS,
+    ['Undelivered', 'Customer refused delivery', 'destination'],
+    ['RTO Initiated', 'Return to origin initiated', 'destination'],
+    ['RTO In Transit', 'Shipment on its way back', 'hub'],
+    ['RTO Delivered', 'Returned to seller', 'origin'],
+  ],
+};
+
+const FINAL_SCAN_STATUSES = ['delivered', 'rto delivered'];
+
+/**
+ * Carrier scan history of a shipped order, derived from its current status. Seeded by the
+ * order id so every request returns the same scans; about a third of the open shipments have not
+ * been scanned for several days so the "stuck" warning shows up.
+ */
+export function createMockScanEvents(order: MockOrder) {
+  const status = (order.current_shipment_status || '').toLowerCase();
+  const path = SCAN_PATHS[status] || SCAN_PATHS['shipment booked'];
+  const random = createRandom(Number(order.order_id.replace(/\D/g, '')) || 1);
+  const origin = random.pick(SCAN_CITIES);
+  const destination = random.pick(SCAN_CITIES);
+  const hub = random.pick(SCAN_CITIES);
+
+  const final = FINAL_SCAN_STATUSES.includes(status);
+  const stuck = !final && random.next() < 0.35;
+  const lastScan = Date.now() - (stuck ? random.int(4, 7) * DAY_MS : random.int(2, final ? 72 : 20) * 60 * 60 * 1000);
+
+  // Walk back from the latest scan, 6-30 hours between scans
+  const times = [lastScan];
+  while (times.length < path.length) {
+    times.unshift(times[0] - random.int(6, 30) * 60 * 60 * 1000);
+  }
+  const events = path
+    .map(([scanStatus, remarks, place], index) => ({
+      status: scanStatus,
+      location: place === 'origin' ? origin : place === 'hub' ? `${hub} Hub` : destination,
+      remarks,
+      scanned_at: new Date(times[index]).toISOString(),
+    }))
+    .reverse();
+
+  return {
+    events,
+    expected_delivery_date: new Date(times[0] + 5 * DAY_MS).toISOString(),
+    delivered_at: status === 'delivered' ? events[0].scanned_at : null,
+  };
+}
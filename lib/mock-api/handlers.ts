@@ -0,0 +1,2047 @@
+/**
+ * Mock API Handlers
+ * In-memory stand-in for the Claimio backend, served by app/api/mock/[...path]/route.ts.
+ * Covers every endpoint ApiClient calls with the same response envelope
+ * ({ success, message, data }) so the dashboards run for all three roles without the
+ * real backend. State lives in memory and resets when the dev server restarts.
+ */
+
+import {
+  createMockCarriers, createMockNotifications, createMockOrders, createMockPayoutMethods, createMockRTOFocusOrders,
+  createMockScanEvents, createMockSettlementSchedules, createMockSettlements, createMockStores, createMockUsers,
+  createMockWhMappings, nextSettlementRun, RTO_LOCATIONS, RTO_PRODUCTS, RTO_SIZES, SHIPMENT_STATUS_MAPPING, toBeneficiary,
+} from './fixtures';
+import type {
+  MockBeneficiary, MockCarrier, MockNotification, MockOrder, MockPayoutMethod, MockRTOFocusOrder, MockSettlement,
+  MockSettlementEvent, MockSettlementSchedule, MockStore, MockUser, MockWhMapping, SettlementCycle,
+} from './fixtures';
+import { buildLabelPdf } from './pdf';
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const FEED_HEARTBEAT_MS = 25000;
+
+type Role = MockUser['role'];
+
+interface MockRTOInventoryItem {
+  id: number;
+  Location: string;
+  Product_Name: string;
+  Size: string;
+  Quantity: number;
+  product_code: string;
+  base_sku: string;
+}
+
+interface MockTask {
+  status: 'processing' | 'completed' | 'failed';
+  result?: any;
+  error?: string;
+}
+
+interface MockLabelEvent {
+  id: string;
+  order_id: string;
+  format: string;
+  merged: boolean;
+  source: 'single' | 'bulk' | 'reprint';
+  shipping_url: string | null;
+  awb: string | null;
+  downloaded_by: string;
+  downloaded_by_name: string;
+  downloaded_at: string;
+}
+
+// Lifecycle steps recorded as they happen in the mock; steps of the seeded orders are
+// derived from their current state when the timeline is built
+interface MockOrderEvent {
+  id: string;
+  order_id: string;
+  unique_id: string | null;
+  type: 'claimed' | 'assigned' | 'unassigned' | 'reversed' | 'label-generated' | 'manifested';
+  at: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  description: string | null;
+}
+
+interface MockDb {
+  users: MockUser[];
+  stores: MockStore[];
+  orders: MockOrder[];
+  carriers: MockCarrier[];
+  whMappings: MockWhMapping[];
+  settlements: MockSettlement[];
+  payoutMethods: MockPayoutMethod[];
+  settlementSchedules: MockSettlementSchedule[];
+  notifications: MockNotification[];
+  rtoFocusOrders: MockRTOFocusOrder[];
+  rtoInventory: MockRTOInventoryItem[];
+  labelHistory: MockLabelEvent[];
+  orderEvents: MockOrderEvent[];
+  tasks: Map<string, MockTask>;
+  tempDownloads: Map<string, Uint8Array>;
+  accessTokens: Map<string, { userId: string; expiresAt: number }>;
+  refreshTokens: Map<string, string>;
+  pushSubscribers: Set<string>;
+  feedClients: Set<ReadableStreamDefaultController<Uint8Array>>;
+  feedEventId: number;
+  lastUpdated: string;
+  sequence: number;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  params: Record<string, string>;
+  body: any;
+  user: MockUser | null;
+  origin: string;
+  headers: Headers;
+}
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  // Roles allowed to call it; omitted = public
+  roles?: Role[];
+  handler: (request: MockRequest) => Response | Promise<Response>;
+}
+
+function createDb(): MockDb {
+  const users = createMockUsers();
+  const stores = createMockStores();
+  const payoutMethods = createMockPayoutMethods(users);
+  return {
+    users,
+    stores,
+    orders: createMockOrders(users, stores),
+    carriers: createMockCarriers(stores),
+    whMappings: createMockWhMappings(users),
+    settlements: createMockSettlements(users, payoutMethods),
+    payoutMethods,
+    settlementSchedules: createMockSettlementSchedules(users),
+    notifications: createMockNotifications(),
+    rtoFocusOrders: createMockRTOFocusOrders(),
+    rtoInventory: [],
+    labelHistory: [],
+    orderEvents: [],
+    tasks: new Map(),
+    tempDownloads: new Map(),
+    accessTokens: new Map(),
+    refreshTokens: new Map(),
+    pushSubscribers: new Set(),
+    feedClients: new Set(),
+    feedEventId: 0,
+    lastUpdated: new Date().toISOString(),
+    sequence: 1000,
+  };
+}
+
+// Survive dev-server hot reloads - route modules are re-evaluated, globalThis is not
+const globalForMock = globalThis as typeof globalThis & { __claimioMockDb?: MockDb };
+const db: MockDb = globalForMock.__claimioMockDb || (globalForMock.__claimioMockDb = createDb());
+
+// ==================== HELPERS ====================
+
+function ok(data: any = null, message: string = 'OK', extra: Record<string, any> = {}): Response {
+  return Response.json({ success: true, message, data, ...extra });
+}
+
+function fail(status: number, message: string): Response {
+  return Response.json({ success: false, message }, { status });
+}
+
+function nextId(prefix: string = ''): string {
+  db.sequence++;
+  return `${prefix}${db.sequence}`;
+}
+
+function touch() {
+  db.lastUpdated = new Date().toISOString();
+}
+
+function logOrderEvent(
+  line: { order_id: string; unique_id?: string },
+  type: MockOrderEvent['type'],
+  actor: MockUser | null,
+  description: string | null = null
+) {
+  db.orderEvents.push({
+    id: nextId('EV'),
+    order_id: line.order_id,
+    unique_id: line.unique_id ?? null,
+    type,
+    at: new Date().toISOString(),
+    actor_id: actor?.id ?? null,
+    actor_name: actor?.name ?? null,
+    description,
+  });
+}
+
+function paginate<T>(items: T[], query: URLSearchParams, defaultLimit: number = 50) {
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const limit = Math.max(1, Number(query.get('limit')) || defaultLimit);
+  const total = items.length;
+  const pages = Math.max(1, Math.ceil(total / limit));
+  return {
+    items: items.slice((page - 1) * limit, page * limit),
+    pagination: { page, limit, total, pages, totalPages: pages, hasMore: page < pages, has_next: page < pages },
+  };
+}
+
+function toOrderRow(order: MockOrder) {
+  return { ...order, status: order.claims_status };
+}
+
+function sumQuantity(orders: MockOrder[]): number {
+  return orders.reduce((total, order) => total + order.quantity, 0);
+}
+
+// Vendor tabs show one row per order_id with its product lines nested
+function groupByOrderId(lines: MockOrder[]) {
+  const groups = new Map<string, MockOrder[]>();
+  lines.forEach((line) => {
+    const key = `${line.account_code}|${line.order_id}`;
+    groups.set(key, [...(groups.get(key) || []), line]);
+  });
+
+  return Array.from(groups.values())
+    .map((products) => {
+      const first = products[0];
+      return {
+        order_id: first.order_id,
+        status: first.claims_status,
+        order_date: first.order_date,
+        customer_name: first.customer_name,
+        payment_type: first.payment_type,
+        account_code: first.account_code,
+        store_name: first.store_name,
+        total_value: products.reduce((total, product) => total + product.value * product.quantity, 0),
+        total_products: products.length,
+        total_quantity: sumQuantity(products),
+        label_downloaded: products.every((product) => product.label_downloaded === 1) ? 1 : 0,
+        is_handover: first.is_handover,
+        is_manifest: first.is_manifest,
+        manifest_id: first.manifest_id,
+        awb: first.awb,
+        carrier_name: first.carrier_name,
+        current_shipment_status: first.current_shipment_status,
+        products: products.map(toOrderRow),
+      };
+    })
+    .sort((a, b) => b.order_date.localeCompare(a.order_date));
+}
+
+function vendorLines(user: MockUser, status: MockOrder['claims_status']): MockOrder[] {
+  return db.orders.filter((order) => order.claimed_by === user.warehouseId && order.claims_status === status);
+}
+
+function toPublicUser(user: MockUser) {
+  const { password, address, city, pincode, ...rest } = user;
+  return rest;
+}
+
+function issueSession(user: MockUser) {
+  const accessToken = `mock-access-${user.id}-${nextId()}`;
+  const refreshToken = `mock-refresh-${user.id}-${nextId()}`;
+  db.accessTokens.set(accessToken, { userId: user.id, expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000 });
+  db.refreshTokens.set(refreshToken, user.id);
+  return { accessToken, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+function resolveUser(headers: Headers): MockUser | null {
+  const token = headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const session = db.accessTokens.get(token);
+  if (!session || session.expiresAt < Date.now()) return null;
+  return db.users.find((user) => user.id === session.userId && user.status === 'active') || null;
+}
+
+function pdfResponse(bytes: Uint8Array, filename: string, headers: Record<string, string> = {}): Response {
+  return new Response(bytes as BodyInit, {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      ...headers,
+    },
+  });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64');
+}
+
+function labelLines(orderId: string, format: string): string[] {
+  const lines = db.orders.filter((order) => order.order_id === orderId);
+  const first = lines[0];
+  return [
+    `${first?.carrier_name || 'Delhivery'} - ${first?.awb || 'AWB PENDING'}`,
+    `Order: ${orderId}`,
+    `Ship to: ${first?.customer_name || 'Customer'}`,
+    `Payment: ${(first?.payment_type || 'prepaid').toUpperCase()}`,
+    ...lines.map((line) => `${line.quantity} x ${line.product_code}`),
+    `Format: ${format}`,
+    'MOCK LABEL - NOT FOR SHIPPING',
+  ];
+}
+
+// Mark the vendor's lines for an order as labelled; returns false when the order isn't theirs
+function generateLabel(user: MockUser, orderId: string): boolean {
+  const lines = db.orders.filter((order) => order.order_id === orderId && order.claimed_by === user.warehouseId);
+  if (lines.length === 0) return false;
+
+  const awb = lines[0].awb || `AWB${Math.floor(10000000 + Math.random() * 89999999)}`;
+  const carrier = lines[0].carrier_name || 'Delhivery';
+  lines.forEach((line) => {
+    line.label_downloaded = 1;
+    line.awb = awb;
+    line.carrier_name = carrier;
+    line.current_shipment_status = line.current_shipment_status || 'Shipment Booked';
+  });
+  logOrderEvent({ order_id: orderId }, 'label-generated', user, `${carrier} - ${awb}`);
+  touch();
+  publishFeedEvent('label-ready', { order_id: orderId });
+  return true;
+}
+
+// Async endpoints finish instantly in the mock - the task is already completed when polled
+function completeTask(result: any): Response {
+  const taskId = nextId('task-');
+  db.tasks.set(taskId, { status: 'completed', result });
+  return Response.json({ success: true, async: true, taskId, message: 'Task accepted', data: { taskId } });
+}
+
+// ==================== ORDER FEED (SSE) ====================
+
+const encoder = new TextEncoder();
+
+function publishFeedEvent(type: string, payload: Record<string, any>) {
+  db.feedEventId++;
+  const message = encoder.encode(`id: ${db.feedEventId}\nevent: ${type}\ndata: ${JSON.stringify(payload)}\n\n`);
+  db.feedClients.forEach((client) => {
+    try {
+      client.enqueue(message);
+    } catch {
+      db.feedClients.delete(client);
+    }
+  });
+}
+
+function openFeedStream(): Response {
+  let controllerRef: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controllerRef = controller;
+      db.feedClients.add(controller);
+      controller.enqueue(encoder.encode(': connected\n\n'));
+      heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        } catch {
+          if (heartbeat) clearInterval(heartbeat);
+        }
+      }, FEED_HEARTBEAT_MS);
+    },
+    cancel() {
+      if (controllerRef) db.feedClients.delete(controllerRef);
+      if (heartbeat) clearInterval(heartbeat);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+// ==================== ROUTES ====================
+
+const routes: MockRoute[] = [];
+
+function route(method: string, path: string, roles: Role[] | undefined, handler: MockRoute['handler']) {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    '^' + path.replace(/:([a-zA-Z_]+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    }) + '$'
+  );
+  routes.push({ method, pattern, keys, roles, handler });
+}
+
+const VENDOR: Role[] = ['vendor'];
+const ADMIN: Role[] = ['admin', 'superadmin'];
+const SUPERADMIN: Role[] = ['superadmin'];
+const ANY: Role[] = ['vendor', 'admin', 'superadmin'];
+
+// ---------- Auth ----------
+
+route('POST', '/auth/login', undefined, ({ body }) => {
+  const user = db.users.find((candidate) => candidate.email.toLowerCase() === String(body?.email || '').toLowerCase());
+  if (!user || user.password !== body?.password) {
+    return fail(401, 'Invalid email or password');
+  }
+  if (user.status !== 'active') {
+    return fail(403, 'Account is inactive');
+  }
+  return ok({ ...issueSession(user), user: toPublicUser(user) }, 'Login successful');
+});
+
+route('POST', '/auth/refresh', undefined, ({ body }) => {
+  const userId = db.refreshTokens.get(body?.refreshToken);
+  const user = db.users.find((candidate) => candidate.id === userId);
+  if (!user) {
+    return fail(401, 'Refresh token is invalid or expired');
+  }
+  db.refreshTokens.delete(body.refreshToken);
+  return ok(issueSession(user), 'Token refreshed');
+});
+
+route('POST', '/auth/logout', undefined, ({ body, headers }) => {
+  const token = headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (token) db.accessTokens.delete(token);
+  if (body?.refreshToken) db.refreshTokens.delete(body.refreshToken);
+  return ok(null, 'Logged out');
+});
+
+route('GET', '/auth/profile', ANY, ({ user }) => ok(toPublicUser(user!)));
+
+route('PUT', '/auth/change-password', ANY, ({ user, body }) => {
+  if (body?.oldPassword !== user!.password) return fail(400, 'Current password is incorrect');
+  if (body?.newPassword !== body?.confirmPassword) return fail(400, 'Passwords do not match');
+  user!.password = body.newPassword;
+  return ok(null, 'Password changed successfully');
+});
+
+route('POST', '/auth/reset-password', undefined, ({ body }) => {
+  const user = db.users.find((candidate) => candidate.email === body?.email);
+  if (!user || user.password !== body?.oldPassword) return fail(400, 'Invalid email or password');
+  if (body?.newPassword !== body?.confirmPassword) return fail(400, 'Passwords do not match');
+  user.password = body.newPassword;
+  return ok(null, 'Password reset successfully');
+});
+
+route('PUT', '/auth/change-user-password', ADMIN, ({ body }) => {
+  const user = db.users.find((candidate) => candidate.id === String(body?.userId));
+  if (!user) return fail(404, 'User not found');
+  user.password = body.newPassword;
+  return ok(null, 'Password updated');
+});
+
+// ---------- Users ----------
+
+route('GET', '/users', ADMIN, ({ query }) => {
+  const q = (query.get('q') || '').toLowerCase();
+  const users = db.users.filter((user) =>
+    (!query.get('role') || user.role === query.get('role')) &&
+    (!query.get('status') || user.status === query.get('status')) &&
+    (!q || user.name.toLowerCase().includes(q) || user.email.toLowerCase().includes(q) || (user.warehouseId || '').toLowerCase().includes(q))
+  );
+  const { items, pagination } = paginate(users, query, 20);
+  return ok({ users: items.map(toPublicUser), pagination });
+});
+
+const createUser = ({ body, user }: MockRequest) => {
+  if (user!.role === 'admin' && body?.role !== 'vendor') return fail(403, 'Admins can only create vendor accounts');
+  if (db.users.some((existing) => existing.email === body?.email)) return fail(400, 'Email already exists');
+  const created: MockUser = {
+    id: nextId(),
+    name: body.name,
+    email: body.email,
+    password: body.password,
+    role: body.role,
+    status: body.status || 'active',
+    phone: body.phone,
+    warehouseId: body.warehouseId,
+    contactNumber: body.contactNumber,
+    createdAt: new Date().toISOString(),
+  };
+  db.users.push(created);
+  return ok(toPublicUser(created), 'User created successfully');
+};
+route('POST', '/users', SUPERADMIN, createUser);
+route('POST', '/users/vendor', ADMIN, createUser);
+
+route('GET', '/users/vendor/address', VENDOR, ({ user }) => ok({
+  warehouseId: user!.warehouseId,
+  address: user!.address || '',
+  city: user!.city || '',
+  pincode: user!.pincode || '',
+}));
+
+route('GET', '/users/vendors-report', ADMIN, () => ok({
+  vendors: db.users.filter((user) => user.role === 'vendor').map((vendor) => {
+    const lines = db.orders.filter((order) => order.claimed_by === vendor.warehouseId);
+    return {
+      ...toPublicUser(vendor),
+      totalOrders: new Set(lines.map((line) => line.order_id)).size,
+      completedOrders: new Set(lines.filter((line) => line.is_handover === 1).map((line) => line.order_id)).size,
+      revenue: lines.reduce((total, line) => total + line.value * line.quantity, 0),
+    };
+  }),
+}));
+
+route('GET', '/users/vendors-stats', ADMIN, () => {
+  const vendors = db.users.filter((user) => user.role === 'vendor');
+  return ok({ totalVendors: vendors.length, activeVendors: vendors.filter((vendor) => vendor.status === 'active').length });
+});
+
+route('GET', '/users/role/:role', ADMIN, ({ params }) => ok(db.users.filter((user) => user.role === params.role).map(toPublicUser)));
+route('GET', '/users/status/:status', ADMIN, ({ params }) => ok(db.users.filter((user) => user.status === params.status).map(toPublicUser)));
+
+route('GET', '/users/:id', ADMIN, ({ params }) => {
+  const user = db.users.find((candidate) => candidate.id === params.id);
+  return user ? ok(toPublicUser(user)) : fail(404, 'User not found');
+});
+
+const updateUser = ({ params, body }: MockRequest) => {
+  const user = db.users.find((candidate) => candidate.id === params.id);
+  if (!user) return fail(404, 'User not found');
+  Object.assign(user, body);
+  return ok(toPublicUser(user), 'User updated successfully');
+};
+route('PUT', '/users/:id', SUPERADMIN, updateUser);
+route('PUT', '/users/vendor/:id', ADMIN, updateUser);
+
+route('DELETE', '/users/:id', ADMIN, ({ params }) => {
+  const before = db.users.length;
+  db.users = db.users.filter((user) => user.id !== params.id);
+  return db.users.length < before ? ok(null, 'User deleted successfully') : fail(404, 'User not found');
+});
+
+route('PATCH', '/users/:id/toggle-status', ADMIN, ({ params }) => {
+  const user = db.users.find((candidate) => candidate.id === params.id);
+  if (!user) return fail(404, 'User not found');
+  user.status = user.status === 'active' ? 'inactive' : 'active';
+  return ok(toPublicUser(user), `User ${user.status === 'active' ? 'activated' : 'deactivated'}`);
+});
+
+// ---------- Vendor orders ----------
+
+route('GET', '/orders', VENDOR, ({ query }) => {
+  const search = (query.get('search') || '').toLowerCase();
+  const dateFrom = query.get('dateFrom');
+  const dateTo = query.get('dateTo');
+  const orders = db.orders
+    .filter((order) =>
+      order.claims_status === (query.get('status') || 'unclaimed') &&
+      order.store_status === 'active' &&
+      (!search || order.order_id.includes(search) || order.product_name.toLowerCase().includes(search) || order.product_code.toLowerCase().includes(search)) &&
+      (!dateFrom || order.order_date.slice(0, 10) >= dateFrom) &&
+      (!dateTo || order.order_date.slice(0, 10) <= dateTo)
+    )
+    .sort((a, b) => b.order_date.localeCompare(a.order_date));
+  const { items, pagination } = paginate(orders, query);
+  return ok({ orders: items.map(toOrderRow), pagination: { ...pagination, totalQuantity: sumQuantity(orders) } });
+});
+
+route('GET', '/orders/last-updated', ANY, () => ok({ lastUpdated: db.lastUpdated }));
+
+route('GET', '/orders/events', VENDOR, () => openFeedStream());
+
+route('POST', '/orders/refresh', ANY, ({ body }) => {
+  touch();
+  return body?.async ? completeTask({ success: true, message: 'Orders refreshed' }) : ok({}, 'Orders refreshed');
+});
+
+route('GET', '/orders/grouped', VENDOR, ({ user, query }) => {
+  const lines = vendorLines(user!, 'claimed');
+  const { items, pagination } = paginate(groupByOrderId(lines), query);
+  return ok({ groupedOrders: items, pagination, totalQuantity: sumQuantity(lines) });
+});
+
+route('GET', '/orders/handover', VENDOR, ({ user, query }) => {
+  const lines = vendorLines(user!, 'ready_for_handover');
+  const grouped = groupByOrderId(lines);
+  const { items, pagination } = paginate(grouped, query);
+  return ok({ handoverOrders: items, pagination, summary: { total_orders: grouped.length, total_quantity: sumQuantity(lines) } });
+});
+
+route('GET', '/orders/order-tracking', VENDOR, ({ user, query }) => {
+  const lines = vendorLines(user!, 'handover');
+  const grouped = groupByOrderId(lines);
+  const { items, pagination } = paginate(grouped, query);
+  return ok({ trackingOrders: items, pagination, summary: { total_orders: grouped.length, total_quantity: sumQuantity(lines) } });
+});
+
+function shipmentTracking(line: MockOrder) {
+  return {
+    order_id: line.order_id,
+    awb: line.awb,
+    carrier_name: line.carrier_name,
+    current_status: line.current_shipment_status,
+    ...createMockScanEvents(line),
+  };
+}
+
+route('GET', '/orders/:orderId/tracking-events', VENDOR, ({ user, params }) => {
+  const line = vendorLines(user!, 'handover').find((order) => order.order_id === params.orderId);
+  if (!line) return fail(404, 'Order not found in your tracked orders');
+  return ok(shipmentTracking(line));
+});
+
+route('POST', '/orders/tracking-events', VENDOR, ({ user, body }) => {
+  const orderIds: string[] = body?.order_ids || [];
+  const lines = vendorLines(user!, 'handover');
+  const tracking = orderIds
+    .map((orderId) => lines.find((order) => order.order_id === orderId))
+    .filter((line): line is MockOrder => Boolean(line))
+    .map(shipmentTracking);
+  return ok({ tracking });
+});
+
+route('GET', '/orders/dashboard-stats', VENDOR, ({ user }) => {
+  const unclaimed = db.orders.filter((order) => order.claims_status === 'unclaimed' && order.store_status === 'active');
+  const summary = (lines: MockOrder[]) => ({ totalCount: new Set(lines.map((line) => line.order_id)).size, totalQuantity: sumQuantity(lines) });
+  return ok({
+    allOrders: { totalCount: unclaimed.length, totalQuantity: sumQuantity(unclaimed) },
+    myOrders: summary(vendorLines(user!, 'claimed')),
+    handover: summary(vendorLines(user!, 'ready_for_handover')),
+    orderTracking: summary(vendorLines(user!, 'handover')),
+    lastUpdated: db.lastUpdated,
+  });
+});
+
+function claimLine(user: MockUser, uniqueId: string): string | null {
+  const line = db.orders.find((order) => order.unique_id === uniqueId);
+  if (!line) return 'Order not found';
+  if (line.claims_status !== 'unclaimed') return 'Order has already been claimed';
+
+  line.claims_status = 'claimed';
+  line.claimed_by = user.warehouseId || null;
+  line.claimed_at = new Date().toISOString();
+  line.vendor_name = user.name;
+  logOrderEvent(line, 'claimed', user, line.product_code);
+  publishFeedEvent('order-claimed', { unique_id: line.unique_id, order_id: line.order_id, claimed_by: line.claimed_by });
+  return null;
+}
+
+route('POST', '/orders/claim', VENDOR, ({ user, body }) => {
+  const error = claimLine(user!, body?.unique_id);
+  if (error) return fail(400, error);
+  touch();
+  const line = db.orders.find((order) => order.unique_id === body.unique_id)!;
+  return ok(toOrderRow(line), 'Order claimed successfully');
+});
+
+route('POST', '/orders/bulk-claim', VENDOR, ({ user, body }) => {
+  const successful: { unique_id: string }[] = [];
+  const failed: { unique_id: string; reason: string }[] = [];
+  (body?.unique_ids || []).forEach((uniqueId: string) => {
+    const error = claimLine(user!, uniqueId);
+    if (error) failed.push({ unique_id: uniqueId, reason: error });
+    else successful.push({ unique_id: uniqueId });
+  });
+  touch();
+  return ok({
+    successful_claims: successful,
+    failed_claims: failed,
+    total_successful: successful.length,
+    total_failed: failed.length,
+  }, `Claimed ${successful.length} of ${successful.length + failed.length} orders`);
+});
+
+function releaseLine(line: MockOrder, type: 'reversed' | 'unassigned', actor: MockUser | null) {
+  logOrderEvent(line, type, actor, `${line.product_code}${line.vendor_name ? ` released by ${line.vendor_name}` : ''}`);
+  Object.assign(line, {
+    claims_status: 'unclaimed', claimed_by: null, claimed_at: null, vendor_name: null,
+    label_downloaded: 0, is_manifest: 0, manifest_id: null, awb: null, carrier_name: null, current_shipment_status: null,
+  });
+  publishFeedEvent('status-changed', { order_id: line.order_id, unique_id: line.unique_id, status: 'unclaimed' });
+}
+
+route('POST', '/orders/reverse', VENDOR, ({ user, body }) => {
+  const line = db.orders.find((order) => order.unique_id === body?.unique_id && order.claimed_by === user!.warehouseId);
+  if (!line) return fail(404, 'Order not found in your claimed orders');
+  if (line.is_handover === 1) return fail(400, 'Order has already been handed over');
+  releaseLine(line, 'reversed', user);
+  touch();
+  return ok(null, 'Order reversed successfully');
+});
+
+route('POST', '/orders/reverse-grouped', VENDOR, ({ user, body }) => {
+  const requested: string[] = body?.unique_ids || [];
+  const lines = db.orders.filter((order) =>
+    order.order_id === body?.order_id && order.claimed_by === user!.warehouseId && (requested.length === 0 || requested.includes(order.unique_id))
+  );
+  const reversible = lines.filter((line) => line.is_handover !== 1);
+  reversible.forEach((line) => releaseLine(line, 'reversed', user));
+  touch();
+  return ok({
+    products_processed: reversible.length,
+    skipped_products: lines.length - reversible.length,
+    total_requested: requested.length || lines.length,
+  }, `Reversed ${reversible.length} product(s)`);
+});
+
+function markReady(user: MockUser, orderId: string, manifestId: string): string | null {
+  const lines = vendorLines(user, 'claimed').filter((line) => line.order_id === orderId);
+  if (lines.length === 0) return 'Order not found in your claimed orders';
+  if (lines.some((line) => line.label_downloaded !== 1)) return 'Download the label before marking the order ready';
+
+  lines.forEach((line) => {
+    line.claims_status = 'ready_for_handover';
+    line.is_manifest = 1;
+    line.manifest_id = manifestId;
+  });
+  logOrderEvent({ order_id: orderId }, 'manifested', user, manifestId);
+  publishFeedEvent('status-changed', { order_id: orderId, status: 'ready_for_handover' });
+  return null;
+}
+
+route('POST', '/orders/mark-ready', VENDOR, ({ user, body }) => {
+  const error = markReady(user!, body?.order_id, nextId('MF'));
+  if (error) return fail(400, error);
+  touch();
+  return ok({ order_id: body.order_id }, 'Order marked ready for handover');
+});
+
+route('POST', '/orders/bulk-mark-ready', VENDOR, ({ user, body }) => {
+  const manifestId = nextId('MF');
+  const orderIds: string[] = body?.order_ids || [];
+  const failedOrders = orderIds
+    .map((orderId) => ({ order_id: orderId, reason: markReady(user!, orderId, manifestId) }))
+    .filter((result) => result.reason !== null);
+  touch();
+  const successful = orderIds.length - failedOrders.length;
+  return ok({
+    total_successful: successful,
+    total_failed: failedOrders.length,
+    total_requested: orderIds.length,
+    failed_orders: failedOrders,
+    manifest_ids: successful > 0 ? [manifestId] : [],
+  }, `Marked ${successful} of ${orderIds.length} orders ready`);
+});
+
+route('POST', '/orders/verify-status', VENDOR, ({ body }) => {
+  const statuses: Record<string, { status?: string }> = {};
+  (body?.unique_ids || []).forEach((uniqueId: string) => {
+    const line = db.orders.find((order) => order.unique_id === uniqueId);
+    statuses[uniqueId] = { status: line?.claims_status };
+  });
+  return ok({ statuses });
+});
+
+// ---------- Labels ----------
+
+route('POST', '/orders/download-label', VENDOR, ({ user, body, origin }) => {
+  const orderId = body?.order_id;
+  const format = body?.format || 'thermal';
+  if (!generateLabel(user!, orderId)) return fail(404, 'Order not found in your claimed orders');
+
+  const line = db.orders.find((order) => order.order_id === orderId)!;
+  const result = {
+    success: true,
+    message: 'Label generated',
+    data: {
+      shipping_url: `${origin}/api/mock/labels/${orderId}.pdf`,
+      awb: line.awb,
+      original_order_id: orderId,
+      format,
+      ...(format !== 'thermal' && { formatted_pdf: toBase64(buildLabelPdf([labelLines(orderId, format)])) }),
+    },
+  };
+  return body?.async ? completeTask(result) : Response.json(result);
+});
+
+route('POST', '/orders/bulk-download-labels', VENDOR, ({ user, body, origin }) => {
+  const orderIds: string[] = body?.order_ids || [];
+  const format = body?.format || 'thermal';
+  const successful = orderIds.filter((orderId) => generateLabel(user!, orderId));
+  const failed = orderIds.filter((orderId) => !successful.includes(orderId)).map((orderId) => ({ order_id: orderId, error: 'Order not found in your claimed orders' }));
+
+  if (body?.generate_only || body?.async) {
+    const result = {
+      success: true,
+      message: `Generated ${successful.length} labels`,
+      data: {
+        successful,
+        failed,
+        labels: successful.map((orderId) => ({ order_id: orderId, shipping_url: `${origin}/api/mock/labels/${orderId}.pdf` })),
+        total_successful: successful.length,
+        total_failed: failed.length,
+      },
+    };
+    return body?.async ? completeTask(result) : Response.json(result);
+  }
+
+  return pdfResponse(
+    buildLabelPdf(successful.map((orderId) => labelLines(orderId, format))),
+    `labels_${format}.pdf`,
+    failed.length > 0
+      ? { 'X-Download-Warnings': btoa(`${failed.length} label(s) could not be generated`), 'X-Failed-Orders': JSON.stringify(failed) }
+      : {}
+  );
+});
+
+route('POST', '/orders/bulk-download-labels-merge', VENDOR, ({ body }) => {
+  const orderIds: string[] = body?.order_ids || [];
+  const format = body?.format || 'thermal';
+  const pdf = buildLabelPdf(orderIds.map((orderId) => labelLines(orderId, format)));
+  return body?.async ? completeTask({ pdfBase64: toBase64(pdf) }) : pdfResponse(pdf, `labels_${format}.pdf`);
+});
+
+route('POST', '/orders/download-pdf', ANY, ({ body }) => {
+  const orderId = String(body?.pdfUrl || '').match(/labels\/([^/.]+)\.pdf/)?.[1];
+  if (!orderId) return fail(400, 'Unknown label URL');
+  return pdfResponse(buildLabelPdf([labelLines(orderId, 'thermal')]), `${orderId}.pdf`);
+});
+
+route('GET', '/labels/:file', undefined, ({ params }) => {
+  const orderId = params.file.replace(/\.pdf$/, '');
+  return pdfResponse(buildLabelPdf([labelLines(orderId, 'thermal')]), `${orderId}.pdf`);
+});
+
+route('GET', '/orders/label-history', VENDOR, ({ user, query }) => {
+  const orderId = query.get('order_id') || '';
+  if (!db.orders.some((order) => order.order_id === orderId && order.claimed_by === user!.warehouseId)) {
+    return fail(404, 'Order not found in your claimed orders');
+  }
+  const history = db.labelHistory
+    .filter((event) => event.order_id === orderId)
+    .sort((a, b) => b.downloaded_at.localeCompare(a.downloaded_at));
+  return ok({ order_id: orderId, history });
+});
+
+route('POST', '/orders/label-history', VENDOR, ({ user, body, origin }) => {
+  const orderIds: string[] = body?.order_ids || [];
+  const now = new Date().toISOString();
+  const recorded = orderIds.filter((orderId) => {
+    const line = db.orders.find((order) => order.order_id === orderId && order.claimed_by === user!.warehouseId);
+    if (!line) return false;
+    db.labelHistory.push({
+      id: nextId('LH'),
+      order_id: orderId,
+      format: body?.format || 'thermal',
+      merged: Boolean(body?.merged),
+      source: body?.source || 'single',
+      // Merged downloads send one URL per order; older clients sent none - the backend knows where each label lives
+      shipping_url: body?.shipping_urls?.[orderId] || body?.shipping_url ||
+        (line.label_downloaded === 1 ? `${origin}/api/mock/labels/${orderId}.pdf` : null),
+      awb: line.awb,
+      downloaded_by: user!.id,
+      downloaded_by_name: user!.name,
+      downloaded_at: now,
+    });
+    return true;
+  });
+  return ok({ recorded: recorded.length }, `Recorded ${recorded.length} label download(s)`);
+});
+
+// Timeline steps the mock logs itself win over the ones derived from the seeded state
+route('GET', '/orders/:orderId/timeline', ANY, ({ user, params }) => {
+  const orderId = params.orderId;
+  const lines = db.orders.filter((order) => order.order_id === orderId);
+  const logged = db.orderEvents.filter((event) => event.order_id === orderId);
+  const isVendor = user!.role === 'vendor';
+  const visible = !isVendor
+    || lines.some((line) => line.claimed_by === user!.warehouseId)
+    || logged.some((event) => event.actor_id === user!.id);
+  if (!lines.length || !visible) return fail(404, 'Order not found');
+
+  const events: any[] = logged.map((event) => ({ ...event, status: null }));
+  const hasLogged = (type: MockOrderEvent['type'], uniqueId?: string) =>
+    logged.some((event) => event.type === type && (!uniqueId || event.unique_id === uniqueId));
+  const derive = (type: string, at: string | null, details: Record<string, any> = {}) => {
+    if (at) events.push({ id: `${orderId}-${type}-${events.length}`, order_id: orderId, type, at, ...details });
+  };
+
+  const first = lines[0];
+  const claimedAt = lines.map((line) => line.claimed_at).filter(Boolean).sort()[0] || null;
+  derive('created', first.created_at || first.order_date, { description: `${lines.length} item(s)` });
+  lines.forEach((line) => {
+    if (line.claimed_at && !hasLogged('claimed', line.unique_id) && !hasLogged('assigned', line.unique_id)) {
+      derive('claimed', line.claimed_at, { unique_id: line.unique_id, actor_name: line.vendor_name, description: line.product_code });
+    }
+  });
+  if (first.label_downloaded === 1 && !hasLogged('label-generated')) {
+    derive('label-generated', claimedAt, { description: first.awb ? `${first.carrier_name} - ${first.awb}` : null });
+  }
+  if (first.is_manifest === 1 && !hasLogged('manifested')) {
+    derive('manifested', claimedAt, { description: first.manifest_id });
+  }
+  if (first.is_handover === 1) {
+    derive('handover', claimedAt, { actor_name: first.vendor_name });
+  }
+  if (first.current_shipment_status) {
+    derive('shipment-status', claimedAt, { status: first.current_shipment_status, description: first.awb });
+  }
+  db.labelHistory.filter((entry) => entry.order_id === orderId).forEach((entry) => {
+    derive('label-downloaded', entry.downloaded_at, {
+      actor_id: entry.downloaded_by,
+      actor_name: entry.downloaded_by_name,
+      description: `${entry.format}${entry.merged ? ' (merged)' : ''} - ${entry.source}`,
+    });
+  });
+  db.rtoFocusOrders.filter((rto) => rto.order_id === orderId).forEach((rto) => {
+    derive('rto', rto.activity_date || rto.created_at, { status: rto.order_status, description: rto.rto_wh ? `Returning to ${rto.rto_wh}` : null });
+  });
+  // Handed-over orders are paid out in the vendor's next settlement request
+  const vendor = db.users.find((candidate) => candidate.warehouseId === first.claimed_by);
+  const settlement = first.is_handover === 1 && vendor
+    ? db.settlements
+      .filter((candidate) => candidate.vendorId === vendor.id && (!claimedAt || candidate.createdAt >= claimedAt))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0]
+    : undefined;
+  if (settlement) {
+    derive('settlement', settlement.createdAt, { status: settlement.status, description: `${settlement.id} - ₹${settlement.amount}` });
+  }
+
+  events.sort((a, b) => a.at.localeCompare(b.at));
+  return ok({ order_id: orderId, events });
+});
+
+route('POST', '/orders/prepare-android-download', ANY, ({ body }) => {
+  const token = nextId('dl-');
+  db.tempDownloads.set(token, new Uint8Array(Buffer.from(body?.pdf_base64 || '', 'base64')));
+  return Response.json({ success: true, token });
+});
+
+route('GET', '/orders/temp-download/:token', undefined, ({ params }) => {
+  const pdf = db.tempDownloads.get(params.token);
+  if (!pdf) return fail(404, 'Download link expired');
+  db.tempDownloads.delete(params.token);
+  return pdfResponse(pdf, 'labels.pdf');
+});
+
+route('GET', '/tasks/:id', ANY, ({ params }) => {
+  const task = db.tasks.get(params.id);
+  return task ? Response.json({ success: true, task }) : fail(404, 'Task not found');
+});
+
+route('DELETE', '/tasks/:id', ANY, ({ params }) => {
+  db.tasks.delete(params.id);
+  return ok(null, 'Task removed');
+});
+
+// ---------- Admin orders ----------
+
+function filterAdminOrders(query: URLSearchParams): MockOrder[] {
+  const search = (query.get('search') || '').toLowerCase();
+  const statuses = query.getAll('status');
+  const vendors = query.getAll('vendor');
+  const stores = query.getAll('store');
+  const dateFrom = query.get('dateFrom');
+  const dateTo = query.get('dateTo');
+  const showInactiveStores = query.get('showInactiveStores') === 'true';
+
+  return db.orders
+    .filter((order) =>
+      (showInactiveStores || order.store_status === 'active') &&
+      (!search || [order.order_id, order.product_name, order.customer_name, order.vendor_name || ''].some((value) => value.toLowerCase().includes(search))) &&
+      (statuses.length === 0 || statuses.includes(order.claims_status)) &&
+      (vendors.length === 0 || vendors.includes(order.claimed_by || '') || vendors.includes(order.vendor_name || '')) &&
+      (stores.length === 0 || stores.includes(order.account_code)) &&
+      (!dateFrom || order.order_date.slice(0, 10) >= dateFrom) &&
+      (!dateTo || order.order_date.slice(0, 10) <= dateTo)
+    )
+    .sort((a, b) => b.order_date.localeCompare(a.order_date));
+}
+
+route('GET', '/orders/admin/all', ADMIN, ({ query }) => {
+  const orders = filterAdminOrders(query);
+  const { items, pagination } = paginate(orders, query);
+  return ok({ orders: items.map(toOrderRow), pagination: { ...pagination, totalQuantity: sumQuantity(orders) } });
+});
+
+route('GET', '/orders/admin/dashboard-stats', ADMIN, ({ query }) => {
+  const orders = filterAdminOrders(query);
+  const hasFilters = ['search', 'dateFrom', 'dateTo', 'status', 'vendor', 'store'].some((key) => query.has(key));
+  return ok({
+    totalOrders: orders.length,
+    totalQuantity: sumQuantity(orders),
+    claimedOrders: orders.filter((order) => order.claims_status !== 'unclaimed').length,
+    unclaimedOrders: orders.filter((order) => order.claims_status === 'unclaimed').length,
+    hasFilters,
+  });
+});
+
+route('POST', '/orders/admin/refresh', ADMIN, ({ body }) => {
+  touch();
+  return body?.async ? completeTask({ success: true, message: 'Orders refreshed' }) : ok({}, 'Orders refreshed');
+});
+
+route('GET', '/orders/distinct-statuses', ADMIN, () => ok(Array.from(new Set(db.orders.map((order) => order.claims_status)))));
+
+function assignLine(uniqueId: string, warehouseId: string, admin: MockUser): boolean {
+  const line = db.orders.find((order) => order.unique_id === uniqueId);
+  const vendor = db.users.find((user) => user.warehouseId === warehouseId);
+  if (!line || !vendor) return false;
+  Object.assign(line, { claims_status: 'claimed', claimed_by: warehouseId, claimed_at: new Date().toISOString(), vendor_name: vendor.name });
+  logOrderEvent(line, 'assigned', admin, `${line.product_code} assigned to ${vendor.name}`);
+  publishFeedEvent('order-claimed', { unique_id: line.unique_id, order_id: line.order_id, claimed_by: warehouseId });
+  return true;
+}
+
+route('POST', '/orders/admin/assign', ADMIN, ({ user, body }) => {
+  if (!assignLine(body?.unique_id, body?.vendor_warehouse_id, user!)) return fail(404, 'Order or vendor not found');
+  touch();
+  return ok(null, 'Order assigned');
+});
+
+route('POST', '/orders/admin/bulk-assign', ADMIN, ({ user, body }) => {
+  const assigned = (body?.unique_ids || []).filter((uniqueId: string) => assignLine(uniqueId, body?.vendor_warehouse_id, user!)).length;
+  touch();
+  return ok({ assigned }, `Assigned ${assigned} orders`);
+});
+
+const unassign = (uniqueIds: string[], admin: MockUser) => {
+  const lines = db.orders.filter((order) => uniqueIds.includes(order.unique_id) && order.claims_status !== 'unclaimed');
+  lines.forEach((line) => releaseLine(line, 'unassigned', admin));
+  touch();
+  return lines.length;
+};
+route('POST', '/orders/admin/unassign', ADMIN, ({ user, body }) => unassign([body?.unique_id], user!) ? ok(null, 'Order unassigned') : fail(404, 'Order not found'));
+route('POST', '/orders/admin/bulk-unassign', ADMIN, ({ user, body }) => {
+  const count = unassign(body?.unique_ids || [], user!);
+  return ok({ unassigned: count }, `Unassigned ${count} orders`);
+});
+
+// ---------- Shipway / carriers ----------
+
+route('GET', '/shipway/warehouse/:id', ADMIN, ({ params }) => ok({ warehouse_id: params.id, name: `Warehouse ${params.id}` }));
+route('GET', '/shipway/validate/:id', ADMIN, ({ params }) => ok({ valid: true, warehouse_id: params.id }));
+route('POST', '/shipway/validate-warehouse', ADMIN, ({ body }) => ok({ warehouse: { warehouse_id: body?.warehouseId, city: 'Mumbai', pincode: '400053' } }, 'Warehouse is valid'));
+route('GET', '/shipway/test-connection', ADMIN, () => ok({ connected: true }, 'Shipway connection OK (mock)'));
+route('GET', '/shipway/stats', ADMIN, () => ok({ warehouses: db.whMappings.length, carriers: db.carriers.length }));
+route('GET', '/shipway/verify-warehouse/:id', ANY, () => ok({ address: 'Unit 12, Andheri Industrial Estate', city: 'Mumbai', pincode: '400053', state: 'Maharashtra', country: 'India' }));
+
+route('GET', '/shipway/carriers/local', ADMIN, ({ query }) => {
+  const accountCode = query.get('account_code');
+  const carriers = db.carriers
+    .filter((carrier) => !accountCode || carrier.account_code === accountCode)
+    .sort((a, b) => a.account_code.localeCompare(b.account_code) || a.priority - b.priority);
+  return ok({ carriers });
+});
+
+route('POST', '/shipway/carriers/sync', ADMIN, () => ok({ synced: db.carriers.length }, 'Carriers synced (mock)'));
+route('GET', '/shipway/carriers/status', ADMIN, () => ok({ total: db.carriers.length, active: db.carriers.filter((carrier) => carrier.status === 'active').length }));
+route('GET', '/shipway/carrier-format', ADMIN, () => ok({ expectedColumns: ['carrier_id', 'carrier_name', 'status', 'priority', 'account_code'] }));
+
+route('GET', '/shipway/carriers/download', ADMIN, () => {
+  const rows = db.carriers.map((carrier) => [carrier.carrier_id, carrier.carrier_name, carrier.status, carrier.priority, carrier.account_code].join(','));
+  return new Response(['carrier_id,carrier_name,status,priority,account_code', ...rows].join('\n'), {
+    headers: { 'Content-Type': 'text/csv', 'Content-Disposition': 'attachment; filename="carriers.csv"' },
+  });
+});
+
+route('POST', '/shipway/carriers/upload-priority', ADMIN, () => ok({ updated: 0 }, 'Priorities uploaded (mock - no changes applied)'));
+
+route('PUT', '/shipway/carriers/:id', ADMIN, ({ params, body }) => {
+  const carrier = db.carriers.find((candidate) => candidate.carrier_id === decodeURIComponent(params.id));
+  if (!carrier) return fail(404, 'Carrier not found');
+  Object.assign(carrier, body);
+  return ok(carrier, 'Carrier updated');
+});
+
+route('DELETE', '/shipway/carriers/:id', ADMIN, ({ params }) => {
+  db.carriers = db.carriers.filter((carrier) => carrier.carrier_id !== decodeURIComponent(params.id));
+  return ok(null, 'Carrier deleted');
+});
+
+route('POST', '/shipway/carriers/:id/move', ADMIN, ({ params, body }) => {
+  const storeCarriers = db.carriers.filter((carrier) => carrier.account_code === body?.account_code).sort((a, b) => a.priority - b.priority);
+  const index = storeCarriers.findIndex((carrier) => carrier.carrier_id === decodeURIComponent(params.id));
+  const swapIndex = body?.direction === 'up' ? index - 1 : index + 1;
+  if (index === -1 || swapIndex < 0 || swapIndex >= storeCarriers.length) return fail(400, 'Cannot move carrier further');
+  const priority = storeCarriers[index].priority;
+  storeCarriers[index].priority = storeCarriers[swapIndex].priority;
+  storeCarriers[swapIndex].priority = priority;
+  return ok(null, 'Carrier moved');
+});
+
+// ---------- Stores ----------
+
+route('GET', '/stores/list-for-filter', ANY, () => ok(db.stores.map(({ account_code, store_name, status }) => ({ account_code, store_name, status }))));
+route('GET', '/stores', ADMIN, () => ok(db.stores));
+route('GET', '/stores/shipping-partners', ADMIN, () => ok(['Shipway', 'Shiprocket']));
+route('POST', '/stores/test-shipway', ADMIN, () => ok({ message: 'Shipway credentials are valid (mock)' }));
+route('POST', '/stores/test-shopify', ADMIN, () => ok({ message: 'Shopify credentials are valid (mock)' }));
+
+route('POST', '/stores', SUPERADMIN, ({ body }) => {
+  const store: MockStore = {
+    id: db.stores.length + 1,
+    account_code: body?.account_code || nextId('STORE'),
+    store_name: body?.store_name || 'New Store',
+    status: body?.status || 'active',
+    username: body?.username || '',
+    shipping_partner: body?.shipping_partner || 'Shipway',
+    last_synced_at: new Date().toISOString(),
+    shopify_brands: [],
+  };
+  db.stores.push(store);
+  return ok(store, 'Store created');
+});
+
+route('GET', '/stores/:code', ADMIN, ({ params }) => {
+  const store = db.stores.find((candidate) => candidate.account_code === params.code);
+  return store ? ok(store) : fail(404, 'Store not found');
+});
+
+route('PUT', '/stores/:code', SUPERADMIN, ({ params, body }) => {
+  const store = db.stores.find((candidate) => candidate.account_code === params.code);
+  if (!store) return fail(404, 'Store not found');
+  Object.assign(store, body);
+  return ok(store, 'Store updated');
+});
+
+route('DELETE', '/stores/:code', SUPERADMIN, ({ params }) => {
+  db.stores = db.stores.filter((store) => store.account_code !== params.code);
+  return ok(null, 'Store deleted');
+});
+
+route('PATCH', '/stores/:code/toggle-status', SUPERADMIN, ({ params }) => {
+  const store = db.stores.find((candidate) => candidate.account_code === params.code);
+  if (!store) return fail(404, 'Store not found');
+  store.status = store.status === 'active' ? 'inactive' : 'active';
+  db.orders.filter((order) => order.account_code === store.account_code).forEach((order) => { order.store_status = store.status; });
+  return ok(store, `Store ${store.status === 'active' ? 'activated' : 'deactivated'}`);
+});
+
+// ---------- Warehouse mapping ----------
+
+route('GET', '/warehouse-mapping', ADMIN, ({ query }) => {
+  const includeInactive = query.get('includeInactive') !== 'false';
+  return ok(db.whMappings.filter((mapping) => includeInactive || mapping.is_active === 1));
+});
+
+route('GET', '/warehouse-mapping/vendors', ADMIN, () => ok(
+  db.users.filter((user) => user.role === 'vendor').map((vendor) => ({ warehouse_id: vendor.warehouseId, name: vendor.name }))
+));
+
+route('GET', '/warehouse-mapping/stores', ADMIN, () => ok(db.stores));
+
+route('POST', '/warehouse-mapping/validate', ADMIN, ({ body }) => ok({ warehouse: { warehouse_id: body?.vendor_wh_id, account_code: body?.account_code } }, 'Warehouse is valid'));
+
+route('POST', '/warehouse-mapping', ADMIN, ({ body }) => {
+  const mapping: MockWhMapping = {
+    id: db.whMappings.reduce((max, existing) => Math.max(max, existing.id), 0) + 1,
+    claimio_wh_id: body?.claimio_wh_id,
+    vendor_wh_id: body?.vendor_wh_id,
+    account_code: body?.account_code,
+    return_warehouse_id: body?.return_warehouse_id || '',
+    is_active: 1,
+  };
+  db.whMappings.push(mapping);
+  return ok(mapping, 'Mapping created');
+});
+
+route('DELETE', '/warehouse-mapping/:id', ADMIN, ({ params }) => {
+  const mapping = db.whMappings.find((candidate) => candidate.id === Number(params.id));
+  if (!mapping) return fail(404, 'Mapping not found');
+  mapping.is_active = 0;
+  return ok(null, 'Mapping deactivated');
+});
+
+// ---------- Settlements ----------
+
+// Share of the order value paid out to the vendor, and the charge for a returned (RTO) shipment
+const VENDOR_PAYOUT_SHARE = 0.4;
+const RTO_DEDUCTION = 80;
+
+interface MockLedgerEntry {
+  id: string;
+  entry_type: 'order' | 'settlement';
+  bucket: 'payable' | 'future' | 'rto' | 'settlement';
+  date: string;
+  order_id: string | null;
+  delivered_at: string | null;
+  shipment_status: string | null;
+  settlement_id: string | null;
+  settlement_status: string | null;
+  amount: number;
+  rto_deduction: number;
+  balance_effect: number;
+  balance: number;
+}
+
+// Every order and settlement request that moves the vendor's payable balance, oldest first
+function vendorLedger(user: MockUser): MockLedgerEntry[] {
+  const lines = db.orders.filter((order) =>
+    order.claimed_by === user.warehouseId && (order.is_handover === 1 || order.current_shipment_status === 'Delivered')
+  );
+  const groups = new Map<string, MockOrder[]>();
+  lines.forEach((line) => groups.set(line.order_id, [...(groups.get(line.order_id) || []), line]));
+
+  const entries: MockLedgerEntry[] = Array.from(groups.values()).map((group) => {
+    const first = group[0];
+    const status = first.current_shipment_status || '';
+    const amount = Math.round(group.reduce((total, line) => total + line.value * line.quantity * VENDOR_PAYOUT_SHARE, 0));
+    const scans = createMockScanEvents(first);
+    const base = {
+      id: `order-${first.order_id}`,
+      entry_type: 'order' as const,
+      order_id: first.order_id,
+      delivered_at: scans.delivered_at,
+      shipment_status: first.current_shipment_status,
+      settlement_id: null,
+      settlement_status: null,
+      amount,
+      balance: 0,
+    };
+    if (status === 'Delivered') {
+      return { ...base, bucket: 'payable' as const, date: scans.delivered_at || scans.events[0].scanned_at, rto_deduction: 0, balance_effect: amount };
+    }
+    if (status.startsWith('RTO')) {
+      return { ...base, bucket: 'rto' as const, date: scans.events[0].scanned_at, rto_deduction: RTO_DEDUCTION, balance_effect: -RTO_DEDUCTION };
+    }
+    return { ...base, bucket: 'future' as const, date: first.claimed_at || first.order_date, rto_deduction: 0, balance_effect: 0 };
+  });
+
+  db.settlements
+    .filter((settlement) => settlement.vendorId === user.id && settlement.status !== 'rejected')
+    .forEach((settlement) => entries.push({
+      id: `settlement-${settlement.id}`,
+      entry_type: 'settlement',
+      bucket: 'settlement',
+      date: settlement.createdAt,
+      order_id: null,
+      delivered_at: null,
+      shipment_status: null,
+      settlement_id: settlement.id,
+      settlement_status: settlement.status,
+      amount: settlement.amount,
+      rto_deduction: 0,
+      balance_effect: -settlement.amount,
+      balance: 0,
+    }));
+
+  entries.sort((a, b) => a.date.localeCompare(b.date));
+  let balance = 0;
+  entries.forEach((entry) => {
+    balance += entry.balance_effect;
+    entry.balance = balance;
+  });
+  return entries;
+}
+
+function vendorEarnings(user: MockUser) {
+  const entries = vendorLedger(user);
+  return {
+    currentPayment: Math.max(0, entries.length ? entries[entries.length - 1].balance : 0),
+    futurePayment: entries.filter((entry) => entry.bucket === 'future').reduce((total, entry) => total + entry.amount, 0),
+  };
+}
+
+route('GET', '/settlements/vendor/payments', VENDOR, ({ user }) => {
+  runDueSettlementCycles();
+  return ok(vendorEarnings(user!));
+});
+
+// ---------- Payout methods ----------
+
+const UPI_ID_PATTERN = /^[a-z0-9._-]{2,}@[a-z]{2,}$/i;
+const ACCOUNT_NUMBER_PATTERN = /^\d{9,18}$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+// Bank behind the first four letters of an IFSC - enough for the fixtures and manual testing
+const IFSC_BANKS: Record<string, string> = {
+  HDFC: 'HDFC Bank', ICIC: 'ICICI Bank', SBIN: 'State Bank of India', UTIB: 'Axis Bank',
+  KKBK: 'Kotak Mahindra Bank', PUNB: 'Punjab National Bank', BARB: 'Bank of Baroda', YESB: 'Yes Bank',
+};
+
+function maskUpiId(upiId: string | null): string | null {
+  if (!upiId) return null;
+  const [handle, provider] = upiId.split('@');
+  return `${handle.slice(0, 2)}${'*'.repeat(Math.max(handle.length - 2, 3))}@${provider}`;
+}
+
+function maskAccountNumber(accountNumber: string | null): string | null {
+  return accountNumber ? `${'X'.repeat(Math.max(accountNumber.length - 4, 4))}${accountNumber.slice(-4)}` : null;
+}
+
+// Vendors only ever get the masked UPI ID / account number back
+function payoutMethodView(method: MockPayoutMethod) {
+  const { vendorId, ...view } = method;
+  return { ...view, upiId: maskUpiId(method.upiId), accountNumber: maskAccountNumber(method.accountNumber) };
+}
+
+function maskBeneficiary(beneficiary: MockBeneficiary | null): MockBeneficiary | null {
+  return beneficiary && { ...beneficiary, upiId: maskUpiId(beneficiary.upiId), accountNumber: maskAccountNumber(beneficiary.accountNumber) };
+}
+
+function vendorPayoutMethods(user: MockUser): MockPayoutMethod[] {
+  return db.payoutMethods.filter((method) => method.vendorId === user.id);
+}
+
+function findPayoutMethod(user: MockUser, id: string): MockPayoutMethod | undefined {
+  return vendorPayoutMethods(user).find((method) => method.id === id);
+}
+
+const normalizeName = (name: string) => name.toUpperCase().replace(/[^A-Z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+
+route('GET', '/settlements/vendor/payout-methods', VENDOR, ({ user }) => ok(vendorPayoutMethods(user!).map(payoutMethodView)));
+
+route('POST', '/settlements/vendor/payout-methods', VENDOR, ({ user, body }) => {
+  const existing = vendorPayoutMethods(user!);
+  const method: MockPayoutMethod = {
+    id: nextId('PM'),
+    vendorId: user!.id,
+    type: body?.type === 'bank' ? 'bank' : 'upi',
+    upiId: null,
+    accountHolderName: null,
+    accountNumber: null,
+    ifsc: null,
+    bankName: null,
+    verificationStatus: 'pending',
+    verifiedName: null,
+    verifiedAt: null,
+    failureReason: null,
+    isDefault: false,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (method.type === 'upi') {
+    const upiId = String(body?.upiId || '').trim().toLowerCase();
+    if (!UPI_ID_PATTERN.test(upiId)) return fail(400, 'Enter a valid UPI ID, e.g. name@bank');
+    if (existing.some((candidate) => candidate.upiId === upiId)) return fail(409, 'This UPI ID is already saved');
+    method.upiId = upiId;
+  } else {
+    const accountNumber = String(body?.accountNumber || '').replace(/\s/g, '');
+    const ifsc = String(body?.ifsc || '').trim().toUpperCase();
+    const accountHolderName = String(body?.accountHolderName || '').trim();
+    if (!accountHolderName) return fail(400, 'Account holder name is required');
+    if (!ACCOUNT_NUMBER_PATTERN.test(accountNumber)) return fail(400, 'Account number must be 9 to 18 digits');
+    if (!IFSC_PATTERN.test(ifsc)) return fail(400, 'Enter a valid 11 character IFSC code');
+    if (existing.some((candidate) => candidate.accountNumber === accountNumber && candidate.ifsc === ifsc)) {
+      return fail(409, 'This bank account is already saved');
+    }
+    Object.assign(method, { accountHolderName, accountNumber, ifsc, bankName: IFSC_BANKS[ifsc.slice(0, 4)] || null });
+  }
+
+  db.payoutMethods.push(method);
+  return ok(payoutMethodView(method), 'Payout method added - verify it to use it for settlements');
+});
+
+// Stand-in for the penny-drop / VPA lookup: UPI IDs resolve to the vendor's name, bank
+// accounts fail when the holder name shares no word with the registered business name
+route('POST', '/settlements/vendor/payout-methods/:id/verify', VENDOR, ({ user, params }) => {
+  const method = findPayoutMethod(user!, params.id);
+  if (!method) return fail(404, 'Payout method not found');
+
+  const businessWords = normalizeName(user!.name).split(' ');
+  const holderName = normalizeName(method.accountHolderName || '');
+  const matches = method.type === 'upi' || holderName.split(' ').some((word) => word.length > 2 && businessWords.includes(word));
+  if (!matches) {
+    Object.assign(method, { verificationStatus: 'failed', verifiedName: null, verifiedAt: null, failureReason: 'Account holder name does not match the registered business' });
+    return ok(payoutMethodView(method), 'Verification failed');
+  }
+
+  Object.assign(method, {
+    verificationStatus: 'verified',
+    verifiedName: method.type === 'upi' ? normalizeName(user!.name) : holderName,
+    verifiedAt: new Date().toISOString(),
+    failureReason: null,
+  });
+  // The first verified method becomes the default one
+  if (!vendorPayoutMethods(user!).some((candidate) => candidate.isDefault && candidate.verificationStatus === 'verified')) {
+    vendorPayoutMethods(user!).forEach((candidate) => { candidate.isDefault = candidate.id === method.id; });
+  }
+  return ok(payoutMethodView(method), 'Payout method verified');
+});
+
+route('POST', '/settlements/vendor/payout-methods/:id/default', VENDOR, ({ user, params }) => {
+  const method = findPayoutMethod(user!, params.id);
+  if (!method) return fail(404, 'Payout method not found');
+  if (method.verificationStatus !== 'verified') return fail(400, 'Only verified payout methods can be the default');
+  vendorPayoutMethods(user!).forEach((candidate) => { candidate.isDefault = candidate.id === method.id; });
+  return ok(payoutMethodView(method), 'Default payout method updated');
+});
+
+route('DELETE', '/settlements/vendor/payout-methods/:id', VENDOR, ({ user, params }) => {
+  const method = findPayoutMethod(user!, params.id);
+  if (!method) return fail(404, 'Payout method not found');
+  db.payoutMethods = db.payoutMethods.filter((candidate) => candidate !== method);
+  if (method.isDefault) {
+    const next = vendorPayoutMethods(user!).find((candidate) => candidate.verificationStatus === 'verified');
+    if (next) next.isDefault = true;
+  }
+  return ok(null, 'Payout method removed');
+});
+
+// ---------- Settlement requests and cycles ----------
+
+const SETTLEMENT_CYCLES: SettlementCycle[] = ['manual', 'weekly', 'fortnightly'];
+
+function logSettlementEvent(
+  settlement: MockSettlement,
+  type: MockSettlementEvent['type'],
+  actorName: string | null,
+  amount: number | null = null,
+  note: string | null = null,
+) {
+  settlement.events.push({ type, at: new Date().toISOString(), actorName, amount, note });
+}
+
+function createSettlement(user: MockUser, method: MockPayoutMethod, amount: number, source: MockSettlement['source']): MockSettlement {
+  const settlement: MockSettlement = {
+    id: nextId(),
+    vendorId: user.id,
+    vendorName: user.name,
+    source,
+    amount,
+    amountPaid: null,
+    status: 'pending',
+    paymentStatus: 'pending',
+    upiId: method.upiId,
+    beneficiary: toBeneficiary(method),
+    transactionId: null,
+    paymentProofPath: null,
+    rejectionReason: null,
+    payments: [],
+    events: [],
+    createdAt: new Date().toISOString(),
+  };
+  if (source === 'vendor') {
+    logSettlementEvent(settlement, 'requested', user.name, amount);
+  } else {
+    logSettlementEvent(settlement, 'auto-requested', null, amount, `${source === 'weekly' ? 'Weekly' : 'Fortnightly'} settlement cycle`);
+  }
+  db.settlements.push(settlement);
+  return settlement;
+}
+
+// Stand-in for the backend scheduler: raise a request for every vendor whose cycle is due,
+// paying the whole current balance to their default verified payout method
+function runDueSettlementCycles() {
+  const now = new Date();
+  db.settlementSchedules
+    .filter((schedule) => schedule.cycle !== 'manual' && schedule.nextRunAt && new Date(schedule.nextRunAt) <= now)
+    .forEach((schedule) => {
+      const vendor = db.users.find((user) => user.id === schedule.vendorId);
+      if (!vendor) return;
+      const method = vendorPayoutMethods(vendor).find((candidate) => candidate.isDefault && candidate.verificationStatus === 'verified');
+      const { currentPayment } = vendorEarnings(vendor);
+      if (!method) {
+        schedule.lastRunNote = 'Skipped - no verified default payout method';
+      } else if (currentPayment <= 0) {
+        schedule.lastRunNote = 'Skipped - nothing payable';
+      } else {
+        const settlement = createSettlement(vendor, method, currentPayment, schedule.cycle as MockSettlement['source']);
+        schedule.lastRunNote = `Raised settlement request #${settlement.id}`;
+      }
+      schedule.lastRunAt = now.toISOString();
+      schedule.nextRunAt = nextSettlementRun(schedule.cycle, now);
+    });
+}
+
+function remainingAmount(settlement: MockSettlement): number {
+  return settlement.status === 'rejected' ? 0 : Math.max(0, settlement.amount - (settlement.amountPaid || 0));
+}
+
+// What the settlement endpoints return; vendors get the beneficiary masked
+function settlementView(settlement: MockSettlement, masked: boolean = false) {
+  return {
+    ...settlement,
+    beneficiary: masked ? maskBeneficiary(settlement.beneficiary) : settlement.beneficiary,
+    remainingAmount: remainingAmount(settlement),
+  };
+}
+
+// Record a payment (the first one comes with the approval) and move the payment status along
+function recordSettlementPayment(settlement: MockSettlement, admin: MockUser, body: any) {
+  const amount = Math.round(Number(body?.amountPaid) * 100) / 100;
+  const payment = {
+    id: nextId('PAY'),
+    amount,
+    transactionId: body?.transactionId || null,
+    paymentProofPath: body?.paymentProof ? `proof-${settlement.id}-${settlement.payments.length + 1}.png` : null,
+    paidAt: body?.paidAt || new Date().toISOString(),
+    paidBy: admin.name,
+    statementName: body?.statementName || null,
+    statementRow: body?.statementRow || null,
+  };
+  settlement.payments.push(payment);
+  settlement.amountPaid = settlement.payments.reduce((total, candidate) => total + candidate.amount, 0);
+  settlement.paymentStatus = remainingAmount(settlement) > 0 ? 'settled_partially' : 'settled_fully';
+  // Latest payment's reference stays on the request for older clients
+  settlement.transactionId = payment.transactionId;
+  settlement.paymentProofPath = payment.paymentProofPath || settlement.paymentProofPath;
+  logSettlementEvent(settlement, 'payment', admin.name, amount, payment.transactionId);
+  if (settlement.paymentStatus === 'settled_fully') logSettlementEvent(settlement, 'settled', admin.name);
+}
+
+route('GET', '/settlements/vendor/schedule', VENDOR, ({ user }) => {
+  runDueSettlementCycles();
+  const schedule = db.settlementSchedules.find((candidate) => candidate.vendorId === user!.id);
+  return ok(schedule || { vendorId: user!.id, cycle: 'manual', nextRunAt: null, lastRunAt: null, lastRunNote: null });
+});
+
+route('PUT', '/settlements/vendor/schedule', VENDOR, ({ user, body }) => {
+  const cycle = body?.cycle as SettlementCycle;
+  if (!SETTLEMENT_CYCLES.includes(cycle)) return fail(400, 'Settlement cycle must be manual, weekly or fortnightly');
+  let schedule = db.settlementSchedules.find((candidate) => candidate.vendorId === user!.id);
+  if (!schedule) {
+    schedule = { vendorId: user!.id, cycle, nextRunAt: null, lastRunAt: null, lastRunNote: null };
+    db.settlementSchedules.push(schedule);
+  }
+  schedule.cycle = cycle;
+  schedule.nextRunAt = nextSettlementRun(cycle);
+  return ok(schedule, cycle === 'manual' ? 'Automatic settlements turned off' : 'Settlement cycle updated');
+});
+
+route('POST', '/settlements/vendor/request', VENDOR, ({ user, body }) => {
+  const { currentPayment } = vendorEarnings(user!);
+  if (currentPayment <= 0) return fail(400, 'No payment available to settle');
+  const method = findPayoutMethod(user!, String(body?.payoutMethodId || ''));
+  if (!method) return fail(400, 'Choose a payout method for this settlement');
+  if (method.verificationStatus !== 'verified') return fail(400, 'This payout method is not verified yet');
+  const settlement = createSettlement(user!, method, currentPayment, 'vendor');
+  return ok(settlementView(settlement, true), 'Settlement request submitted');
+});
+
+route('GET', '/settlements/vendor/history', VENDOR, ({ user }) => {
+  runDueSettlementCycles();
+  return ok(
+    db.settlements
+      .filter((settlement) => settlement.vendorId === user!.id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((settlement) => settlementView(settlement, true))
+  );
+});
+
+// One line per payment - a partially paid request shows up once for every part
+route('GET', '/settlements/vendor/transactions', VENDOR, ({ user }) => ok(
+  db.settlements
+    .filter((settlement) => settlement.vendorId === user!.id && settlement.status === 'approved')
+    .flatMap((settlement) => settlement.payments.map((payment) => ({
+      id: payment.id,
+      settlementId: settlement.id,
+      amount: payment.amount,
+      status: settlement.paymentStatus,
+      transactionId: payment.transactionId,
+      paymentProofPath: payment.paymentProofPath,
+      createdAt: payment.paidAt,
+    })))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+));
+
+route('GET', '/settlements/vendor/ledger', VENDOR, ({ user, query }) => {
+  const entries = vendorLedger(user!);
+  const from = query.get('from') || '';
+  const to = query.get('to') || '';
+  const before = entries.filter((entry) => from && entry.date.slice(0, 10) < from);
+  const sumOf = (bucket: MockLedgerEntry['bucket'], field: 'amount' | 'rto_deduction' = 'amount') =>
+    entries.filter((entry) => entry.bucket === bucket).reduce((total, entry) => total + entry[field], 0);
+  const { currentPayment, futurePayment } = vendorEarnings(user!);
+  return ok({
+    entries: entries.filter((entry) => (!from || entry.date.slice(0, 10) >= from) && (!to || entry.date.slice(0, 10) <= to)),
+    opening_balance: before.length ? before[before.length - 1].balance : 0,
+    summary: {
+      payable: currentPayment,
+      future: futurePayment,
+      rto_deductions: sumOf('rto', 'rto_deduction'),
+      settled: sumOf('settlement'),
+    },
+  });
+});
+
+// Status / vendor / request-date filters of the admin settlements tab, shared with the CSV export
+function filterSettlements(query: URLSearchParams, ignoreStatus: boolean = false) {
+  const status = ignoreStatus ? null : query.get('status');
+  const vendorName = (query.get('vendorName') || '').toLowerCase();
+  return db.settlements
+    .filter((settlement) =>
+      (!status || status === 'all' || settlement.status === status) &&
+      (!vendorName || settlement.vendorName.toLowerCase().includes(vendorName)) &&
+      (!query.get('startDate') || settlement.createdAt.slice(0, 10) >= query.get('startDate')!) &&
+      (!query.get('endDate') || settlement.createdAt.slice(0, 10) <= query.get('endDate')!)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Totals across every status so the cards don't go blank when the status filter is set
+function settlementSummary(settlements: MockSettlement[]) {
+  const sumOf = (items: MockSettlement[], amountOf: (settlement: MockSettlement) => number) =>
+    Math.round(items.reduce((total, settlement) => total + amountOf(settlement), 0) * 100) / 100;
+  const pending = settlements.filter((settlement) => settlement.status === 'pending');
+  const approved = settlements.filter((settlement) => settlement.status === 'approved');
+  const monthStart = new Date();
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+  const paidThisMonth = settlements.flatMap((settlement) => settlement.payments).filter((payment) => new Date(payment.paidAt) >= monthStart);
+  return {
+    pending: { count: pending.length, amount: sumOf(pending, (settlement) => settlement.amount) },
+    approved: { count: approved.length, amount: sumOf(approved, (settlement) => settlement.amount), outstanding: sumOf(approved, remainingAmount) },
+    paidThisMonth: {
+      count: paidThisMonth.length,
+      amount: Math.round(paidThisMonth.reduce((total, payment) => total + payment.amount, 0) * 100) / 100,
+    },
+  };
+}
+
+route('GET', '/settlements/admin/all', ADMIN, ({ query }) => {
+  runDueSettlementCycles();
+  const { items, pagination } = paginate(filterSettlements(query), query, 10);
+  return ok({
+    settlements: items.map((settlement) => settlementView(settlement)),
+    pagination: { totalPages: pagination.pages, totalItems: pagination.total },
+    summary: settlementSummary(filterSettlements(query, true)),
+  });
+});
+
+route('GET', '/settlements/admin/export-csv', ADMIN, ({ query }) => {
+  const rows = filterSettlements(query).map((settlement) =>
+    [
+      settlement.id, settlement.vendorName, settlement.source, settlement.amount, settlement.amountPaid ?? '', remainingAmount(settlement), settlement.status,
+      settlement.beneficiary?.upiId ?? settlement.upiId ?? '', settlement.beneficiary?.accountNumber ?? '', settlement.beneficiary?.ifsc ?? '',
+      settlement.beneficiary?.name ?? '', settlement.beneficiary?.verificationStatus ?? 'unverified', settlement.transactionId ?? '', settlement.createdAt,
+    ].join(',')
+  );
+  const header = 'id,vendor,source,amount,amount_paid,amount_remaining,status,upi_id,account_number,ifsc,beneficiary_name,beneficiary_status,transaction_id,created_at';
+  return new Response([header, ...rows].join('\n'), {
+    headers: { 'Content-Type': 'text/csv', 'Content-Disposition': 'attachment; filename="settlements.csv"' },
+  });
+});
+
+route('GET', '/settlements/admin/:id', ADMIN, ({ params }) => {
+  const settlement = db.settlements.find((candidate) => candidate.id === params.id);
+  return settlement ? ok(settlementView(settlement)) : fail(404, 'Settlement not found');
+});
+
+route('POST', '/settlements/admin/:id/approve', ADMIN, ({ user, params, body }) => {
+  const settlement = db.settlements.find((candidate) => candidate.id === params.id);
+  if (!settlement) return fail(404, 'Settlement not found');
+  if (settlement.status !== 'pending') return fail(400, `Settlement is already ${settlement.status}`);
+  const amountPaid = Number(body?.amountPaid);
+  if (!(amountPaid > 0) || amountPaid > settlement.amount) return fail(400, 'Amount paid must be between 0 and the requested amount');
+  settlement.status = 'approved';
+  logSettlementEvent(settlement, 'approved', user!.name);
+  recordSettlementPayment(settlement, user!, body);
+  return ok(settlementView(settlement), 'Settlement approved');
+});
+
+route('POST', '/settlements/admin/:id/payments', ADMIN, ({ user, params, body }) => {
+  const settlement = db.settlements.find((candidate) => candidate.id === params.id);
+  if (!settlement) return fail(404, 'Settlement not found');
+  if (settlement.status !== 'approved') return fail(400, 'Only approved settlements can receive payments');
+  const remaining = remainingAmount(settlement);
+  const amountPaid = Number(body?.amountPaid);
+  if (!(amountPaid > 0) || amountPaid > remaining) return fail(400, `Amount must be between 0 and the remaining ₹${remaining}`);
+  recordSettlementPayment(settlement, user!, body);
+  return ok(settlementView(settlement), settlement.paymentStatus === 'settled_fully' ? 'Settlement fully paid' : 'Payment recorded');
+});
+
+// Bulk approval from an imported bank statement: each match pays a pending settlement (or
+// another part of an approved one) and keeps its statement row as the proof
+route('POST', '/settlements/admin/reconcile', ADMIN, ({ user, body }) => {
+  const matches: any[] = Array.isArray(body?.matches) ? body.matches : [];
+  if (!matches.length) return fail(400, 'No matches to reconcile');
+  const approved: string[] = [];
+  const failed: { settlementId: string; message: string }[] = [];
+
+  matches.forEach((match) => {
+    const settlementId = String(match?.settlementId);
+    const settlement = db.settlements.find((candidate) => candidate.id === settlementId);
+    const amountPaid = Number(match?.amountPaid);
+    if (!settlement) {
+      failed.push({ settlementId, message: 'Settlement not found' });
+    } else if (settlement.status === 'rejected') {
+      failed.push({ settlementId, message: 'Settlement was rejected' });
+    } else if (!(amountPaid > 0) || amountPaid > remainingAmount(settlement) + 0.5) {
+      failed.push({ settlementId, message: `Amount is more than the ₹${remainingAmount(settlement)} owed` });
+    } else {
+      if (settlement.status === 'pending') {
+        settlement.status = 'approved';
+        logSettlementEvent(settlement, 'approved', user!.name, null, `Reconciled from ${body?.statementName || 'bank statement'}`);
+      }
+      recordSettlementPayment(settlement, user!, { ...match, amountPaid: Math.min(amountPaid, remainingAmount(settlement)), statementName: body?.statementName });
+      approved.push(settlementId);
+    }
+  });
+
+  return ok({ approved, failed }, `${approved.length} settlement${approved.length === 1 ? '' : 's'} reconciled`);
+});
+
+// Bulk actions of the settlements tab. Approving only accepts the requests - payments are
+// recorded against each one afterwards. Requests that are no longer pending are reported back
+function bulkUpdateSettlements(ids: string[], update: (settlement: MockSettlement) => void) {
+  const updated: string[] = [];
+  const failed: { settlementId: string; message: string }[] = [];
+  ids.forEach((settlementId) => {
+    const settlement = db.settlements.find((candidate) => candidate.id === settlementId);
+    if (!settlement) {
+      failed.push({ settlementId, message: 'Settlement not found' });
+    } else if (settlement.status !== 'pending') {
+      failed.push({ settlementId, message: `Settlement is already ${settlement.status}` });
+    } else {
+      update(settlement);
+      updated.push(settlementId);
+    }
+  });
+  return { updated, failed };
+}
+
+const bulkSettlementIds = (body: any): string[] => (Array.isArray(body?.ids) ? body.ids.map(String) : []);
+
+route('POST', '/settlements/admin/bulk-approve', ADMIN, ({ user, body }) => {
+  const ids = bulkSettlementIds(body);
+  if (!ids.length) return fail(400, 'Select at least one settlement');
+  const { updated, failed } = bulkUpdateSettlements(ids, (settlement) => {
+    settlement.status = 'approved';
+    logSettlementEvent(settlement, 'approved', user!.name, null, 'Approved in bulk - awaiting payment');
+  });
+  return ok({ updated, failed }, `${updated.length} settlement${updated.length === 1 ? '' : 's'} approved`);
+});
+
+route('POST', '/settlements/admin/bulk-reject', ADMIN, ({ user, body }) => {
+  const rejectionReason = String(body?.rejectionReason || '').trim();
+  const ids = bulkSettlementIds(body);
+  if (!ids.length) return fail(400, 'Select at least one settlement');
+  if (!rejectionReason) return fail(400, 'A rejection reason is required');
+  const { updated, failed } = bulkUpdateSettlements(ids, (settlement) => {
+    Object.assign(settlement, { status: 'rejected', rejectionReason });
+    logSettlementEvent(settlement, 'rejected', user!.name, null, rejectionReason);
+  });
+  return ok({ updated, failed }, `${updated.length} settlement${updated.length === 1 ? '' : 's'} rejected`);
+});
+
+route('POST', '/settlements/admin/:id/reject', ADMIN, ({ user, params, body }) => {
+  const settlement = db.settlements.find((candidate) => candidate.id === params.id);
+  if (!settlement) return fail(404, 'Settlement not found');
+  if (settlement.status !== 'pending') return fail(400, `Settlement is already ${settlement.status}`);
+  Object.assign(settlement, { status: 'rejected', rejectionReason: body?.rejectionReason || 'Rejected' });
+  logSettlementEvent(settlement, 'rejected', user!.name, null, settlement.rejectionReason);
+  return ok(settlementView(settlement), 'Settlement rejected');
+});
+
+route('GET', '/settlements/proof/:filename', ANY, () => {
+  // 1x1 transparent PNG - enough for the proof preview dialog
+  const png = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+  return new Response(new Uint8Array(png), { headers: { 'Content-Type': 'image/png' } });
+});
+
+// ---------- Notifications ----------
+
+route('GET', '/notifications', ADMIN, ({ query }) => {
+  const search = (query.get('search') || '').toLowerCase();
+  const notifications = db.notifications
+    .filter((notification) =>
+      (!query.get('status') || notification.status === query.get('status')) &&
+      (!query.get('type') || notification.type === query.get('type')) &&
+      (!query.get('severity') || notification.severity === query.get('severity')) &&
+      (!query.get('order_id') || notification.order_id === query.get('order_id')) &&
+      (!search || `${notification.title} ${notification.message}`.toLowerCase().includes(search))
+    )
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const { items, pagination } = paginate(notifications, query, 20);
+  return ok({ notifications: items, pagination });
+});
+
+route('GET', '/notifications/stats', ADMIN, () => {
+  const countBy = (predicate: (notification: MockNotification) => boolean) => db.notifications.filter(predicate).length;
+  const since = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  return ok({
+    overview: {
+      total: db.notifications.length,
+      pending: countBy((n) => n.status === 'pending'),
+      in_progress: countBy((n) => n.status === 'in_progress'),
+      resolved: countBy((n) => n.status === 'resolved'),
+      dismissed: countBy((n) => n.status === 'dismissed'),
+      critical: countBy((n) => n.severity === 'critical'),
+      high: countBy((n) => n.severity === 'high'),
+      medium: countBy((n) => n.severity === 'medium'),
+      low: countBy((n) => n.severity === 'low'),
+      last_24h: countBy((n) => n.created_at >= since(1)),
+      last_7days: countBy((n) => n.created_at >= since(7)),
+    },
+  });
+});
+
+route('POST', '/notifications', ANY, ({ body }) => {
+  const notification: MockNotification = {
+    id: db.notifications.reduce((max, existing) => Math.max(max, existing.id), 0) + 1,
+    type: body?.type || 'vendor_error',
+    severity: body?.severity || 'medium',
+    title: body?.title || 'Notification',
+    message: body?.message || '',
+    order_id: body?.order_id,
+    vendor_name: body?.vendor_name,
+    vendor_warehouse_id: body?.vendor_warehouse_id,
+    status: 'pending',
+    created_at: new Date().toISOString(),
+    metadata: body?.metadata,
+    error_details: body?.error_details,
+  };
+  db.notifications.push(notification);
+  return ok(notification, 'Notification created');
+});
+
+route('POST', '/notifications/bulk-resolve', ADMIN, ({ body, user }) => {
+  const ids: number[] = body?.notification_ids || [];
+  db.notifications.filter((notification) => ids.includes(notification.id)).forEach((notification) => {
+    Object.assign(notification, { status: 'resolved', resolved_by: user!.name, resolved_at: new Date().toISOString(), resolution_notes: body?.resolution_notes });
+  });
+  return ok(null, `Resolved ${ids.length} notifications`);
+});
+
+route('POST', '/notifications/subscribe', ANY, ({ user }) => {
+  db.pushSubscribers.add(user!.id);
+  return ok(null, 'Subscribed to push notifications');
+});
+
+route('POST', '/notifications/unsubscribe', ANY, ({ user }) => {
+  db.pushSubscribers.delete(user!.id);
+  return ok(null, 'Unsubscribed from push notifications');
+});
+
+route('GET', '/notifications/push-status', ANY, ({ user }) => ok({ isSubscribed: db.pushSubscribers.has(user!.id) }));
+
+route('PATCH', '/notifications/push-preference', ANY, ({ user, body }) => {
+  if (body?.enabled) db.pushSubscribers.add(user!.id);
+  else db.pushSubscribers.delete(user!.id);
+  return ok(null, 'Preference updated');
+});
+
+const findNotification = (id: string) => db.notifications.find((notification) => notification.id === Number(id));
+
+route('GET', '/notifications/:id', ADMIN, ({ params }) => {
+  const notification = findNotification(params.id);
+  return notification ? ok(notification) : fail(404, 'Notification not found');
+});
+
+route('PATCH', '/notifications/:id/status', ADMIN, ({ params, body }) => {
+  const notification = findNotification(params.id);
+  if (!notification) return fail(404, 'Notification not found');
+  notification.status = body?.status;
+  return ok(notification, 'Status updated');
+});
+
+route('POST', '/notifications/:id/resolve', ADMIN, ({ params, body, user }) => {
+  const notification = findNotification(params.id);
+  if (!notification) return fail(404, 'Notification not found');
+  Object.assign(notification, { status: 'resolved', resolved_by: user!.name, resolved_at: new Date().toISOString(), resolution_notes: body?.resolution_notes });
+  return ok(notification, 'Notification resolved');
+});
+
+route('POST', '/notifications/:id/dismiss', ADMIN, ({ params, body }) => {
+  const notification = findNotification(params.id);
+  if (!notification) return fail(404, 'Notification not found');
+  Object.assign(notification, { status: 'dismissed', resolution_notes: body?.dismiss_reason });
+  return ok(notification, 'Notification dismissed');
+});
+
+route('DELETE', '/notifications/:id', ADMIN, ({ params }) => {
+  db.notifications = db.notifications.filter((notification) => notification.id !== Number(params.id));
+  return ok(null, 'Notification deleted');
+});
+
+// ---------- Public ----------
+
+route('GET', '/public/vapid-key', undefined, () => ok({ publicKey: 'BMockVapidPublicKeyForLocalDevelopmentOnly0000000000000000000000000000000000000000000' }));
+route('GET', '/public/shipment-status-mapping', undefined, () => ok(SHIPMENT_STATUS_MAPPING));
+
+// ---------- Analytics ----------
+
+function buildAnalytics(lines: MockOrder[]) {
+  const claimed = lines.filter((line) => line.claims_status !== 'unclaimed');
+  const handedOver = claimed.filter((line) => line.is_handover === 1);
+  const distribution = new Map<string, number>();
+  handedOver.forEach((line) => {
+    const status = line.current_shipment_status || 'Others';
+    distribution.set(status, (distribution.get(status) || 0) + 1);
+  });
+
+  const trend = Array.from({ length: 14 }, (_, index) => {
+    const date = new Date(Date.now() - (13 - index) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return {
+      date,
+      claimed_count: claimed.filter((line) => (line.claimed_at || '').startsWith(date)).length,
+      count: handedOver.filter((line) => (line.claimed_at || '').startsWith(date)).length,
+    };
+  });
+
+  return {
+    stats: {
+      total_claimed: claimed.length,
+      total_handed_over: handedOver.length,
+      fulfillment_rate: claimed.length > 0 ? Math.round((handedOver.length / claimed.length) * 1000) / 10 : 0,
+      avg_handover_hours: 18.5,
+    },
+    trend,
+    distribution: Array.from(distribution.entries()).map(([status, count]) => ({ status, count })),
+  };
+}
+
+route('GET', '/analytics/admin/overview', ADMIN, ({ query }) => {
+  const vendors = query.getAll('vendorId');
+  const lines = db.orders.filter((order) => vendors.length === 0 || vendors.includes(order.claimed_by || ''));
+  return ok(buildAnalytics(lines));
+});
+
+const vendorAnalytics = ({ user, params }: MockRequest) => {
+  const warehouseId = params.vendorId || user!.warehouseId;
+  return ok(buildAnalytics(db.orders.filter((order) => order.claimed_by === warehouseId)));
+};
+route('GET', '/analytics/vendor', ANY, vendorAnalytics);
+route('GET', '/analytics/vendor/:vendorId', ANY, vendorAnalytics);
+
+// ---------- Inventory / RTO ----------
+
+route('GET', '/admin/inventory/rto-focus', ADMIN, ({ query }) => ok({
+  orders: db.rtoFocusOrders.filter((order) => !query.get('account_code') || order.account_code === query.get('account_code')),
+}));
+
+route('PUT', '/admin/inventory/rto-focus/status', ADMIN, ({ body }) => {
+  const ids: string[] = body?.orderIds || [];
+  const matched = db.rtoFocusOrders.filter((order) => ids.includes(order.order_id));
+  matched.forEach((order) => {
+    order.order_status = body?.newStatus;
+    order.updated_at = new Date().toISOString();
+  });
+  db.rtoFocusOrders = db.rtoFocusOrders.filter((order) => !ids.includes(order.order_id));
+  return ok({ affectedRows: matched.length }, `Updated ${matched.length} orders`);
+});
+
+route('GET', '/admin/inventory/critical-orders', ADMIN, ({ query }) => ok({
+  orders: db.orders
+    .filter((order) => order.is_critical === 1 && (!query.get('account_code') || order.account_code === query.get('account_code')))
+    .map((order) => ({
+      ...toOrderRow(order),
+      selling_price: order.value,
+      claims_status: order.claims_status,
+      priority: 'high',
+    })),
+}));
+
+route('GET', '/admin/inventory/rto-locations', ADMIN, () => ok({ locations: RTO_LOCATIONS }));
+route('GET', '/admin/inventory/rto-products', ADMIN, () => ok({ products: RTO_PRODUCTS }));
+route('GET', '/admin/inventory/rto-sizes/:sku', ADMIN, () => ok({ sizes: RTO_SIZES }));
+
+route('POST', '/admin/inventory/rto-manual', ADMIN, ({ body }) => {
+  const quantity = Number(body?.quantity) || 0;
+  const existing = db.rtoInventory.find((row) => row.Location === body?.location && row.base_sku === body?.sku_id && row.Size === body?.size);
+  if (existing) {
+    existing.Quantity += quantity;
+  } else {
+    const product = RTO_PRODUCTS.find((candidate) => candidate.sku_id === body?.sku_id);
+    db.rtoInventory.push({
+      id: db.rtoInventory.reduce((max, row) => Math.max(max, row.id), 0) + 1,
+      Location: body?.location,
+      Product_Name: product?.name || body?.sku_id,
+      Size: body?.size,
+      Quantity: quantity,
+      product_code: `${body?.sku_id}-${body?.size}`,
+      base_sku: body?.sku_id,
+    });
+  }
+  return ok(null, 'RTO entry saved');
+});
+
+route('GET', '/admin/inventory/rto', ADMIN, () => ok({ rtoData: db.rtoInventory, totalEntries: db.rtoInventory.length }));
+
+route('PUT', '/admin/inventory/rto', ADMIN, ({ body }) => {
+  const updates: { id: number; quantity: number }[] = body?.updates || [];
+  let updatedCount = 0;
+  updates.forEach((update) => {
+    const row = db.rtoInventory.find((candidate) => candidate.id === update.id);
+    if (!row) return;
+    row.Quantity = update.quantity;
+    updatedCount++;
+  });
+  db.rtoInventory = db.rtoInventory.filter((row) => row.Quantity > 0);
+  return ok({ updatedCount }, `Updated ${updatedCount} items`);
+});
+
+// Unclaimed demand per product, in the "Size-Qty, Size-Qty" shape the aggregation cards parse
+route('GET', '/admin/inventory/aggregate', ADMIN, () => {
+  const demand = new Map<string, { name: string; sku: string; image: string | null; sizes: Map<string, number> }>();
+  db.orders
+    .filter((order) => order.claims_status === 'unclaimed' && order.store_status === 'active')
+    .forEach((order) => {
+      const baseSku = order.product_code.slice(0, -(order.size.length + 1));
+      const entry = demand.get(baseSku) || { name: order.product_name.replace(/ - \S+$/, ''), sku: baseSku, image: order.image || null, sizes: new Map() };
+      entry.sizes.set(order.size, (entry.sizes.get(order.size) || 0) + order.quantity);
+      demand.set(baseSku, entry);
+    });
+
+  return ok({
+    products: Array.from(demand.values()).map((entry) => ({
+      productName: entry.name,
+      baseProductName: entry.name,
+      imageUrl: entry.image,
+      baseSku: entry.sku,
+      sizeQuantity: Array.from(entry.sizes.entries()).map(([size, quantity]) => `${size}-${quantity}`).join(', '),
+      prefix: '',
+    })),
+  });
+});
+
+route('POST', '/orders/download-manifest-summary', VENDOR, ({ user, body }) => {
+  const manifestIds: string[] = body?.manifest_ids || [];
+  const lines = db.orders.filter((order) => order.claimed_by === user!.warehouseId && manifestIds.includes(order.manifest_id || ''));
+  const orderIds = Array.from(new Set(lines.map((line) => line.order_id)));
+  const summary = [
+    `Manifest summary - ${user!.warehouseId}`,
+    `Manifests: ${manifestIds.join(', ') || '-'}`,
+    `Orders: ${orderIds.length}`,
+    `Units: ${sumQuantity(lines)}`,
+    ...orderIds.slice(0, 12),
+  ];
+  return pdfResponse(buildLabelPdf([summary]), 'manifest-summary.pdf');
+});
+
+// ==================== DISPATCH ====================
+
+async function readBody(request: Request): Promise<any> {
+  if (request.method === 'GET' || request.method === 'HEAD') return null;
+
+  const contentType = request.headers.get('content-type') || '';
+  try {
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData();
+      return Object.fromEntries(form.entries());
+    }
+    const text = await request.text();
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Handle a request for `/api/mock/<path>` - `path` is the part after the mock prefix
+ */
+export async function handleMockRequest(request: Request, path: string): Promise<Response> {
+  const method = request.method.toUpperCase();
+  const url = new URL(request.url);
+
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = path.match(candidate.pattern);
+    if (!match) continue;
+
+    const user = resolveUser(request.headers);
+    if (candidate.roles) {
+      if (!user) return fail(401, 'Access token is missing or expired');
+      if (!candidate.roles.includes(user.role)) return fail(403, 'You do not have permission to perform this action');
+    }
+
+    const params: Record<string, string> = {};
+    candidate.keys.forEach((key, index) => {
+      params[key] = decodeURIComponent(match[index + 1]);
+    });
+
+    console.log(`🧪 Mock API: ${method} ${path}`);
+    return candidate.handler({
+      method,
+      path,
+      query: url.searchParams,
+      params,
+      body: await readBody(request),
+      user,
+      origin: url.origin,
+      headers: request.headers,
+    });
+  }
+
+  return fail(404, `Mock API has no handler for ${method} ${path}`);
+}
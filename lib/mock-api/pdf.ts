@@ -0,0 +1,62 @@
+/**
+ * Minimal PDF writer for mock shipping labels.
+ * One 4x6 inch page per label, plain Helvetica text - just enough for the print and
+ * download flows to receive a real PDF.
+ */
+
+const PAGE_WIDTH = 288;
+const PAGE_HEIGHT = 432;
+
+function escapePdfText(text: string): string {
+  // Standard fonts only cover Latin-1; keep the mock ASCII-only
+  return text.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1');
+}
+
+function buildPageContent(lines: string[]): string {
+  const commands = ['0.5 w', `12 12 ${PAGE_WIDTH - 24} ${PAGE_HEIGHT - 24} re S`, 'BT'];
+  lines.forEach((line, index) => {
+    const fontSize = index === 0 ? 18 : 11;
+    const y = PAGE_HEIGHT - 48 - index * 22;
+    commands.push(`/F1 ${fontSize} Tf`, `1 0 0 1 28 ${y} Tm`, `(${escapePdfText(line)}) Tj`);
+  });
+  commands.push('ET');
+  return commands.join('\n');
+}
+
+/**
+ * Build a PDF with one page per label; each label is a list of text lines (first line is the title)
+ */
+export function buildLabelPdf(labels: string[][]): Uint8Array {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+
+  // 1: catalog, 2: page tree, 3: font - pages start at 4
+  labels.forEach((lines, index) => {
+    const pageId = 4 + index * 2;
+    const contentId = pageId + 1;
+    const content = buildPageContent(lines);
+    pageIds.push(pageId);
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
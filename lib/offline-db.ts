@@ -0,0 +1,59 @@
+/**
+ * Offline Database
+ * IndexedDB plumbing shared by the offline outbox and the offline read cache:
+ * one object store per database, opened (and created) on first use.
+ */
+
+/**
+ * Id of the signed-in user from the stored profile, or undefined when logged out
+ */
+export function getCurrentUserId(): string | undefined {
+  try {
+    const userData = localStorage.getItem('user_data');
+    return userData ? String(JSON.parse(userData).id) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class OfflineDb {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly storeName: string,
+    private readonly keyPath: string,
+    private readonly version: number = 1
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, this.version);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName, { keyPath: this.keyPath });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Run one request against the store in its own transaction
+   */
+  async withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return promisifyRequest(run(db.transaction(this.storeName, mode).objectStore(this.storeName)));
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Offline Outbox
+ * Vendor mutations (claim, mark ready, reverse) that could not reach the backend are
+ * stored in IndexedDB and replayed in order once the connection comes back.
+ */
+
+import { apiClient, isNetworkError, SessionExpiredError } from './api';
+import type { ApiResponse } from './api';
+import { getCurrentUserId, OfflineDb } from './offline-db';
+import { sessionStore } from './session';
+
+export type OutboxActionType =
+  | 'claim'
+  | 'bulk-claim'
+  | 'mark-ready'
+  | 'bulk-mark-ready'
+  | 'reverse'
+  | 'reverse-grouped';
+
+export interface OutboxPayloads {
+  'claim': { unique_id: string };
+  'bulk-claim': { unique_ids: string[] };
+  'mark-ready': { order_id: string };
+  'bulk-mark-ready': { order_ids: string[] };
+  'reverse': { unique_id: string };
+  'reverse-grouped': { order_id: string; unique_ids: string[] };
+}
+
+// One queued mutation - discriminated on `type` so each payload narrows to its own shape
+export type OutboxAction = { [K in OutboxActionType]: { type: K; payload: OutboxPayloads[K] } }[OutboxActionType];
+
+export type OutboxEntry = OutboxAction & {
+  id: string;
+  // unique_ids / order_ids the action touches - used to badge rows in the dashboard
+  orderIds: string[];
+  // Vendor who queued it - never replayed under someone else's session
+  userId?: string;
+  status: 'pending' | 'syncing' | 'failed';
+  error?: string;
+  attempts: number;
+  createdAt: string;
+};
+
+export interface OutboxReplayResult {
+  entry: OutboxEntry;
+  // conflict: the backend refused because the order changed meanwhile (e.g. claimed by another vendor)
+  outcome: 'synced' | 'conflict' | 'failed';
+  conflictedOrderIds: string[];
+  message?: string;
+  response?: ApiResponse<any>;
+}
+
+export type OutboxSubmitResult<T> =
+  | { queued: false; response: ApiResponse<T> }
+  | { queued: true; entry: OutboxEntry };
+
+const db = new OfflineDb('claimio_offline', 'outbox', 'id');
+
+// Actions where a rejected replay means someone else got to the order first
+const CONFLICT_PRONE_ACTIONS: OutboxActionType[] = ['claim', 'bulk-claim'];
+
+function sendAction(action: OutboxAction): Promise<ApiResponse<any>> {
+  switch (action.type) {
+    case 'claim':
+      return apiClient.claimOrder(action.payload.unique_id);
+    case 'bulk-claim':
+      return apiClient.bulkClaimOrders(action.payload.unique_ids);
+    case 'mark-ready':
+      return apiClient.markOrderReady(action.payload.order_id);
+    case 'bulk-mark-ready':
+      return apiClient.bulkMarkOrdersReady(action.payload.order_ids);
+    case 'reverse':
+      return apiClient.reverseOrder(action.payload.unique_id);
+    case 'reverse-grouped':
+      return apiClient.reverseGroupedOrder(action.payload.order_id, action.payload.unique_ids);
+  }
+}
+
+function getOrderIds(action: OutboxAction): string[] {
+  switch (action.type) {
+    case 'claim':
+    case 'reverse':
+      return [action.payload.unique_id];
+    case 'bulk-claim':
+      return [...action.payload.unique_ids];
+    case 'mark-ready':
+      return [action.payload.order_id];
+    case 'bulk-mark-ready':
+      return [...action.payload.order_ids];
+    case 'reverse-grouped':
+      return [action.payload.order_id, ...action.payload.unique_ids];
+  }
+}
+
+function createEntryId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+class OfflineOutbox {
+  private entries: OutboxEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private replaying: Promise<void> | null = null;
+  private listeners = new Set<(entries: OutboxEntry[]) => void>();
+  private resultListeners = new Set<(result: OutboxReplayResult) => void>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        console.log('🌐 Back online - replaying offline outbox');
+        this.replay();
+      });
+    }
+  }
+
+  /**
+   * Load queued entries from IndexedDB once per page load
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (typeof indexedDB === 'undefined') return;
+        try {
+          const stored = await db.withStore('readonly', (store) => store.getAll() as IDBRequest<OutboxEntry[]>);
+          // An entry left 'syncing' means the tab closed mid-replay - send it again
+          this.entries = stored
+            .map((entry) => (entry.status === 'syncing' ? { ...entry, status: 'pending' as const } : entry))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+          this.notify();
+        } catch (error) {
+          console.error('Error loading offline outbox:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async persist(entry: OutboxEntry): Promise<void> {
+    try {
+      await db.withStore('readwrite', (store) => store.put(entry));
+    } catch (error) {
+      console.error('Error saving offline outbox entry:', error);
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    this.notify();
+    try {
+      await db.withStore('readwrite', (store) => store.delete(id));
+    } catch (error) {
+      console.error('Error removing offline outbox entry:', error);
+    }
+  }
+
+  private async update(entry: OutboxEntry): Promise<void> {
+    this.entries = this.entries.map((existing) => (existing.id === entry.id ? entry : existing));
+    this.notify();
+    await this.persist(entry);
+  }
+
+  private notify() {
+    const snapshot = [...this.entries];
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  /**
+   * Send a mutation now, or queue it when the backend can't be reached
+   */
+  async submit(action: OutboxAction): Promise<OutboxSubmitResult<any>> {
+    const isOffline = typeof navigator !== 'undefined' && !navigator.onLine;
+
+    if (!isOffline) {
+      try {
+        const response = await sendAction(action);
+        return { queued: false, response };
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    const entry = await this.enqueue(action);
+    return { queued: true, entry };
+  }
+
+  private async enqueue(action: OutboxAction): Promise<OutboxEntry> {
+    await this.load();
+
+    const entry: OutboxEntry = {
+      ...action,
+      id: createEntryId(),
+      orderIds: getOrderIds(action),
+      userId: getCurrentUserId(),
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    console.log('📥 Queued offline action:', entry.type, entry.orderIds);
+    this.entries = [...this.entries, entry];
+    this.notify();
+    await this.persist(entry);
+    return entry;
+  }
+
+  /**
+   * Replay pending entries in the order they were queued.
+   * Stops at the first network error - the rest would fail the same way.
+   * Nothing is sent without a session.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replayPending().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replayPending(): Promise<void> {
+    await this.load();
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    // Logged out - replaying would park every entry behind the re-login dialog. The next
+    // dashboard mount (after signing in) or reconnect replays them
+    if (!sessionStore.get()) return;
+
+    const userId = getCurrentUserId();
+    await this.discardOtherUsersEntries(userId);
+    const pending = this.entries.filter((entry) => entry.status === 'pending' && (!entry.userId || entry.userId === userId));
+
+    for (const queued of pending) {
+      const entry: OutboxEntry = { ...queued, status: 'syncing', attempts: queued.attempts + 1 };
+      await this.update(entry);
+
+      try {
+        const response = await sendAction(entry);
+        await this.handleReplayResponse(entry, response);
+      } catch (error: any) {
+        if (isNetworkError(error) || error instanceof SessionExpiredError) {
+          // Still offline (or logged out) - keep it for the next attempt
+          await this.update({ ...entry, status: 'pending' });
+          return;
+        }
+        await this.handleReplayRejection(entry, error?.message || 'Request failed');
+      }
+    }
+  }
+
+  /**
+   * Another account signed in on this device - actions the previous vendor queued
+   * can never be sent under this session, so drop them instead of keeping them pending
+   */
+  private async discardOtherUsersEntries(userId: string | undefined): Promise<void> {
+    if (!userId) return;
+
+    const foreign = this.entries.filter((entry) => entry.userId && entry.userId !== userId);
+    if (foreign.length === 0) return;
+
+    console.warn(`🗑️ Discarding ${foreign.length} offline action(s) queued by another user`);
+    for (const entry of foreign) {
+      await this.remove(entry.id);
+    }
+  }
+
+  private async handleReplayResponse(entry: OutboxEntry, response: ApiResponse<any>): Promise<void> {
+    if (!response.success) {
+      await this.handleReplayRejection(entry, response.message || 'Request failed', response);
+      return;
+    }
+
+    // Bulk claims succeed partially - orders claimed by someone else come back in failed_claims
+    const conflictedOrderIds: string[] = entry.type === 'bulk-claim'
+      ? (response.data?.failed_claims || []).map((claim: any) => claim.unique_id).filter(Boolean)
+      : [];
+
+    await this.remove(entry.id);
+    this.emitResult({
+      entry,
+      outcome: conflictedOrderIds.length > 0 ? 'conflict' : 'synced',
+      conflictedOrderIds,
+      message: response.message,
+      response,
+    });
+  }
+
+  private async handleReplayRejection(entry: OutboxEntry, message: string, response?: ApiResponse<any>): Promise<void> {
+    if (CONFLICT_PRONE_ACTIONS.includes(entry.type)) {
+      // The server's state wins - drop the claim and let the dashboard refresh
+      await this.remove(entry.id);
+      this.emitResult({ entry, outcome: 'conflict', conflictedOrderIds: entry.orderIds, message, response });
+      return;
+    }
+
+    await this.update({ ...entry, status: 'failed', error: message });
+    this.emitResult({ entry, outcome: 'failed', conflictedOrderIds: [], message, response });
+  }
+
+  private emitResult(result: OutboxReplayResult) {
+    console.log(`🔁 Offline outbox replay: ${result.entry.type} → ${result.outcome}`, result.message || '');
+    this.resultListeners.forEach((listener) => listener(result));
+  }
+
+  /**
+   * Put a failed entry back in the queue and replay it
+   */
+  async retry(id: string): Promise<void> {
+    const entry = this.entries.find((existing) => existing.id === id);
+    if (!entry) return;
+
+    await this.update({ ...entry, status: 'pending', error: undefined });
+    await this.replay();
+  }
+
+  /**
+   * Drop an entry without sending it
+   */
+  async discard(id: string): Promise<void> {
+    await this.remove(id);
+  }
+
+  /**
+   * Subscribe to queue changes. The listener is called immediately with the current entries.
+   */
+  subscribe(listener: (entries: OutboxEntry[]) => void): () => void {
+    this.listeners.add(listener);
+    listener([...this.entries]);
+    this.load().then(() => this.replay());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to replay outcomes (synced / conflict / failed)
+   */
+  onReplayResult(listener: (result: OutboxReplayResult) => void): () => void {
+    this.resultListeners.add(listener);
+    return () => {
+      this.resultListeners.delete(listener);
+    };
+  }
+}
+
+// Export singleton instance
+export const offlineOutbox = new OfflineOutbox();
@@ -0,0 +1,122 @@
+/**
+ * Offline Read Cache
+ * Last successful response of the vendor list endpoints (orders, grouped, handover,
+ * tracking, address, payments), kept in IndexedDB so the dashboard still has
+ * something to show when the backend can't be reached.
+ */
+
+import type { ApiResponse } from './api';
+import { getCurrentUserId, OfflineDb } from './offline-db';
+
+export interface OfflineSnapshot {
+  // `${userId}|${endpoint}` - snapshots are never shown to another vendor
+  key: string;
+  endpoint: string;
+  response: ApiResponse<any>;
+  savedAt: number;
+}
+
+export interface OfflineReadStatus {
+  // True while at least one list on screen came from the cache instead of the network
+  offline: boolean;
+  // Oldest savedAt among those lists (epoch ms)
+  dataFrom: number | null;
+}
+
+const db = new OfflineDb('claimio_offline_reads', 'responses', 'key');
+
+const snapshotKey = (endpoint: string) => `${getCurrentUserId() ?? 'anonymous'}|${endpoint}`;
+
+class OfflineReadCache {
+  // Endpoints currently served from the cache -> savedAt of the snapshot shown
+  private staleEndpoints = new Map<string, number>();
+  private listeners = new Set<(status: OfflineReadStatus) => void>();
+
+  /**
+   * Remember a fresh response. Also marks the endpoint as live again.
+   */
+  async save(endpoint: string, response: ApiResponse<any>): Promise<void> {
+    if (this.staleEndpoints.delete(endpoint)) {
+      this.notify();
+    }
+    if (typeof indexedDB === 'undefined') return;
+
+    const snapshot: OfflineSnapshot = {
+      key: snapshotKey(endpoint),
+      endpoint,
+      response,
+      savedAt: Date.now(),
+    };
+
+    try {
+      await db.withStore('readwrite', (store) => store.put(snapshot));
+    } catch (error) {
+      console.error('Error saving offline snapshot:', error);
+    }
+  }
+
+  /**
+   * Get the last saved response for an endpoint, or null if it was never fetched.
+   * A hit marks the endpoint as stale until the next successful fetch.
+   */
+  async load(endpoint: string): Promise<OfflineSnapshot | null> {
+    if (typeof indexedDB === 'undefined') return null;
+
+    try {
+      const snapshot = await db.withStore('readonly', (store) =>
+        store.get(snapshotKey(endpoint)) as IDBRequest<OfflineSnapshot | undefined>
+      );
+      if (!snapshot) return null;
+
+      console.log(`📦 Serving ${endpoint} from offline cache (saved ${new Date(snapshot.savedAt).toLocaleTimeString()})`);
+      this.staleEndpoints.set(endpoint, snapshot.savedAt);
+      this.notify();
+      return snapshot;
+    } catch (error) {
+      console.error('Error reading offline snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Drop every snapshot (logout)
+   */
+  async clear(): Promise<void> {
+    this.staleEndpoints.clear();
+    this.notify();
+    if (typeof indexedDB === 'undefined') return;
+
+    try {
+      await db.withStore('readwrite', (store) => store.clear());
+    } catch (error) {
+      console.error('Error clearing offline snapshots:', error);
+    }
+  }
+
+  getStatus(): OfflineReadStatus {
+    const savedAt = Array.from(this.staleEndpoints.values());
+    return {
+      offline: savedAt.length > 0,
+      dataFrom: savedAt.length > 0 ? Math.min(...savedAt) : null,
+    };
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => listener(status));
+  }
+
+  /**
+   * Subscribe to offline status changes. The listener is called immediately with the current status.
+   */
+  subscribe(listener: (status: OfflineReadStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Export singleton instance
+export const offlineReadCache = new OfflineReadCache();
@@ -0,0 +1,303 @@
+/**
+ * Order Feed
+ * Real-time vendor order events over Server-Sent Events (GET /orders/events).
+ * The stream is read with fetch instead of EventSource so the bearer token can be sent
+ * as a header. When the stream is unavailable the feed falls back to polling
+ * /orders/last-updated and asks listeners to resync whenever the timestamp moves.
+ */
+
+import { apiClient, isAbortError } from './api';
+import { OrderFeedEventSchema } from './api-types';
+import type { OrderFeedEvent } from './api-types';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+
+const FEED_CONFIG = {
+  // Polling fallback interval
+  POLL_INTERVAL_MS: 10000,
+  // Backoff between stream reconnects
+  RECONNECT_BASE_DELAY_MS: 2000,
+  RECONNECT_MAX_DELAY_MS: 30000,
+  // Stream failures in a row before falling back to polling
+  MAX_STREAM_FAILURES: 3,
+  // While polling, try the stream again this often
+  STREAM_RETRY_INTERVAL_MS: 5 * 60 * 1000,
+};
+
+// `resync` = events may have been missed (reconnect, tab was hidden, polling saw a change) - refetch
+export type OrderFeedMessage = OrderFeedEvent | { type: 'resync'; lastUpdated?: string | null };
+
+export type OrderFeedMode = 'idle' | 'connecting' | 'live' | 'polling' | 'paused';
+
+class OrderFeed {
+  private listeners = new Set<(message: OrderFeedMessage) => void>();
+  private modeListeners = new Set<(mode: OrderFeedMode) => void>();
+  private mode: OrderFeedMode = 'idle';
+  private streamController: AbortController | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private streamRetryTimer: ReturnType<typeof setTimeout> | null = null;
+  private streamFailures = 0;
+  private lastEventId: string | null = null;
+  private lastUpdated: string | null = null;
+  // Set after the first stream connects - any later (re)connect may have missed events
+  private hasConnected = false;
+
+  private handleVisibilityChange = () => {
+    if (document.hidden) {
+      this.disconnect();
+      this.setMode('paused');
+      console.log('⏸️ Order feed paused (tab hidden)');
+    } else {
+      console.log('▶️ Order feed resumed (tab visible)');
+      this.emit({ type: 'resync' });
+      this.connect();
+    }
+  };
+
+  /**
+   * Subscribe to feed messages. The connection opens with the first subscriber and
+   * closes with the last one. Returns an unsubscribe function.
+   */
+  subscribe(listener: (message: OrderFeedMessage) => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.start();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Subscribe to connection mode changes. The listener is called immediately with the current mode.
+   */
+  onModeChange(listener: (mode: OrderFeedMode) => void): () => void {
+    this.modeListeners.add(listener);
+    listener(this.mode);
+    return () => {
+      this.modeListeners.delete(listener);
+    };
+  }
+
+  private start() {
+    if (typeof window === 'undefined') return;
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    if (document.hidden) {
+      this.setMode('paused');
+    } else {
+      this.connect();
+    }
+  }
+
+  private stop() {
+    if (typeof window === 'undefined') return;
+
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.disconnect();
+    this.hasConnected = false;
+    this.lastEventId = null;
+    this.lastUpdated = null;
+    this.setMode('idle');
+  }
+
+  private connect() {
+    this.disconnect();
+    if (this.streamFailures >= FEED_CONFIG.MAX_STREAM_FAILURES) {
+      this.startPolling();
+    } else {
+      this.openStream();
+    }
+  }
+
+  private disconnect() {
+    this.streamController?.abort();
+    this.streamController = null;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.streamRetryTimer) clearTimeout(this.streamRetryTimer);
+    this.reconnectTimer = null;
+    this.pollTimer = null;
+    this.streamRetryTimer = null;
+  }
+
+  private setMode(mode: OrderFeedMode) {
+    if (this.mode === mode) return;
+    this.mode = mode;
+    this.modeListeners.forEach((listener) => listener(mode));
+  }
+
+  private emit(message: OrderFeedMessage) {
+    this.listeners.forEach((listener) => listener(message));
+  }
+
+  // ==================== STREAM ====================
+
+  private async openStream() {
+    const controller = new AbortController();
+    this.streamController = controller;
+    this.setMode('connecting');
+
+    try {
+      const authHeader = await apiClient.getAuthorizationHeader();
+      if (!authHeader) {
+        // Logged out - nothing to listen to
+        this.setMode('idle');
+        return;
+      }
+
+      const response = await fetch(`${API_BASE_URL}/orders/events`, {
+        headers: {
+          'Accept': 'text/event-stream',
+          'Authorization': authHeader,
+          ...(this.lastEventId && { 'Last-Event-ID': this.lastEventId }),
+        },
+        signal: controller.signal,
+      });
+
+      const contentType = response.headers.get('content-type') || '';
+      if (response.status === 404 || response.status === 501 || (response.ok && !contentType.includes('text/event-stream'))) {
+        // Backend has no event stream - don't keep knocking
+        console.log('ℹ️ Order feed: event stream not available, using polling');
+        this.streamFailures = FEED_CONFIG.MAX_STREAM_FAILURES;
+        this.connect();
+        return;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Order feed stream failed: ${response.status} ${response.statusText}`);
+      }
+
+      console.log('📡 Order feed connected');
+      this.streamFailures = 0;
+      this.setMode('live');
+      if (this.hasConnected) {
+        this.emit({ type: 'resync' });
+      }
+      this.hasConnected = true;
+
+      await this.readStream(response.body);
+      throw new Error('Order feed stream closed by server');
+    } catch (error: any) {
+      if (controller.signal.aborted || isAbortError(error)) return;
+
+      this.streamFailures++;
+      console.warn(`⚠️ Order feed stream error (${this.streamFailures}/${FEED_CONFIG.MAX_STREAM_FAILURES}):`, error?.message || error);
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.streamFailures >= FEED_CONFIG.MAX_STREAM_FAILURES) {
+      this.connect();
+      return;
+    }
+
+    const delay = Math.min(
+      FEED_CONFIG.RECONNECT_BASE_DELAY_MS * Math.pow(2, this.streamFailures - 1),
+      FEED_CONFIG.RECONNECT_MAX_DELAY_MS
+    );
+    this.setMode('connecting');
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private async readStream(body: ReadableStream<Uint8Array>) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || '';
+      blocks.forEach((block) => this.handleStreamBlock(block));
+    }
+  }
+
+  /**
+   * Parse one SSE message block (`event:` / `data:` / `id:` lines)
+   */
+  private handleStreamBlock(block: string) {
+    let eventName = 'message';
+    const dataLines: string[] = [];
+
+    block.split(/\r?\n/).forEach((line) => {
+      // Empty lines and `:` comments (heartbeats) carry nothing
+      if (!line || line.startsWith(':')) return;
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+      if (field === 'event') eventName = value;
+      else if (field === 'data') dataLines.push(value);
+      else if (field === 'id') this.lastEventId = value;
+    });
+
+    if (eventName === 'resync') {
+      this.emit({ type: 'resync' });
+      return;
+    }
+    if (dataLines.length === 0) return;
+
+    let payload: any;
+    try {
+      payload = JSON.parse(dataLines.join('\n'));
+    } catch {
+      console.warn('⚠️ Order feed: ignoring malformed event data', dataLines);
+      return;
+    }
+
+    const result = OrderFeedEventSchema.safeParse({
+      ...payload,
+      type: eventName === 'message' ? payload?.type : eventName,
+    });
+    if (!result.success) {
+      console.warn('⚠️ Order feed: ignoring unknown event', eventName, result.error.issues);
+      return;
+    }
+
+    this.emit(result.data);
+  }
+
+  // ==================== POLLING FALLBACK ====================
+
+  private startPolling() {
+    this.setMode('polling');
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), FEED_CONFIG.POLL_INTERVAL_MS);
+
+    // The stream may be back (deploy finished, proxy fixed) - give it another go now and then
+    this.streamRetryTimer = setTimeout(() => {
+      this.streamFailures = 0;
+      this.connect();
+    }, FEED_CONFIG.STREAM_RETRY_INTERVAL_MS);
+  }
+
+  private async poll() {
+    try {
+      const response = await apiClient.getOrdersLastUpdated();
+      if (!response.success || !response.data) return;
+
+      const newLastUpdated = response.data.lastUpdated;
+      if (this.lastUpdated !== null && newLastUpdated !== this.lastUpdated) {
+        console.log('🔄 Orders updated by another vendor, resyncing...');
+        console.log('  - Old timestamp:', this.lastUpdated);
+        console.log('  - New timestamp:', newLastUpdated);
+        this.emit({ type: 'resync', lastUpdated: newLastUpdated });
+      }
+      this.lastUpdated = newLastUpdated;
+    } catch (error) {
+      console.error('Error polling for updates:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const orderFeed = new OrderFeed();
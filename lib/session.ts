@@ -0,0 +1,91 @@
+/**
+ * Session Store
+ * Single place where the client keeps its credentials (access + refresh token).
+ * ApiClient, useAsyncTask and components doing raw fetches all read from here.
+ */
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch ms after which the backend rejects the access token
+  expiresAt: number;
+}
+
+const SESSION_STORAGE_KEY = 'auth_session';
+
+// Credentials from the Basic Auth era - they never expired, so they are dropped instead of migrated
+const LEGACY_CREDENTIAL_KEYS = ['authHeader', 'vendorToken'];
+
+class SessionStore {
+  /**
+   * Get the stored session, or null when logged out / storage is corrupt
+   */
+  get(): AuthSession | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+      if (!raw) return null;
+
+      const session = JSON.parse(raw);
+      if (!session?.accessToken || !session?.refreshToken) return null;
+      return session;
+    } catch (error) {
+      console.error('Error parsing stored session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Persist a session returned by login / refresh
+   */
+  save(session: AuthSession): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  }
+
+  /**
+   * Forget the session (and any leftover Basic Auth credentials)
+   */
+  clear(): void {
+    if (typeof window === 'undefined') return;
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    this.clearLegacyCredentials();
+  }
+
+  /**
+   * Remove credentials stored by the old Basic Auth login.
+   * Returns true if any were found (the user has to sign in again).
+   */
+  clearLegacyCredentials(): boolean {
+    if (typeof window === 'undefined') return false;
+
+    let found = false;
+    LEGACY_CREDENTIAL_KEYS.forEach((key) => {
+      if (localStorage.getItem(key) !== null) {
+        localStorage.removeItem(key);
+        found = true;
+      }
+    });
+    return found;
+  }
+
+  /**
+   * Authorization header value for the current access token
+   */
+  getAuthorization(): string | null {
+    const session = this.get();
+    return session ? `Bearer ${session.accessToken}` : null;
+  }
+
+  /**
+   * Check if the access token expires within the given window
+   */
+  isExpiring(withinMs: number): boolean {
+    const session = this.get();
+    return !!session && session.expiresAt - Date.now() <= withinMs;
+  }
+}
+
+// Export singleton instance
+export const sessionStore = new SessionStore();
@@ -0,0 +1,213 @@
+/**
+ * Settlement Reconciliation
+ * Bank payout statement import: reads CSV/XLSX statements and proposes which pending
+ * settlement each payout row pays, scored on amount, beneficiary and date.
+ */
+
+import { differenceInCalendarDays, isValid, parse } from 'date-fns';
+import type { Settlement } from './api-types';
+import { toNumber } from './utils';
+
+export interface StatementRow {
+  rowNumber: number;
+  date: Date | null;
+  amount: number;
+  // UTR / bank reference of the payout
+  reference: string;
+  // Beneficiary UPI ID or account number as printed on the statement
+  payee: string;
+  narration: string;
+  // Original cells, stored with the payment as its proof
+  raw: Record<string, string>;
+}
+
+export interface ParsedStatement {
+  rows: StatementRow[];
+  // Rows without a usable payout amount (opening balance, credits, totals...)
+  skipped: number;
+}
+
+export type MatchConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface MatchScore {
+  score: number;
+  confidence: MatchConfidence;
+  reasons: string[];
+}
+
+export interface ProposedMatch extends MatchScore {
+  row: StatementRow;
+  settlementId: string | null;
+}
+
+type StatementField = 'date' | 'amount' | 'reference' | 'payee' | 'narration';
+
+// Header names seen on Indian bank payout / current account statements, most specific first
+const COLUMN_ALIASES: Record<StatementField, string[]> = {
+  date: ['value date', 'transaction date', 'txn date', 'payment date', 'posted date', 'date'],
+  amount: ['debit amount', 'withdrawal amount', 'paid amount', 'payout amount', 'txn amount', 'debit', 'withdrawal', 'amount'],
+  reference: ['utr number', 'utr no', 'utr', 'bank reference', 'reference number', 'reference no', 'ref no', 'transaction id', 'txn id', 'cheque/ref no'],
+  payee: ['beneficiary upi', 'beneficiary vpa', 'beneficiary account', 'beneficiary account number', 'upi id', 'vpa', 'account number', 'credit account', 'beneficiary', 'payee'],
+  narration: ['narration', 'description', 'remarks', 'particulars'],
+};
+
+const DATE_FORMATS = ['dd/MM/yyyy', 'dd-MM-yyyy', 'dd/MM/yy', 'dd-MM-yy', 'yyyy-MM-dd', 'dd MMM yyyy', 'dd-MMM-yyyy', 'dd-MMM-yy', 'dd/MM/yyyy HH:mm', 'yyyy-MM-dd HH:mm:ss'];
+
+const UPI_PATTERN = /[a-z0-9._-]{2,}@[a-z]{2,}/i;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9/ ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+function findColumn(headers: string[], field: StatementField): string | null {
+  const normalized = headers.map((header) => ({ header, key: normalizeHeader(header) }));
+  for (const alias of COLUMN_ALIASES[field]) {
+    const exact = normalized.find((column) => column.key === alias);
+    if (exact) return exact.header;
+  }
+  for (const alias of COLUMN_ALIASES[field]) {
+    const partial = normalized.find((column) => column.key.includes(alias));
+    if (partial) return partial.header;
+  }
+  return null;
+}
+
+function toAmount(value: unknown): number {
+  if (typeof value === 'number') return value;
+  const cleaned = String(value ?? '').replace(/[₹,\s]|INR|Rs\.?/gi, '');
+  // Some statements print debits as negatives or with a Dr suffix
+  const amount = parseFloat(cleaned.replace(/dr$/i, ''));
+  return isNaN(amount) ? 0 : Math.abs(amount);
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isValid(value) ? value : null;
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  // Day-first formats before Date parsing, which would read 03/04 as 4 March
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(text, dateFormat, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+  const fallback = new Date(text);
+  return isValid(fallback) ? fallback : null;
+}
+
+const cellText = (value: unknown) => (value instanceof Date ? value.toISOString().slice(0, 10) : String(value ?? '').trim());
+
+// Read the first sheet of a CSV/XLSX statement into payout rows
+export async function parseStatementFile(file: File): Promise<ParsedStatement> {
+  const XLSX = await import('xlsx');
+  // raw keeps CSV cells as text so dates aren't read month-first
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true, raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The statement has no sheets');
+
+  const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
+  const headers = records.length ? Object.keys(records[0]) : [];
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as StatementField[]).map((field) => [field, findColumn(headers, field)])
+  ) as Record<StatementField, string | null>;
+  if (!columns.amount) {
+    throw new Error('Could not find an amount / debit column in the statement');
+  }
+
+  const rows: StatementRow[] = [];
+  let skipped = 0;
+  records.forEach((record, index) => {
+    const amount = toAmount(record[columns.amount!]);
+    if (amount <= 0) {
+      skipped++;
+      return;
+    }
+    const narration = columns.narration ? cellText(record[columns.narration]) : '';
+    const payee = columns.payee ? cellText(record[columns.payee]) : narration.match(UPI_PATTERN)?.[0] || '';
+    rows.push({
+      // +2: header row, and spreadsheet rows count from 1
+      rowNumber: index + 2,
+      date: columns.date ? toDate(record[columns.date]) : null,
+      amount,
+      reference: columns.reference ? cellText(record[columns.reference]) : '',
+      payee,
+      narration,
+      raw: Object.fromEntries(Object.entries(record).map(([key, value]) => [key, cellText(value)])),
+    });
+  });
+  return { rows, skipped };
+}
+
+// What is still owed on a settlement the statement could be paying
+export const openAmount = (settlement: Settlement) =>
+  settlement.remainingAmount !== undefined
+    ? toNumber(settlement.remainingAmount)
+    : Math.max(0, toNumber(settlement.amount) - toNumber(settlement.amountPaid));
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+// How likely it is that a statement row is the payout of a settlement - 0 means it can't be
+export function scoreStatementMatch(row: StatementRow, settlement: Settlement): MatchScore {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const due = openAmount(settlement);
+  if (row.amount > due + 0.5) {
+    return { score: 0, confidence: 'none', reasons: [`More than the ₹${due.toFixed(2)} owed`] };
+  }
+  if (Math.abs(row.amount - due) <= 0.5) {
+    score += 50;
+    reasons.push('Amount matches');
+  } else {
+    score += 15;
+    reasons.push(`Part of the ₹${due.toFixed(2)} owed`);
+  }
+
+  const payeeText = `${row.payee} ${row.narration}`.toLowerCase();
+  const upiId = (settlement.beneficiary?.upiId || settlement.upiId || '').toLowerCase();
+  const accountNumber = digitsOf(settlement.beneficiary?.accountNumber || '');
+  const payeeDigits = digitsOf(row.payee);
+  if (upiId && payeeText.includes(upiId)) {
+    score += 35;
+    reasons.push('UPI ID matches');
+  } else if (accountNumber && payeeDigits && payeeDigits === accountNumber) {
+    score += 35;
+    reasons.push('Account number matches');
+  } else if (accountNumber && payeeDigits.length >= 4 && accountNumber.endsWith(payeeDigits.slice(-4))) {
+    // Statements often print the account masked, e.g. XXXXXX5678
+    score += 25;
+    reasons.push(`Account ends with ${accountNumber.slice(-4)}`);
+  }
+
+  if (row.date && settlement.createdAt) {
+    const days = differenceInCalendarDays(row.date, new Date(settlement.createdAt));
+    if (days < 0) {
+      score -= 20;
+      reasons.push('Paid before the request was raised');
+    } else if (days <= 3) {
+      score += 15;
+      reasons.push(days === 0 ? 'Paid the day it was requested' : `Paid ${days} day${days > 1 ? 's' : ''} after the request`);
+    } else if (days <= 10) {
+      score += 8;
+      reasons.push(`Paid ${days} days after the request`);
+    }
+  }
+
+  const confidence: MatchConfidence = score >= 80 ? 'high' : score >= 55 ? 'medium' : score >= 30 ? 'low' : 'none';
+  return { score: Math.max(0, score), confidence, reasons };
+}
+
+// Pair statement rows with settlements, best scores first, each settlement used at most once
+export function proposeMatches(rows: StatementRow[], settlements: Settlement[]): ProposedMatch[] {
+  const pairs = rows
+    .flatMap((row) => settlements.map((settlement) => ({ row, settlement, ...scoreStatementMatch(row, settlement) })))
+    .filter((pair) => pair.confidence !== 'none')
+    .sort((a, b) => b.score - a.score);
+
+  const matched = new Map<number, ProposedMatch>();
+  const usedSettlements = new Set<string>();
+  pairs.forEach(({ row, settlement, score, confidence, reasons }) => {
+    const settlementId = String(settlement.id);
+    if (matched.has(row.rowNumber) || usedSettlements.has(settlementId)) return;
+    matched.set(row.rowNumber, { row, settlementId, score, confidence, reasons });
+    usedSettlements.add(settlementId);
+  });
+
+  return rows.map((row) => matched.get(row.rowNumber) || { row, settlementId: null, score: 0, confidence: 'none', reasons: ['No open settlement fits this payout'] });
+}
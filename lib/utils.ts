@@ -49,3 +49,12 @@ export function formatDateTime(dateString: string | Date | null | undefined): st
     return "N/A"
   }
 }
+
+/**
+ * Parse an amount the backend may send as a number or a decimal string
+ * (MySQL DECIMAL columns arrive as strings); missing or unparsable values are 0
+ */
+export function toNumber(value: number | string | null | undefined): number {
+  if (value === undefined || value === null) return 0
+  return parseFloat(String(value)) || 0
+}
@@ -0,0 +1,252 @@
+/**
+ * Vendor Filter Preferences
+ * Remembers the vendor dashboard filters per tab (search, date range, shipment statuses,
+ * label filter) across reloads, encodes the open tab's filters in the URL so a view can be
+ * shared, and keeps named presets. Everything is stored per user in localStorage.
+ */
+
+import { addDays, differenceInCalendarDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+
+export type VendorFilterTab = 'all-orders' | 'my-orders' | 'handover' | 'order-tracking';
+
+export const VENDOR_FILTER_TABS: VendorFilterTab[] = ['all-orders', 'my-orders', 'handover', 'order-tracking'];
+
+// One tab's filters as the dashboard holds them
+export interface TabFilterValues {
+  searchTerm: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+  // Shipment statuses (Handover / Order Tracking)
+  statuses: string[];
+  // Label download filter (My Orders)
+  labelFilter: string;
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  tab: VendorFilterTab;
+  searchTerm: string;
+  statuses: string[];
+  labelFilter: string;
+  // Relative dates: days from the day the preset is applied ("Today's ..." keeps meaning today)
+  dateFromOffset?: number;
+  dateToOffset?: number;
+  // Fixed dates (yyyy-MM-dd)
+  dateFrom?: string;
+  dateTo?: string;
+  createdAt: number;
+}
+
+// Stored form of TabFilterValues - dates as yyyy-MM-dd
+interface StoredTabFilters {
+  searchTerm?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  statuses?: string[];
+  labelFilter?: string;
+}
+
+const FILTERS_STORAGE_KEY = 'vendor_tab_filters';
+const PRESETS_STORAGE_KEY = 'vendor_filter_presets';
+
+// Query string parameters of /vendor/dashboard
+const QUERY_KEYS = ['tab', 'q', 'from', 'to', 'status', 'label'];
+
+export const EMPTY_TAB_FILTERS: TabFilterValues = {
+  searchTerm: '',
+  dateFrom: undefined,
+  dateTo: undefined,
+  statuses: [],
+  labelFilter: 'all',
+};
+
+const isFilterTab = (value: unknown): value is VendorFilterTab =>
+  VENDOR_FILTER_TABS.includes(value as VendorFilterTab);
+
+const formatDay = (date?: Date) => (date ? format(date, 'yyyy-MM-dd') : undefined);
+
+function parseDay(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? date : undefined;
+}
+
+function toStored(filters: TabFilterValues): StoredTabFilters {
+  return {
+    searchTerm: filters.searchTerm,
+    dateFrom: formatDay(filters.dateFrom),
+    dateTo: formatDay(filters.dateTo),
+    statuses: filters.statuses,
+    labelFilter: filters.labelFilter,
+  };
+}
+
+function fromStored(stored: StoredTabFilters | undefined): TabFilterValues {
+  return {
+    searchTerm: typeof stored?.searchTerm === 'string' ? stored.searchTerm : '',
+    dateFrom: parseDay(stored?.dateFrom),
+    dateTo: parseDay(stored?.dateTo),
+    statuses: Array.isArray(stored?.statuses) ? stored.statuses.filter((status) => typeof status === 'string') : [],
+    labelFilter: typeof stored?.labelFilter === 'string' ? stored.labelFilter : 'all',
+  };
+}
+
+/**
+ * True when a tab's filters show everything
+ */
+export function isEmptyTabFilters(filters: TabFilterValues): boolean {
+  return !filters.searchTerm && !filters.dateFrom && !filters.dateTo && filters.statuses.length === 0 && filters.labelFilter === 'all';
+}
+
+/**
+ * Query string for the open tab and its filters (empty values are left out)
+ */
+export function filtersToQuery(tab: VendorFilterTab, filters: TabFilterValues): URLSearchParams {
+  const query = new URLSearchParams();
+  query.set('tab', tab);
+  if (filters.searchTerm) query.set('q', filters.searchTerm);
+  if (filters.dateFrom) query.set('from', formatDay(filters.dateFrom)!);
+  if (filters.dateTo) query.set('to', formatDay(filters.dateTo)!);
+  if (filters.statuses.length > 0) query.set('status', filters.statuses.join(','));
+  if (filters.labelFilter !== 'all') query.set('label', filters.labelFilter);
+  return query;
+}
+
+/**
+ * Tab and filters from a dashboard URL, or null when the URL doesn't name a tab
+ */
+export function filtersFromQuery(search: string): { tab: VendorFilterTab; filters: TabFilterValues } | null {
+  const query = new URLSearchParams(search);
+  const tab = query.get('tab');
+  if (!isFilterTab(tab)) return null;
+
+  return {
+    tab,
+    filters: fromStored({
+      searchTerm: query.get('q') ?? '',
+      dateFrom: query.get('from') ?? undefined,
+      dateTo: query.get('to') ?? undefined,
+      statuses: query.get('status')?.split(',').filter(Boolean) ?? [],
+      labelFilter: query.get('label') ?? 'all',
+    }),
+  };
+}
+
+/**
+ * Replace the filter parameters of the current URL without navigating (other parameters stay)
+ */
+export function replaceFilterQuery(query: URLSearchParams): void {
+  if (typeof window === 'undefined') return;
+
+  const url = new URL(window.location.href);
+  QUERY_KEYS.forEach((key) => url.searchParams.delete(key));
+  query.forEach((value, key) => url.searchParams.set(key, value));
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
+
+/**
+ * Filters a preset stands for, with relative dates resolved against today
+ */
+export function resolvePreset(preset: FilterPreset): TabFilterValues {
+  const today = startOfDay(new Date());
+  return {
+    searchTerm: preset.searchTerm,
+    dateFrom: preset.dateFromOffset !== undefined ? addDays(today, preset.dateFromOffset) : parseDay(preset.dateFrom),
+    dateTo: preset.dateToOffset !== undefined ? addDays(today, preset.dateToOffset) : parseDay(preset.dateTo),
+    statuses: preset.statuses,
+    labelFilter: preset.labelFilter,
+  };
+}
+
+class VendorFilterPrefs {
+  /**
+   * Filters saved for every tab; tabs never filtered come back empty
+   */
+  loadFilters(userId: string): Record<VendorFilterTab, TabFilterValues> {
+    const stored = this.read<Partial<Record<VendorFilterTab, StoredTabFilters>>>(FILTERS_STORAGE_KEY, userId) ?? {};
+    const filters = {} as Record<VendorFilterTab, TabFilterValues>;
+    VENDOR_FILTER_TABS.forEach((tab) => {
+      filters[tab] = fromStored(stored[tab]);
+    });
+    return filters;
+  }
+
+  saveFilters(userId: string, filters: Record<VendorFilterTab, TabFilterValues>): void {
+    const stored: Partial<Record<VendorFilterTab, StoredTabFilters>> = {};
+    VENDOR_FILTER_TABS.forEach((tab) => {
+      if (!isEmptyTabFilters(filters[tab])) {
+        stored[tab] = toStored(filters[tab]);
+      }
+    });
+    this.write(FILTERS_STORAGE_KEY, userId, stored);
+  }
+
+  getPresets(userId: string): FilterPreset[] {
+    const presets = this.read<FilterPreset[]>(PRESETS_STORAGE_KEY, userId);
+    return Array.isArray(presets) ? presets.filter((preset) => preset?.id && isFilterTab(preset.tab)) : [];
+  }
+
+  /**
+   * Save a tab's current filters under a name (replacing a preset of the same name on that tab).
+   * With `relativeDates` the date range moves with the calendar.
+   */
+  savePreset(userId: string, name: string, tab: VendorFilterTab, filters: TabFilterValues, relativeDates: boolean): FilterPreset[] {
+    const today = startOfDay(new Date());
+    const preset: FilterPreset = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim(),
+      tab,
+      searchTerm: filters.searchTerm,
+      statuses: filters.statuses,
+      labelFilter: filters.labelFilter,
+      createdAt: Date.now(),
+    };
+
+    if (relativeDates) {
+      if (filters.dateFrom) preset.dateFromOffset = differenceInCalendarDays(filters.dateFrom, today);
+      if (filters.dateTo) preset.dateToOffset = differenceInCalendarDays(filters.dateTo, today);
+    } else {
+      preset.dateFrom = formatDay(filters.dateFrom);
+      preset.dateTo = formatDay(filters.dateTo);
+    }
+
+    const presets = [
+      ...this.getPresets(userId).filter((existing) => !(existing.tab === tab && existing.name === preset.name)),
+      preset,
+    ];
+    this.write(PRESETS_STORAGE_KEY, userId, presets);
+    return presets;
+  }
+
+  deletePreset(userId: string, id: string): FilterPreset[] {
+    const presets = this.getPresets(userId).filter((preset) => preset.id !== id);
+    this.write(PRESETS_STORAGE_KEY, userId, presets);
+    return presets;
+  }
+
+  private read<T>(key: string, userId: string): T | null {
+    if (typeof window === 'undefined') return null;
+    try {
+      const raw = localStorage.getItem(`${key}:${userId}`);
+      return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      console.error(`Error reading ${key}:`, error);
+      return null;
+    }
+  }
+
+  private write(key: string, userId: string, value: unknown): void {
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(`${key}:${userId}`, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Error saving ${key}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const vendorFilterPrefs = new VendorFilterPrefs();
@@ -0,0 +1,141 @@
+/**
+ * Vendor Order Sources
+ * How each vendor dashboard list fetches one page. Every endpoint reports pagination a
+ * little differently (pagination vs summary, hasMore vs has_next); each source turns its
+ * response into an OrderPage so lib/vendor-order-store.ts can paginate them all the same way.
+ */
+
+import { apiClient } from './api';
+import type { GroupedOrder, Order } from './api-types';
+import type { OrderListSource } from './vendor-order-store';
+
+const PAGE_SIZE = 50;
+
+// Filtered All Orders requests return every match in one page
+const FILTERED_PAGE_SIZE = 10000;
+
+// The same order_id can come from two stores, so grouped rows are told apart by store too
+export const groupKey = (order: GroupedOrder) =>
+  `${order.account_code || order.products?.[0]?.account_code || ''}|${order.order_id}`;
+
+const allOrders: OrderListSource<Order> = {
+  pageSize: PAGE_SIZE,
+  firstPageSize: 20,
+  itemKey: (order) => order.unique_id,
+  selectionKey: (order) => order.unique_id,
+  errorMessage: 'Failed to fetch orders',
+  fetchPage: async ({ page, limit, params, signal }) => {
+    const response = await apiClient.getOrders(
+      page,
+      params ? FILTERED_PAGE_SIZE : limit,
+      'unclaimed',
+      params?.search,
+      params?.dateFrom,
+      params?.dateTo,
+      signal
+    );
+    if (!response.success || !response.data) {
+      throw new Error('No orders found');
+    }
+
+    const pagination = response.data.pagination;
+    return {
+      items: response.data.orders || [],
+      hasMore: params ? false : pagination?.hasMore || false,
+      totalCount: pagination ? pagination.total || 0 : undefined,
+      totalQuantity: pagination ? pagination.totalQuantity || 0 : undefined,
+    };
+  },
+};
+
+const myOrders: OrderListSource<GroupedOrder> = {
+  pageSize: PAGE_SIZE,
+  itemKey: groupKey,
+  selectionKey: (order) => order.order_id,
+  errorMessage: 'Failed to fetch grouped orders',
+  fetchPage: async ({ page, limit, signal }) => {
+    const response = await apiClient.getGroupedOrders(page, limit, signal);
+    if (!response.success || !response.data || !Array.isArray(response.data.groupedOrders)) {
+      throw new Error('No grouped orders found');
+    }
+
+    const { groupedOrders, pagination, totalQuantity } = response.data;
+    return {
+      items: groupedOrders,
+      hasMore: pagination.hasMore,
+      totalCount: pagination.total,
+      // Only the first page carries the list-wide quantity
+      totalQuantity: page === 1 ? totalQuantity : undefined,
+    };
+  },
+};
+
+const handover: OrderListSource<GroupedOrder> = {
+  pageSize: PAGE_SIZE,
+  itemKey: groupKey,
+  selectionKey: (order) => order.order_id,
+  errorMessage: 'Failed to fetch handover orders',
+  fetchPage: async ({ page, limit, signal }) => {
+    const response = await apiClient.getHandoverOrders(page, limit, signal);
+    if (!response.success || !response.data) {
+      throw new Error('No handover orders found');
+    }
+
+    const { handoverOrders, pagination, summary } = response.data;
+    return {
+      items: handoverOrders || [],
+      // Later pages report has_next and put the totals in the summary
+      hasMore: page === 1 ? pagination?.hasMore || false : pagination?.has_next || false,
+      totalCount: summary?.total_orders ?? pagination?.total,
+      totalQuantity: summary?.total_quantity ?? pagination?.totalQuantity,
+    };
+  },
+};
+
+const orderTracking: OrderListSource<GroupedOrder> = {
+  pageSize: PAGE_SIZE,
+  itemKey: groupKey,
+  selectionKey: (order) => order.order_id,
+  errorMessage: 'Failed to fetch tracking orders',
+  fetchPage: async ({ page, limit, signal }) => {
+    const response = await apiClient.getOrderTrackingOrders(page, limit, signal);
+    if (!response.success || !response.data) {
+      throw new Error('No tracking orders found');
+    }
+
+    const { trackingOrders, pagination, summary } = response.data;
+    return {
+      items: trackingOrders || [],
+      hasMore: pagination?.hasMore || false,
+      totalCount: summary?.total_orders ?? pagination?.total,
+      totalQuantity: summary?.total_quantity,
+    };
+  },
+};
+
+export const vendorOrderSources = {
+  'all-orders': allOrders,
+  'my-orders': myOrders,
+  'handover': handover,
+  'order-tracking': orderTracking,
+};
+
+export type VendorOrderListKey = keyof typeof vendorOrderSources;
+
+/**
+ * The list an order belongs in after a status change, or undefined when the change
+ * (e.g. a new shipment scan) doesn't move it between tabs
+ */
+export function listForOrderStatus(status?: string, isHandover?: boolean | number | string): VendorOrderListKey | undefined {
+  if (isHandover === true || isHandover === 1 || isHandover === '1' || status === 'handover') return 'order-tracking';
+  switch (status) {
+    case 'unclaimed':
+      return 'all-orders';
+    case 'claimed':
+      return 'my-orders';
+    case 'ready_for_handover':
+      return 'handover';
+    default:
+      return undefined;
+  }
+}
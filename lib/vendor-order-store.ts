@@ -0,0 +1,522 @@
+/**
+ * Vendor Order Store
+ * One shared store for every paginated order list on the vendor dashboard. Each list
+ * (All Orders, My Orders, Handover, Order Tracking) is a slice keyed by tab, and every
+ * change goes through a single reducer. Components subscribe to one slice (see
+ * hooks/usePaginatedList.ts), so loading a page or patching an order re-renders only the
+ * tab that shows it - not the whole dashboard. Each tab's filters (search, dates, statuses,
+ * label filter) and selection live in its slice too, so changing them only re-renders the
+ * tab and the filter bar widgets bound to it.
+ *
+ * Pagination lives here once. A list only has to describe how to fetch one page
+ * (see lib/vendor-order-sources.ts); adding a tab means adding a source.
+ */
+
+import { isAbortError } from './api';
+import { vendorOrderSources } from './vendor-order-sources';
+import type { VendorOrderListKey } from './vendor-order-sources';
+import { EMPTY_TAB_FILTERS } from './vendor-filter-prefs';
+import type { TabFilterValues } from './vendor-filter-prefs';
+
+export type { VendorOrderListKey } from './vendor-order-sources';
+
+// Server-side filters for lists that support them (All Orders)
+export interface OrderListParams {
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface OrderPageRequest {
+  page: number;
+  limit: number;
+  params?: OrderListParams;
+  signal?: AbortSignal;
+}
+
+// One page, normalised from whatever pagination / summary shape the endpoint returns.
+// Missing totals keep the previous value.
+export interface OrderPage<T = any> {
+  items: T[];
+  hasMore: boolean;
+  totalCount?: number;
+  totalQuantity?: number;
+}
+
+export interface OrderListSource<T = any> {
+  pageSize: number;
+  // Smaller first page shown quickly, completed to `pageSize` in the background
+  firstPageSize?: number;
+  // Identity used to de-duplicate inserted and refreshed items
+  itemKey: (item: T) => string;
+  // Id stored in the list's selection
+  selectionKey: (item: T) => string;
+  // Error shown when a fetch fails without a message
+  errorMessage: string;
+  fetchPage: (request: OrderPageRequest) => Promise<OrderPage<T>>;
+}
+
+export interface OrderListState<T = any> {
+  items: T[];
+  // Next page to fetch
+  page: number;
+  hasMore: boolean;
+  totalCount: number;
+  totalQuantity: number;
+  // First page (or a reset) in flight
+  loading: boolean;
+  // Infinite scroll page in flight
+  loadingMore: boolean;
+  error: string;
+  // At least one page has arrived - later visits refresh silently instead of showing a spinner
+  loaded: boolean;
+  // Every page of the list, fetched on demand when client-side filters need the full set
+  allItems: T[];
+  loadingAll: boolean;
+  selected: string[];
+  // Client-side filters the tab shows the list with
+  filters: TabFilterValues;
+  // Item (by itemKey) the tab should scroll into view, e.g. a scanned order; cleared once shown
+  focused: string | null;
+}
+
+type ListKey = VendorOrderListKey;
+
+export type OrderListAction =
+  | { type: 'fetch-started'; key: ListKey; reset: boolean }
+  | { type: 'page-loaded'; key: ListKey; reset: boolean; result: OrderPage; nextPage: number }
+  | { type: 'fetch-failed'; key: ListKey; reset: boolean; error: string }
+  | { type: 'fetch-cancelled'; key: ListKey }
+  | { type: 'all-pages-started'; key: ListKey }
+  | { type: 'all-pages-loaded'; key: ListKey; items: any[] }
+  | { type: 'all-pages-cleared'; key: ListKey }
+  | { type: 'items-updated'; key: ListKey; update: (items: any[]) => any[] }
+  | { type: 'item-inserted'; key: ListKey; item: any }
+  | { type: 'items-removed'; key: ListKey; predicate: (item: any) => boolean }
+  | { type: 'order-patched'; keys: ListKey[]; orderId: string; patch: Record<string, any> }
+  | { type: 'selection-changed'; key: ListKey; selected: string[] }
+  | { type: 'filters-changed'; key: ListKey; filters: TabFilterValues }
+  | { type: 'item-focused'; key: ListKey; itemKey: string | null }
+  | { type: 'reset' };
+
+function createEmptyList(): OrderListState {
+  return {
+    items: [],
+    page: 1,
+    hasMore: true,
+    totalCount: 0,
+    totalQuantity: 0,
+    loading: true,
+    loadingMore: false,
+    error: '',
+    loaded: false,
+    allItems: [],
+    loadingAll: false,
+    selected: [],
+    filters: EMPTY_TAB_FILTERS,
+    focused: null,
+  };
+}
+
+function createEmptyLists(): Record<ListKey, OrderListState> {
+  const lists = {} as Record<ListKey, OrderListState>;
+  for (const key of Object.keys(vendorOrderSources) as ListKey[]) {
+    lists[key] = createEmptyList();
+  }
+  return lists;
+}
+
+class VendorOrderStore {
+  private lists = createEmptyLists();
+  private listeners = new Set<() => void>();
+  private controllers = new Map<ListKey, AbortController>();
+  private params = new Map<ListKey, OrderListParams | undefined>();
+  // Bumped whenever the all-pages set is cleared so a slow fetch can't bring it back
+  private allPagesGeneration = new Map<ListKey, number>();
+
+  /**
+   * Subscribe to store changes. Returns an unsubscribe function.
+   * Arrow function so it can be handed to useSyncExternalStore directly.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Current state of one list. Slices untouched by an action keep their identity.
+   */
+  getList<T = any>(key: ListKey): OrderListState<T> {
+    return this.lists[key];
+  }
+
+  /**
+   * Filters the list was last loaded with, as a stable string for comparisons
+   */
+  getParamsKey(key: ListKey): string {
+    return JSON.stringify(this.params.get(key) ?? null);
+  }
+
+  /**
+   * Whether the list was last loaded with server-side filters (search / dates)
+   */
+  isFiltered(key: ListKey): boolean {
+    return Boolean(this.params.get(key));
+  }
+
+  dispatch(action: OrderListAction): void {
+    this.lists = this.reduce(this.lists, action);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Load the first page (`reset`, the default) or the next page of a list.
+   * A reset replaces the list's filters; a newer load for the same list supersedes
+   * (aborts) an older one.
+   */
+  async load(key: ListKey, options: { reset?: boolean; params?: OrderListParams } = {}): Promise<void> {
+    const reset = options.reset ?? true;
+    const source = vendorOrderSources[key];
+    if (reset) {
+      this.params.set(key, options.params);
+    }
+    const params = this.params.get(key);
+    const page = reset ? 1 : this.lists[key].page;
+    const quickFirstPage = reset && !params && source.firstPageSize ? source.firstPageSize : undefined;
+    const limit = quickFirstPage ?? source.pageSize;
+
+    const controller = this.startFetch(key);
+    this.dispatch({ type: 'fetch-started', key, reset });
+
+    try {
+      const result = await source.fetchPage({ page, limit, params, signal: controller.signal });
+      this.dispatch({ type: 'page-loaded', key, reset, result, nextPage: page + 1 });
+      console.log(`📄 ${key}: page ${page} loaded (${result.items.length} orders)`);
+
+      if (quickFirstPage && result.items.length === quickFirstPage && (result.totalCount ?? 0) > quickFirstPage) {
+        await this.completeFirstPage(key, controller, result.items.length);
+      }
+    } catch (err: any) {
+      // Superseded or cancelled - the state belongs to whoever aborted it
+      if (isAbortError(err)) return;
+      console.error(`❌ ${key}: failed to load page ${page}:`, err);
+      this.dispatch({ type: 'fetch-failed', key, reset, error: err?.message || source.errorMessage });
+    } finally {
+      if (this.controllers.get(key) === controller) {
+        this.controllers.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Load the next page unless one is already in flight or the list is exhausted.
+   * Safe to call from scroll handlers.
+   */
+  loadMore(key: ListKey): Promise<void> | undefined {
+    const list = this.lists[key];
+    if (!list.loaded || !list.hasMore || list.loading || list.loadingMore) return undefined;
+    return this.load(key, { reset: false });
+  }
+
+  /**
+   * Reload the first page in the background without a loading state, keeping the list's
+   * filters. Resolves with the number of items that were not in the list before.
+   */
+  async refresh(key: ListKey): Promise<number> {
+    const source: OrderListSource = vendorOrderSources[key];
+    const params = this.params.get(key);
+    const controller = this.startFetch(key);
+
+    try {
+      const result = await source.fetchPage({ page: 1, limit: source.pageSize, params, signal: controller.signal });
+      const known = new Set(this.lists[key].items.map(source.itemKey));
+      const added = result.items.filter((item) => !known.has(source.itemKey(item))).length;
+      this.dispatch({ type: 'page-loaded', key, reset: true, result, nextPage: 2 });
+      console.log(`🔄 ${key}: refreshed (${added} new)`);
+      return added;
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error(`❌ ${key}: background refresh failed:`, err);
+      }
+      return 0;
+    } finally {
+      if (this.controllers.get(key) === controller) {
+        this.controllers.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Fetch every page of a list into `allItems` (used when client-side filters have to
+   * see more than the pages scrolled so far)
+   */
+  async loadAllPages(key: ListKey): Promise<void> {
+    const source = vendorOrderSources[key];
+    const generation = this.allPagesGeneration.get(key) ?? 0;
+    this.dispatch({ type: 'all-pages-started', key });
+
+    let items: any[] = [];
+    try {
+      let page = 1;
+      let hasMore = true;
+      while (hasMore) {
+        const result = await source.fetchPage({ page, limit: source.pageSize, params: this.params.get(key) });
+        items = [...items, ...result.items];
+        hasMore = result.hasMore && result.items.length > 0;
+        page++;
+      }
+      console.log(`✅ ${key}: fetched all pages (${items.length} orders)`);
+    } catch (err) {
+      console.error(`❌ ${key}: failed to fetch all pages:`, err);
+      items = [];
+    }
+
+    if ((this.allPagesGeneration.get(key) ?? 0) === generation) {
+      this.dispatch({ type: 'all-pages-loaded', key, items });
+    }
+  }
+
+  clearAllPages(key: ListKey): void {
+    this.allPagesGeneration.set(key, (this.allPagesGeneration.get(key) ?? 0) + 1);
+    if (this.lists[key].allItems.length > 0 || this.lists[key].loadingAll) {
+      this.dispatch({ type: 'all-pages-cleared', key });
+    }
+  }
+
+  /**
+   * Abort the list's in-flight fetch (e.g. its tab was closed)
+   */
+  cancel(key: ListKey): void {
+    const controller = this.controllers.get(key);
+    if (!controller) return;
+    controller.abort();
+    this.controllers.delete(key);
+    this.dispatch({ type: 'fetch-cancelled', key });
+  }
+
+  updateItems(key: ListKey, update: (items: any[]) => any[]): void {
+    this.dispatch({ type: 'items-updated', key, update });
+  }
+
+  /**
+   * Prepend an item unless the list already has it; counts it in the list's total
+   */
+  insertItem(key: ListKey, item: any): void {
+    this.dispatch({ type: 'item-inserted', key, item });
+  }
+
+  /**
+   * Remove matching items (and their selection); uncounts them from the list's total
+   */
+  removeItems(key: ListKey, predicate: (item: any) => boolean): void {
+    this.dispatch({ type: 'items-removed', key, predicate });
+  }
+
+  /**
+   * Merge `patch` into every copy of an order, in the given lists or all of them
+   */
+  patchOrder(orderId: string, patch: Record<string, any>, keys?: ListKey[]): void {
+    this.dispatch({ type: 'order-patched', keys: keys ?? (Object.keys(this.lists) as ListKey[]), orderId, patch });
+  }
+
+  setSelection(key: ListKey, selected: string[] | ((previous: string[]) => string[])): void {
+    const next = typeof selected === 'function' ? selected(this.lists[key].selected) : selected;
+    this.dispatch({ type: 'selection-changed', key, selected: next });
+  }
+
+  isSelected(key: ListKey, item: any): boolean {
+    const source: OrderListSource = vendorOrderSources[key];
+    return this.lists[key].selected.includes(source.selectionKey(item));
+  }
+
+  /**
+   * Add items to the list's selection (by the source's selection key), keeping what was selected
+   */
+  selectItems(key: ListKey, items: any[]): void {
+    const source: OrderListSource = vendorOrderSources[key];
+    const ids = items.map(source.selectionKey);
+    this.setSelection(key, (previous) => [...previous, ...ids.filter((id) => !previous.includes(id))]);
+  }
+
+  /**
+   * Change the filters the tab shows the list with; fields not given keep their value
+   */
+  setFilters(key: ListKey, filters: Partial<TabFilterValues>): void {
+    this.dispatch({ type: 'filters-changed', key, filters: { ...this.lists[key].filters, ...filters } });
+  }
+
+  /**
+   * Clear the filters of every list
+   */
+  clearFilters(): void {
+    for (const key of Object.keys(this.lists) as ListKey[]) {
+      this.setFilters(key, EMPTY_TAB_FILTERS);
+    }
+  }
+
+  /**
+   * Ask the tab showing the list to scroll an item into view (null clears the request)
+   */
+  focusItem(key: ListKey, item: any | null): void {
+    const source: OrderListSource = vendorOrderSources[key];
+    this.dispatch({ type: 'item-focused', key, itemKey: item ? source.itemKey(item) : null });
+  }
+
+  /**
+   * Drop every list (logout / dashboard unmount) so the next vendor starts clean
+   */
+  reset(): void {
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+    this.params.clear();
+    this.allPagesGeneration.clear();
+    this.dispatch({ type: 'reset' });
+  }
+
+  private startFetch(key: ListKey): AbortController {
+    this.controllers.get(key)?.abort();
+    const controller = new AbortController();
+    this.controllers.set(key, controller);
+    return controller;
+  }
+
+  // The quick first page is on screen - fetch the full first page and swap it in. Shown as
+  // "loading more" so infinite scroll waits instead of skipping the rest of page 1.
+  private async completeFirstPage(key: ListKey, controller: AbortController, shownCount: number): Promise<void> {
+    const source = vendorOrderSources[key];
+    console.log(`🚀 ${key}: completing first page to ${source.pageSize} in the background...`);
+    this.dispatch({ type: 'fetch-started', key, reset: false });
+
+    try {
+      const result = await source.fetchPage({ page: 1, limit: source.pageSize, signal: controller.signal });
+      if (result.items.length > shownCount) {
+        this.dispatch({ type: 'page-loaded', key, reset: true, result, nextPage: 2 });
+        console.log(`✅ ${key}: background load complete (${result.items.length} orders)`);
+      } else {
+        this.dispatch({ type: 'fetch-cancelled', key });
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      // The quick first page is already displayed - nothing to show the user
+      console.error(`❌ ${key}: background load failed:`, error);
+      this.dispatch({ type: 'fetch-cancelled', key });
+    }
+  }
+
+  private reduce(lists: Record<ListKey, OrderListState>, action: OrderListAction): Record<ListKey, OrderListState> {
+    if (action.type === 'reset') {
+      return createEmptyLists();
+    }
+
+    if (action.type === 'order-patched') {
+      const next = { ...lists };
+      const matches = (order: any) => order.order_id === action.orderId;
+      for (const key of action.keys) {
+        const list = lists[key];
+        if (!list.items.some(matches) && !list.allItems.some(matches)) continue;
+        const apply = (items: any[]) => items.map((order) => (matches(order) ? { ...order, ...action.patch } : order));
+        next[key] = { ...list, items: apply(list.items), allItems: apply(list.allItems) };
+      }
+      return next;
+    }
+
+    const list = lists[action.key];
+    const source = vendorOrderSources[action.key];
+    let updated: OrderListState;
+
+    switch (action.type) {
+      case 'fetch-started':
+        updated = action.reset
+          ? { ...list, loading: true, loadingMore: false, error: '' }
+          : { ...list, loadingMore: true, error: '' };
+        break;
+
+      case 'page-loaded': {
+        const { result } = action;
+        updated = {
+          ...list,
+          items: action.reset ? result.items : [...list.items, ...result.items],
+          page: action.nextPage,
+          hasMore: result.hasMore,
+          totalCount: result.totalCount ?? list.totalCount,
+          totalQuantity: result.totalQuantity ?? list.totalQuantity,
+          loading: false,
+          loadingMore: false,
+          error: '',
+          loaded: true,
+        };
+        break;
+      }
+
+      case 'fetch-failed':
+        updated = {
+          ...list,
+          items: action.reset ? [] : list.items,
+          loading: false,
+          loadingMore: false,
+          error: action.error,
+        };
+        break;
+
+      case 'fetch-cancelled':
+        updated = { ...list, loading: false, loadingMore: false };
+        break;
+
+      case 'all-pages-started':
+        updated = { ...list, loadingAll: true };
+        break;
+
+      case 'all-pages-loaded':
+        updated = { ...list, allItems: action.items, loadingAll: false };
+        break;
+
+      case 'all-pages-cleared':
+        updated = { ...list, allItems: [], loadingAll: false };
+        break;
+
+      case 'items-updated':
+        updated = { ...list, items: action.update(list.items) };
+        break;
+
+      case 'item-inserted': {
+        const itemKey = source.itemKey(action.item);
+        if (list.items.some((item) => source.itemKey(item) === itemKey)) return lists;
+        updated = { ...list, items: [action.item, ...list.items], totalCount: list.totalCount + 1 };
+        break;
+      }
+
+      case 'items-removed': {
+        const removed = list.items.filter(action.predicate);
+        if (removed.length === 0) return lists;
+        const removedIds = new Set(removed.map(source.selectionKey));
+        updated = {
+          ...list,
+          items: list.items.filter((item) => !action.predicate(item)),
+          allItems: list.allItems.filter((item) => !action.predicate(item)),
+          totalCount: Math.max(0, list.totalCount - removed.length),
+          selected: list.selected.filter((id) => !removedIds.has(id)),
+        };
+        break;
+      }
+
+      case 'selection-changed':
+        updated = { ...list, selected: action.selected };
+        break;
+
+      case 'filters-changed':
+        updated = { ...list, filters: action.filters };
+        break;
+
+      case 'item-focused':
+        if (list.focused === action.itemKey) return lists;
+        updated = { ...list, focused: action.itemKey };
+        break;
+    }
+
+    return { ...lists, [action.key]: updated };
+  }
+}
+
+export const vendorOrderStore = new VendorOrderStore();
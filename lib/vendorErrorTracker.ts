@@ -114,6 +114,10 @@ class VendorErrorTracker {
         
         return response;
       } catch (error: any) {
+        // Cancelled requests (superseded dashboard fetches) are not failures
+        if (error?.name === 'AbortError') {
+          throw error;
+        }
         this.trackError({
           type: 'NETWORK_ERROR',
           code: 'FETCH_ERROR',
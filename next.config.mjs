@@ -181,7 +181,35 @@ export default withPWA({
         networkTimeoutSeconds: 30 // Increased from 10s for slow networks
       }
     },
-    // Special handling for authenticated pages - always use network first
+    // App shell of the dashboards - page navigations only. These pages are statically rendered
+    // client components: the HTML is the same loading shell for every user (ProtectedRoute and
+    // the dashboards read the session from localStorage), so it can be kept long enough to open
+    // the dashboard offline days after the last visit. Order data still comes from IndexedDB
+    // snapshots keyed by user id (lib/offline-read-cache.ts), never from this cache.
+    {
+      urlPattern: ({ request, url }) => {
+        const pathname = url.pathname;
+        return request.mode === 'navigate' && (
+          pathname.startsWith('/vendor/') ||
+          pathname.startsWith('/admin/') ||
+          pathname.startsWith('/superadmin/'));
+      },
+      handler: 'NetworkFirst',
+      options: {
+        cacheName: 'app-shell',
+        networkTimeoutSeconds: 30,
+        expiration: {
+          maxEntries: 10,
+          maxAgeSeconds: 7 * 24 * 60 * 60 // 7 days
+        },
+        // Never keep an error page or a redirect as the shell
+        cacheableResponse: {
+          statuses: [200]
+        }
+      }
+    },
+    // Everything else under the authenticated areas (RSC payloads, prefetches) - network first,
+    // kept for a minute only so a shared device never gets another user's response
     {
       urlPattern: ({ url }) => {
         const pathname = url.pathname;
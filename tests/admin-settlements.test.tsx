@@ -0,0 +1,117 @@
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AdminDashboard } from '@/components/admin/admin-dashboard';
+import { apiClient } from '@/lib/api';
+import { ok } from './mock-api-client';
+
+const toast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: (await import('./mock-api-client')).createApiClientMock(),
+}));
+vi.mock('@/hooks/use-toast', () => ({ useToast: () => ({ toast, dismiss: vi.fn(), toasts: [] }), toast }));
+vi.mock('@/components/auth/auth-provider', () => ({
+  useAuth: () => ({
+    user: { id: 'a-1', name: 'Test Admin', email: 'admin@claimio.test', role: 'admin' },
+    loading: false,
+    login: vi.fn(),
+    logout: vi.fn(),
+  }),
+}));
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn(), back: vi.fn(), refresh: vi.fn() }),
+  usePathname: () => '/admin/orders',
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+const api = vi.mocked(apiClient);
+
+const pendingSettlement = {
+  id: 's-1',
+  vendorName: 'Mumbai Traders',
+  amount: 1200,
+  amountPaid: 0,
+  status: 'pending',
+  upiId: 'mumbai@upi',
+  numberOfOrders: 3,
+  createdAt: '2026-10-10T09:00:00.000Z',
+};
+
+// The list's row actions are icon buttons: view, approve, reject
+async function openSettlementAction(action: 'approve' | 'reject') {
+  render(<AdminDashboard />);
+  await userEvent.click(await screen.findByRole('tab', { name: /Settlements/ }));
+
+  const row = (await screen.findByText('Mumbai Traders')).closest('tr') as HTMLElement;
+  const [, approveButton, rejectButton] = within(row).getAllByRole('button');
+  await userEvent.click(action === 'approve' ? approveButton : rejectButton);
+  return screen.findByRole('dialog');
+}
+
+describe('AdminDashboard settlements', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    api.getAllSettlements.mockResolvedValue(
+      ok({
+        settlements: [pendingSettlement],
+        pagination: { totalPages: 1, totalItems: 1 },
+      })
+    );
+  });
+
+  it('approves a settlement with the amount paid and its transaction ID', async () => {
+    api.approveSettlement.mockResolvedValue(ok({}, 'Settlement approved'));
+    const dialog = await openSettlementAction('approve');
+
+    expect(within(dialog).getByLabelText('Amount to Pay (₹)')).toHaveValue(1200);
+    await userEvent.type(within(dialog).getByLabelText('Transaction ID'), 'UTR-5521');
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Approve Settlement' }));
+
+    await waitFor(() => expect(api.approveSettlement).toHaveBeenCalledWith('s-1', 1200, 'UTR-5521', undefined));
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Settlement Approved' }));
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+  });
+
+  it('does not approve more than is owed', async () => {
+    const dialog = await openSettlementAction('approve');
+
+    const amount = within(dialog).getByLabelText('Amount to Pay (₹)');
+    await userEvent.clear(amount);
+    await userEvent.type(amount, '1500');
+    await userEvent.type(within(dialog).getByLabelText('Transaction ID'), 'UTR-5521');
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Approve Settlement' }));
+
+    await waitFor(() => expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Invalid Amount' })));
+    expect(api.approveSettlement).not.toHaveBeenCalled();
+  });
+
+  it('rejects a settlement with the given reason', async () => {
+    api.rejectSettlement.mockResolvedValue(ok({}));
+    const dialog = await openSettlementAction('reject');
+
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Reject Settlement' }));
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Missing Rejection Reason' }));
+    expect(api.rejectSettlement).not.toHaveBeenCalled();
+
+    await userEvent.type(within(dialog).getByLabelText('Rejection Reason'), 'Orders were returned');
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Reject Settlement' }));
+
+    await waitFor(() => expect(api.rejectSettlement).toHaveBeenCalledWith('s-1', 'Orders were returned'));
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Settlement Rejected' }));
+  });
+
+  it('searches by vendor name once typing pauses', async () => {
+    render(<AdminDashboard />);
+    await userEvent.click(await screen.findByRole('tab', { name: /Settlements/ }));
+    await screen.findByText('Mumbai Traders');
+    api.getAllSettlements.mockClear();
+
+    await userEvent.type(screen.getByPlaceholderText('Search by vendor...'), 'Mumbai');
+
+    await waitFor(() => expect(api.getAllSettlements).toHaveBeenCalledWith(expect.objectContaining({ vendorName: 'Mumbai', page: 1 })));
+    expect(api.getAllSettlements).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,20 @@
+import { vi } from 'vitest';
+import type { Mock } from 'vitest';
+
+// Stand-in for lib/api's apiClient: every method is a vi.fn. Methods a test doesn't set up
+// resolve to an empty successful response, so components can mount without a backend.
+export function createApiClientMock() {
+  const methods: Record<string | symbol, Mock> = {};
+  return new Proxy(methods, {
+    get(target, property) {
+      if (property === 'then') return undefined;
+      if (!target[property]) {
+        target[property] = vi.fn(async () => ({ success: true, message: '', data: undefined }));
+      }
+      return target[property];
+    },
+  });
+}
+
+export const ok = <T>(data: T, message = '') => ({ success: true as const, message, data });
+export const fail = (message: string) => ({ success: false as const, message });
@@ -0,0 +1,94 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ok } from './mock-api-client';
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: (await import('./mock-api-client')).createApiClientMock(),
+}));
+
+function signIn(userId: string) {
+  localStorage.setItem('user_data', JSON.stringify({ id: userId, role: 'vendor' }));
+  localStorage.setItem('auth_session', JSON.stringify({ accessToken: `access-${userId}`, refreshToken: `refresh-${userId}`, expiresAt: Date.now() + 60000 }));
+}
+
+// A fresh module is a page reload: the queue comes back from IndexedDB
+async function loadOutbox() {
+  vi.resetModules();
+  const { offlineOutbox } = await import('@/lib/offline-outbox');
+  const { apiClient } = await import('@/lib/api');
+  return { offlineOutbox, api: vi.mocked(apiClient) };
+}
+
+function pendingEntries(outbox: { subscribe: (listener: (entries: unknown[]) => void) => () => void }) {
+  let entries: unknown[] = [];
+  outbox.subscribe((latest) => {
+    entries = latest;
+  })();
+  return entries;
+}
+
+describe('offlineOutbox', () => {
+  let online: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    online = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('replays actions queued while offline once the connection is back', async () => {
+    const { offlineOutbox, api } = await loadOutbox();
+    api.bulkClaimOrders.mockResolvedValue(ok({ successful_claims: [{ unique_id: 'U-1' }], failed_claims: [], total_successful: 1, total_failed: 0 }));
+    signIn('v-1');
+
+    const result = await offlineOutbox.submit({ type: 'bulk-claim', payload: { unique_ids: ['U-1'] } });
+    expect(result.queued).toBe(true);
+    expect(api.bulkClaimOrders).not.toHaveBeenCalled();
+
+    online.mockReturnValue(true);
+    await offlineOutbox.replay();
+
+    expect(api.bulkClaimOrders).toHaveBeenCalledWith(['U-1']);
+    expect(pendingEntries(offlineOutbox)).toEqual([]);
+  });
+
+  it('discards actions queued by another user instead of sending them', async () => {
+    signIn('v-1');
+    await (await loadOutbox()).offlineOutbox.submit({ type: 'mark-ready', payload: { order_id: 'ORD-1' } });
+
+    // Another vendor signs in on the same device after a reload
+    signIn('v-2');
+    online.mockReturnValue(true);
+    const { offlineOutbox, api } = await loadOutbox();
+    await offlineOutbox.replay();
+
+    expect(api.markOrderReady).not.toHaveBeenCalled();
+    expect(pendingEntries(offlineOutbox)).toEqual([]);
+
+    // Dropped from IndexedDB too, not just from memory
+    signIn('v-1');
+    const reloaded = await loadOutbox();
+    await reloaded.offlineOutbox.replay();
+    expect(reloaded.api.markOrderReady).not.toHaveBeenCalled();
+  });
+
+  it('keeps queued actions while signed out', async () => {
+    const { offlineOutbox, api } = await loadOutbox();
+    signIn('v-1');
+    await offlineOutbox.submit({ type: 'mark-ready', payload: { order_id: 'ORD-1' } });
+
+    localStorage.removeItem('auth_session');
+    online.mockReturnValue(true);
+    await offlineOutbox.replay();
+
+    expect(api.markOrderReady).not.toHaveBeenCalled();
+    expect(pendingEntries(offlineOutbox)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProtectedRoute } from '@/components/auth/protected-route';
+
+const auth = vi.hoisted(() => ({ user: null as { role: string } | null, loading: false }));
+const router = vi.hoisted(() => ({ push: vi.fn(), replace: vi.fn(), back: vi.fn(), refresh: vi.fn() }));
+
+vi.mock('@/components/auth/auth-provider', () => ({ useAuth: () => auth }));
+vi.mock('next/navigation', () => ({ useRouter: () => router }));
+
+const renderRoute = (allowedRoles: string[]) =>
+  render(
+    <ProtectedRoute allowedRoles={allowedRoles}>
+      <p>Protected page</p>
+    </ProtectedRoute>
+  );
+
+describe('ProtectedRoute', () => {
+  beforeEach(() => {
+    router.push.mockClear();
+    auth.user = null;
+    auth.loading = false;
+  });
+
+  it('waits for the session before deciding', () => {
+    auth.loading = true;
+    renderRoute(['vendor']);
+
+    expect(screen.getByText('Loading...')).toBeInTheDocument();
+    expect(router.push).not.toHaveBeenCalled();
+  });
+
+  it('sends signed-out visitors to the login page', async () => {
+    renderRoute(['vendor']);
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith('/'));
+    expect(screen.queryByText('Protected page')).not.toBeInTheDocument();
+  });
+
+  it('renders the page for an allowed role', () => {
+    auth.user = { role: 'admin' };
+    renderRoute(['admin', 'superadmin']);
+
+    expect(screen.getByText('Protected page')).toBeInTheDocument();
+    expect(router.push).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['vendor', '/vendor/dashboard'],
+    ['admin', '/admin/orders'],
+    ['superadmin', '/superadmin/settings'],
+    ['unknown', '/'],
+  ])('sends a %s outside its area to %s', async (role, destination) => {
+    auth.user = { role };
+    renderRoute(['some-other-role']);
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith(destination));
+    expect(screen.getByText('Redirecting...')).toBeInTheDocument();
+    expect(screen.queryByText('Protected page')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,107 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SettlementBulkActionDialog } from '@/components/admin/settlement-bulk-action-dialog';
+import type { SettlementBulkAction } from '@/components/admin/settlement-bulk-action-dialog';
+import { apiClient } from '@/lib/api';
+import type { Settlement } from '@/lib/api-types';
+import { fail, ok } from './mock-api-client';
+
+const toast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: (await import('./mock-api-client')).createApiClientMock(),
+}));
+vi.mock('@/hooks/use-toast', () => ({ useToast: () => ({ toast }), toast }));
+
+const api = vi.mocked(apiClient);
+
+const settlements: Settlement[] = [
+  { id: 's-1', vendorName: 'Mumbai Traders', amount: '1200.50', status: 'pending' },
+  { id: 's-2', vendorName: 'Delhi Goods', amount: 800, status: 'pending' },
+];
+
+function renderDialog(action: SettlementBulkAction) {
+  const onOpenChange = vi.fn();
+  const onCompleted = vi.fn();
+  render(
+    <SettlementBulkActionDialog
+      action={action}
+      settlements={settlements}
+      onOpenChange={onOpenChange}
+      onCompleted={onCompleted}
+    />
+  );
+  return { onOpenChange, onCompleted };
+}
+
+describe('SettlementBulkActionDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('summarises the selected settlements', () => {
+    renderDialog('approve');
+
+    expect(screen.getByText('Approve 2 settlements')).toBeInTheDocument();
+    expect(screen.getByText('₹2000.50 requested by 2 vendors')).toBeInTheDocument();
+  });
+
+  it('approves every selected settlement and refreshes the list', async () => {
+    api.bulkApproveSettlements.mockResolvedValue(ok({ updated: ['s-1', 's-2'], failed: [] }, '2 settlements approved'));
+    const { onOpenChange, onCompleted } = renderDialog('approve');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Approve All' }));
+
+    await waitFor(() => expect(onCompleted).toHaveBeenCalled());
+    expect(api.bulkApproveSettlements).toHaveBeenCalledWith(['s-1', 's-2']);
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Settlements Approved', variant: 'default' }));
+  });
+
+  it('reports the settlements the backend skipped', async () => {
+    api.bulkApproveSettlements.mockResolvedValue(
+      ok({ updated: ['s-1'], failed: [{ settlementId: 's-2', message: 'Already Approved' }] })
+    );
+    renderDialog('approve');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Approve All' }));
+
+    await waitFor(() =>
+      expect(toast).toHaveBeenCalledWith(
+        expect.objectContaining({ description: '1 updated, 1 skipped: #s-2 already approved', variant: 'destructive' })
+      )
+    );
+  });
+
+  it('needs a reason before rejecting', async () => {
+    api.bulkRejectSettlements.mockResolvedValue(ok({ updated: ['s-1', 's-2'], failed: [] }));
+    const { onCompleted } = renderDialog('reject');
+
+    const rejectButton = screen.getByRole('button', { name: 'Reject All' });
+    expect(rejectButton).toBeDisabled();
+
+    await userEvent.type(screen.getByLabelText('Rejection Reason'), '  Duplicate request  ');
+    await userEvent.click(rejectButton);
+
+    await waitFor(() => expect(onCompleted).toHaveBeenCalled());
+    expect(api.bulkRejectSettlements).toHaveBeenCalledWith(['s-1', 's-2'], 'Duplicate request');
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Settlements Rejected' }));
+  });
+
+  it('keeps the dialog open when the request fails', async () => {
+    api.bulkApproveSettlements.mockResolvedValue(fail('Settlement service unavailable'));
+    const { onOpenChange, onCompleted } = renderDialog('approve');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Approve All' }));
+
+    await waitFor(() =>
+      expect(toast).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Bulk Action Failed', description: 'Settlement service unavailable' })
+      )
+    );
+    expect(onOpenChange).not.toHaveBeenCalled();
+    expect(onCompleted).not.toHaveBeenCalled();
+  });
+});
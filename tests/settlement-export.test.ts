@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiClient } from '@/lib/api';
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const authorizationOf = (call: unknown[]) => ((call[1] as RequestInit).headers as Record<string, string>).Authorization;
+
+describe('apiClient.exportSettlementsCSV', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem(
+      'auth_session',
+      JSON.stringify({ accessToken: 'old-token', refreshToken: 'refresh-1', expiresAt: Date.now() + 60 * 60 * 1000 })
+    );
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('refreshes an expired token and downloads the file', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json(401, { success: false, message: 'Token expired' }))
+      .mockResolvedValueOnce(
+        json(200, { success: true, message: 'Refreshed', data: { accessToken: 'new-token', refreshToken: 'refresh-2', expiresIn: 900 } })
+      )
+      .mockResolvedValueOnce(new Response('id,amount\ns-1,1200\n', { status: 200, headers: { 'Content-Type': 'text/csv' } }));
+
+    const blob = await apiClient.exportSettlementsCSV({ status: 'pending' });
+
+    expect(await blob.text()).toBe('id,amount\ns-1,1200\n');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/settlements\/admin\/export-csv\?status=pending$/);
+    expect(authorizationOf(fetchMock.mock.calls[0])).toBe('Bearer old-token');
+    expect(fetchMock.mock.calls[1][0]).toMatch(/\/auth\/refresh$/);
+    expect(authorizationOf(fetchMock.mock.calls[2])).toBe('Bearer new-token');
+  });
+
+  it('reports the backend error message', async () => {
+    fetchMock.mockResolvedValueOnce(json(403, { success: false, message: 'Admins only' }));
+
+    await expect(apiClient.exportSettlementsCSV()).rejects.toThrow('Admins only');
+  });
+});
@@ -0,0 +1,47 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach, vi } from 'vitest';
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
+
+// jsdom leaves out the layout and media APIs the dashboards use on mount
+window.matchMedia = window.matchMedia || ((query: string) => ({
+  matches: false,
+  media: query,
+  onchange: null,
+  addListener: () => {},
+  removeListener: () => {},
+  addEventListener: () => {},
+  removeEventListener: () => {},
+  dispatchEvent: () => false,
+}));
+window.scrollTo = vi.fn() as unknown as typeof window.scrollTo;
+Element.prototype.scrollIntoView = vi.fn();
+Element.prototype.hasPointerCapture = () => false;
+Element.prototype.releasePointerCapture = vi.fn();
+
+// Label PDFs are read back with blob.arrayBuffer() and handed out as object URLs
+Blob.prototype.arrayBuffer = Blob.prototype.arrayBuffer || function (this: Blob) {
+  return new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(this);
+  });
+};
+URL.createObjectURL = URL.createObjectURL || (() => 'blob:test');
+URL.revokeObjectURL = URL.revokeObjectURL || (() => {});
+
+class NoopObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+  takeRecords() {
+    return [];
+  }
+}
+globalThis.ResizeObserver = globalThis.ResizeObserver || (NoopObserver as unknown as typeof ResizeObserver);
+globalThis.IntersectionObserver = globalThis.IntersectionObserver || (NoopObserver as unknown as typeof IntersectionObserver);
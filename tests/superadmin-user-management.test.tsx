@@ -0,0 +1,95 @@
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { UserManagement } from '@/components/superadmin/user-management';
+import { apiClient } from '@/lib/api';
+import { ok } from './mock-api-client';
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: (await import('./mock-api-client')).createApiClientMock(),
+}));
+vi.mock('@/hooks/use-toast', () => ({ useToast: () => ({ toast: vi.fn(), dismiss: vi.fn(), toasts: [] }), toast: vi.fn() }));
+vi.mock('@/components/auth/auth-provider', () => ({
+  useAuth: () => ({
+    user: { id: 'sa-1', name: 'Test Superadmin', email: 'root@claimio.test', role: 'superadmin' },
+    loading: false,
+    login: vi.fn(),
+    logout: vi.fn(),
+  }),
+}));
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn(), back: vi.fn(), refresh: vi.fn() }),
+  usePathname: () => '/superadmin/settings',
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+const api = vi.mocked(apiClient);
+
+const users = [
+  { id: 'sa-1', name: 'Test Superadmin', email: 'root@claimio.test', role: 'superadmin' as const, status: 'active', createdAt: '2026-01-01T00:00:00.000Z' },
+  { id: 'u-2', name: 'Mumbai Traders', email: 'mumbai@claimio.test', role: 'vendor' as const, status: 'active', warehouseId: 'WH1001', createdAt: '2026-02-01T00:00:00.000Z' },
+];
+
+// Each user card's actions are icon buttons: edit, change password, delete
+async function userCard(name: string) {
+  return (await screen.findByRole('heading', { name })).closest('.p-6') as HTMLElement;
+}
+
+describe('UserManagement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    api.getUsers.mockResolvedValue(ok({ users }));
+    api.getShippingPartners.mockResolvedValue(ok([]));
+    api.getAllStores.mockResolvedValue(ok([]));
+    api.getAllWhMappings.mockResolvedValue(ok([]));
+    api.getWhMappingVendors.mockResolvedValue(ok([]));
+    api.getWhMappingStores.mockResolvedValue(ok([]));
+  });
+
+  it('only offers account actions on users below superadmin', async () => {
+    render(<UserManagement />);
+
+    expect(within(await userCard('Mumbai Traders')).getAllByRole('button')).toHaveLength(3);
+    expect(within(await userCard('Test Superadmin')).queryAllByRole('button')).toHaveLength(0);
+  });
+
+  it("changes a vendor's password", async () => {
+    api.changeUserPassword.mockResolvedValue(ok({}));
+    render(<UserManagement />);
+
+    const [, changePassword] = within(await userCard('Mumbai Traders')).getAllByRole('button');
+    await userEvent.click(changePassword);
+    const dialog = await screen.findByRole('dialog', { name: /Change Password for Mumbai Traders/ });
+
+    await userEvent.type(within(dialog).getByLabelText(/^New Password/), 'secret1');
+    await userEvent.type(within(dialog).getByLabelText(/^Confirm New Password/), 'secret2');
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Change Password' }));
+    expect(await within(dialog).findByText('Passwords do not match')).toBeInTheDocument();
+    expect(api.changeUserPassword).not.toHaveBeenCalled();
+
+    await userEvent.clear(within(dialog).getByLabelText(/^Confirm New Password/));
+    await userEvent.type(within(dialog).getByLabelText(/^Confirm New Password/), 'secret1');
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Change Password' }));
+
+    await waitFor(() => expect(api.changeUserPassword).toHaveBeenCalledWith('u-2', 'secret1'));
+    expect(await within(dialog).findByText('Password changed successfully for Mumbai Traders!')).toBeInTheDocument();
+  });
+
+  it('deletes a user after confirmation and reloads the list', async () => {
+    api.deleteUser.mockResolvedValue(ok({}));
+    render(<UserManagement />);
+    const card = await userCard('Mumbai Traders');
+    api.getUsers.mockResolvedValue(ok({ users: users.filter((user) => user.id !== 'u-2') }));
+
+    const [, , deleteButton] = within(card).getAllByRole('button');
+    await userEvent.click(deleteButton);
+    const confirm = await screen.findByRole('alertdialog', { name: 'Delete User' });
+    await userEvent.click(within(confirm).getByRole('button', { name: 'Delete User' }));
+
+    await waitFor(() => expect(api.deleteUser).toHaveBeenCalledWith('u-2'));
+    await waitFor(() => expect(screen.queryByRole('heading', { name: 'Mumbai Traders' })).not.toBeInTheDocument());
+    expect(api.getUsers).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,416 @@
+import { act, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PDFDocument } from 'pdf-lib';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { VendorDashboard } from '@/components/vendor/vendor-dashboard';
+import { apiClient } from '@/lib/api';
+import type { OrderFeedMessage, OrderFeedMode } from '@/lib/order-feed';
+import { fail, ok } from './mock-api-client';
+
+const toast = vi.hoisted(() => vi.fn());
+const orderFeed = vi.hoisted(() => ({
+  mode: 'live' as OrderFeedMode,
+  onMessage: null as ((message: OrderFeedMessage) => void) | null,
+}));
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: (await import('./mock-api-client')).createApiClientMock(),
+}));
+vi.mock('@/hooks/use-toast', () => ({ useToast: () => ({ toast, dismiss: vi.fn(), toasts: [] }), toast }));
+vi.mock('@/components/auth/auth-provider', () => ({
+  useAuth: () => ({
+    user: { id: 'v-1', name: 'Test Vendor', email: 'vendor@claimio.test', role: 'vendor', warehouseId: 'WH1001' },
+    loading: false,
+    login: vi.fn(),
+    logout: vi.fn(),
+  }),
+}));
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn(), back: vi.fn(), refresh: vi.fn() }),
+  usePathname: () => '/vendor/dashboard',
+  useSearchParams: () => new URLSearchParams(),
+}));
+// The real-time feed opens a connection on mount - tests push its messages by hand instead
+vi.mock('@/hooks/useOrderFeed', () => ({
+  useOrderFeed: (onMessage: (message: OrderFeedMessage) => void) => {
+    orderFeed.onMessage = onMessage;
+    return { mode: orderFeed.mode };
+  },
+}));
+
+const api = vi.mocked(apiClient);
+
+const unclaimedOrder = (uniqueId: string, orderId: string) => ({
+  unique_id: uniqueId,
+  order_id: orderId,
+  product_name: `Product ${uniqueId}`,
+  product_code: `SKU-${uniqueId}`,
+  size: 'M',
+  quantity: 1,
+  order_date: '2026-10-01T10:00:00.000Z',
+  status: 'unclaimed',
+});
+
+const groupedOrder = (orderId: string, uniqueIds: string[], extra: Record<string, unknown> = {}) => ({
+  order_id: orderId,
+  order_date: '2026-10-01T10:00:00.000Z',
+  status: 'claimed',
+  total_quantity: uniqueIds.length,
+  label_downloaded: 0,
+  is_handover: 0,
+  products: uniqueIds.map((uniqueId) => ({
+    unique_id: uniqueId,
+    product_name: `Product ${uniqueId}`,
+    product_code: `SKU-${uniqueId}`,
+    size: 'M',
+    quantity: 1,
+  })),
+  ...extra,
+});
+
+const countsFor = (count: number) => ({ totalCount: count, totalQuantity: count });
+
+interface DashboardData {
+  allOrders?: ReturnType<typeof unclaimedOrder>[];
+  myOrders?: ReturnType<typeof groupedOrder>[];
+  handover?: ReturnType<typeof groupedOrder>[];
+}
+
+function mockDashboardData({ allOrders = [], myOrders = [], handover = [] }: DashboardData) {
+  api.getVendorAddress.mockResolvedValue(ok({ warehouseId: 'WH1001', address: '1 Dock Road', city: 'Mumbai', pincode: '400001' }));
+  api.getVendorPayments.mockResolvedValue(ok({ currentPayment: 0, futurePayment: 0 }));
+  api.getVendorSettlements.mockResolvedValue(ok([]));
+  api.getVendorTransactions.mockResolvedValue(ok([]));
+  api.getPayoutMethods.mockResolvedValue(
+    ok([{ id: 'pm-1', type: 'upi', upiId: 'vendor@upi', verificationStatus: 'verified', isDefault: true }])
+  );
+  api.getShipmentStatusMapping.mockResolvedValue(ok([]));
+  api.getDashboardStats.mockResolvedValue(
+    ok({
+      allOrders: countsFor(allOrders.length),
+      myOrders: countsFor(myOrders.length),
+      handover: countsFor(handover.length),
+      orderTracking: countsFor(0),
+      lastUpdated: null,
+    })
+  );
+  api.getOrders.mockResolvedValue(
+    ok({ orders: allOrders, pagination: { total: allOrders.length, hasMore: false, totalQuantity: allOrders.length } })
+  );
+  api.getGroupedOrders.mockResolvedValue(
+    ok({ groupedOrders: myOrders, pagination: { total: myOrders.length, hasMore: false }, totalQuantity: myOrders.length })
+  );
+  api.getHandoverOrders.mockResolvedValue(
+    ok({ handoverOrders: handover, pagination: { total: handover.length, hasMore: false } })
+  );
+  api.getOrderTrackingOrders.mockResolvedValue(ok({ trackingOrders: [], pagination: { total: 0, hasMore: false } }));
+}
+
+const rowFor = async (text: string) => (await screen.findByText(text)).closest('tr') as HTMLElement;
+
+async function openTab(name: RegExp) {
+  await userEvent.click(screen.getByRole('tab', { name }));
+}
+
+async function labelPdf() {
+  const pdf = await PDFDocument.create();
+  pdf.addPage([288, 432]).drawRectangle({ x: 20, y: 20, width: 248, height: 392, borderWidth: 2 });
+  return new Blob([(await pdf.save()) as BlobPart], { type: 'application/pdf' });
+}
+
+describe('VendorDashboard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    orderFeed.mode = 'live';
+  });
+
+  describe('claiming', () => {
+    it('claims the selected orders and drops them from All Orders once verified', async () => {
+      mockDashboardData({ allOrders: [unclaimedOrder('U-1', 'ORD-1'), unclaimedOrder('U-2', 'ORD-2')] });
+      api.bulkClaimOrders.mockResolvedValue(
+        ok({ successful_claims: [{ unique_id: 'U-1' }], failed_claims: [], total_successful: 1, total_failed: 0 })
+      );
+      api.verifyOrderStatuses.mockResolvedValue(ok({ statuses: { 'U-1': { status: 'claimed' } } }));
+      render(<VendorDashboard />);
+
+      await userEvent.click(await rowFor('ORD-1'));
+      await userEvent.click(screen.getByRole('button', { name: /Claim Selected \(1\)/ }));
+
+      await waitFor(() => expect(screen.queryByText('ORD-1')).not.toBeInTheDocument());
+      expect(api.bulkClaimOrders).toHaveBeenCalledWith(['U-1']);
+      expect(api.verifyOrderStatuses).toHaveBeenCalledWith(['U-1']);
+      expect(screen.getByText('ORD-2')).toBeInTheDocument();
+      expect(toast).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Bulk Claim Complete', description: 'Successfully claimed 1 orders' })
+      );
+    });
+
+    it('keeps claimed orders the database has not confirmed', async () => {
+      mockDashboardData({ allOrders: [unclaimedOrder('U-1', 'ORD-1'), unclaimedOrder('U-2', 'ORD-2')] });
+      api.bulkClaimOrders.mockResolvedValue(
+        ok({
+          successful_claims: [{ unique_id: 'U-1' }, { unique_id: 'U-2' }],
+          failed_claims: [],
+          total_successful: 2,
+          total_failed: 0,
+        })
+      );
+      api.verifyOrderStatuses.mockResolvedValue(
+        ok({ statuses: { 'U-1': { status: 'claimed' }, 'U-2': { status: 'unclaimed' } } })
+      );
+      render(<VendorDashboard />);
+
+      await userEvent.click(await rowFor('ORD-1'));
+      await userEvent.click(await rowFor('ORD-2'));
+      await userEvent.click(screen.getByRole('button', { name: /Claim Selected \(2\)/ }));
+
+      await waitFor(() => expect(screen.queryByText('ORD-1')).not.toBeInTheDocument());
+      expect(api.bulkClaimOrders).toHaveBeenCalledWith(['U-1', 'U-2']);
+      expect(api.verifyOrderStatuses).toHaveBeenCalledWith(['U-1', 'U-2']);
+      expect(screen.getByText('ORD-2')).toBeInTheDocument();
+    });
+
+    it('leaves All Orders alone when verification fails', async () => {
+      mockDashboardData({ allOrders: [unclaimedOrder('U-1', 'ORD-1')] });
+      api.bulkClaimOrders.mockResolvedValue(
+        ok({ successful_claims: [{ unique_id: 'U-1' }], failed_claims: [], total_successful: 1, total_failed: 0 })
+      );
+      api.verifyOrderStatuses.mockRejectedValue(new Error('Network error'));
+      render(<VendorDashboard />);
+
+      await userEvent.click(await rowFor('ORD-1'));
+      await userEvent.click(screen.getByRole('button', { name: /Claim Selected \(1\)/ }));
+
+      await waitFor(() => expect(api.verifyOrderStatuses).toHaveBeenCalled());
+      expect(screen.getByText('ORD-1')).toBeInTheDocument();
+    });
+
+    it('unclaims every product of a grouped order', async () => {
+      mockDashboardData({ myOrders: [groupedOrder('ORD-7', ['U-7', 'U-8'])] });
+      api.reverseGroupedOrder.mockResolvedValue(ok({ products_processed: 2, skipped_products: 0, total_requested: 2 }));
+      render(<VendorDashboard />);
+
+      await openTab(/My Orders/);
+      const row = await rowFor('ORD-7');
+      await userEvent.click(within(row).getByRole('button', { name: 'Unclaim' }));
+
+      await waitFor(() => expect(api.reverseGroupedOrder).toHaveBeenCalledWith('ORD-7', ['U-7', 'U-8']));
+      await waitFor(() => expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Order Unclaimed' })));
+    });
+
+    it('does not offer unclaim once an order is handed over', async () => {
+      mockDashboardData({ myOrders: [groupedOrder('ORD-7', ['U-7'], { is_handover: 1 })] });
+      render(<VendorDashboard />);
+
+      await openTab(/My Orders/);
+      const row = await rowFor('ORD-7');
+
+      expect(within(row).getByRole('button', { name: 'Unclaim' })).toBeDisabled();
+    });
+  });
+
+  describe('labels', () => {
+    it('merges the selected labels and reuses them for another layout', async () => {
+      mockDashboardData({ myOrders: [groupedOrder('ORD-7', ['U-7']), groupedOrder('ORD-9', ['U-9'])] });
+      api.bulkDownloadLabels.mockResolvedValue(
+        ok({
+          successful: ['ORD-7'],
+          failed: [],
+          total_successful: 1,
+          total_failed: 0,
+          labels: [{ order_id: 'ORD-7', shipping_url: 'https://carrier.test/labels/ORD-7.pdf' }],
+        })
+      );
+      api.downloadLabelFile.mockImplementation(labelPdf);
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(<VendorDashboard />);
+
+      await openTab(/My Orders/);
+      await userEvent.click(await rowFor('ORD-7'));
+      await userEvent.click(screen.getByRole('button', { name: /Download \(1\)/ }));
+
+      expect(await screen.findByText('Labels Generated Successfully!')).toBeInTheDocument();
+      expect(api.bulkDownloadLabels).toHaveBeenCalledWith(['ORD-7'], 'thermal', true, true);
+
+      await userEvent.click(screen.getByRole('button', { name: /Merge & Download/ }));
+      await waitFor(() => expect(api.recordLabelDownload).toHaveBeenCalledTimes(1));
+      expect(api.downloadLabelFile).toHaveBeenCalledWith('https://carrier.test/labels/ORD-7.pdf');
+      // Recorded with the order's own label URL so it can be reprinted later
+      const shipping_urls = { 'ORD-7': 'https://carrier.test/labels/ORD-7.pdf' };
+      expect(api.recordLabelDownload).toHaveBeenCalledWith(['ORD-7'], { format: 'thermal', merged: true, source: 'bulk', shipping_urls });
+      expect((click.mock.contexts[0] as HTMLAnchorElement).download).toMatch(/^WH1001_Mumbai_\d{8}_thermal\.pdf$/);
+
+      // The dialog stays open, and a second layout is composed from the labels already fetched
+      await userEvent.click(screen.getByLabelText(/A4 4-up/));
+      await userEvent.click(screen.getByRole('button', { name: /Merge & Download/ }));
+      await waitFor(() => expect(api.recordLabelDownload).toHaveBeenCalledTimes(2));
+      expect(api.recordLabelDownload).toHaveBeenLastCalledWith(['ORD-7'], { format: 'four-in-one', merged: true, source: 'bulk', shipping_urls });
+      expect(api.downloadLabelFile).toHaveBeenCalledTimes(1);
+
+      click.mockRestore();
+    });
+
+    it('reports a failed label generation', async () => {
+      mockDashboardData({ myOrders: [groupedOrder('ORD-7', ['U-7'])] });
+      api.bulkDownloadLabels.mockResolvedValue(fail('Carrier is down'));
+      render(<VendorDashboard />);
+
+      await openTab(/My Orders/);
+      await userEvent.click(await rowFor('ORD-7'));
+      await userEvent.click(screen.getByRole('button', { name: /Download \(1\)/ }));
+
+      await waitFor(() =>
+        expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Label Generation Failed', variant: 'destructive' }))
+      );
+      expect(screen.queryByText('Labels Generated Successfully!')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('handover', () => {
+    it('downloads one manifest summary for the selected orders', async () => {
+      mockDashboardData({
+        handover: [
+          groupedOrder('ORD-11', ['U-11'], { manifest_id: 'MF-1', is_handover: 1 }),
+          groupedOrder('ORD-12', ['U-12'], { manifest_id: 'MF-1', is_handover: 1 }),
+          groupedOrder('ORD-13', ['U-13'], { manifest_id: 'MF-2', is_handover: 1 }),
+        ],
+      });
+      api.getAuthorizationHeader.mockResolvedValue('Bearer test-token');
+      const fetchMock = vi.fn(async () => ({ ok: true, blob: async () => new Blob(['%PDF-1.7'], { type: 'application/pdf' }) }));
+      vi.stubGlobal('fetch', fetchMock);
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(<VendorDashboard />);
+
+      await openTab(/Handover/);
+      await userEvent.click(within(await rowFor('ORD-11')).getByRole('checkbox'));
+      await userEvent.click(within(await rowFor('ORD-12')).getByRole('checkbox'));
+      await userEvent.click(screen.getByRole('button', { name: /Manifest Download \(2\)/ }));
+
+      const dialog = await screen.findByRole('dialog', { name: 'Download Manifest' });
+      await userEvent.click(within(dialog).getByLabelText(/Thermal Format/));
+      await userEvent.click(within(dialog).getByRole('button', { name: 'Download' }));
+
+      await waitFor(() => expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Manifest Downloaded' })));
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringMatching(/\/orders\/download-manifest-summary$/),
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer test-token' }),
+          body: JSON.stringify({ manifest_ids: ['MF-1'], format: 'thermal' }),
+        })
+      );
+      expect((click.mock.contexts[0] as HTMLAnchorElement).download).toMatch(/^manifest-summary-.*-thermal\.pdf$/);
+
+      click.mockRestore();
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe('order feed', () => {
+    it('moves an order that became ready for handover out of My Orders', async () => {
+      mockDashboardData({ myOrders: [groupedOrder('ORD-7', ['U-7'])] });
+      render(<VendorDashboard />);
+
+      await openTab(/My Orders/);
+      await rowFor('ORD-7');
+
+      api.getHandoverOrders.mockResolvedValue(
+        ok({
+          handoverOrders: [groupedOrder('ORD-7', ['U-7'], { status: 'ready_for_handover', manifest_id: 'MF-7' })],
+          pagination: { total: 1, hasMore: false },
+        })
+      );
+      act(() => {
+        orderFeed.onMessage?.({ type: 'status-changed', order_id: 'ORD-7', status: 'ready_for_handover' });
+      });
+
+      await waitFor(() => expect(screen.queryByText('ORD-7')).not.toBeInTheDocument());
+      await openTab(/Handover/);
+      expect(await rowFor('ORD-7')).toBeInTheDocument();
+    });
+
+    it('shows when updates fell back to polling', async () => {
+      orderFeed.mode = 'polling';
+      mockDashboardData({});
+      render(<VendorDashboard />);
+
+      expect(await screen.findByText('Polling')).toBeInTheDocument();
+    });
+  });
+
+  describe('revenue', () => {
+    async function openRevenue() {
+      render(<VendorDashboard />);
+      await userEvent.click(await screen.findByRole('button', { name: /Revenue/ }));
+      return screen.findByRole('dialog', { name: 'Revenue Management' });
+    }
+
+    it('opens the earnings ledger from the header', async () => {
+      mockDashboardData({});
+      api.getVendorLedger.mockResolvedValue(
+        ok({ entries: [], opening_balance: 0, summary: { payable: 0, future: 0, rto_deductions: 0, settled: 0 } })
+      );
+      const revenue = await openRevenue();
+
+      await userEvent.click(within(revenue).getByRole('button', { name: /View Earnings Ledger/ }));
+
+      expect(await screen.findByRole('dialog', { name: 'Earnings Ledger' })).toBeInTheDocument();
+      await waitFor(() => expect(api.getVendorLedger).toHaveBeenCalled());
+    });
+
+    it('requests a settlement to the chosen payout method', async () => {
+      mockDashboardData({});
+      api.getVendorPayments.mockResolvedValue(ok({ currentPayment: 1500, futurePayment: 0 }));
+      api.getPayoutMethods.mockResolvedValue(
+        ok([
+          { id: 'pm-1', type: 'upi', upiId: 'vendor@upi', verificationStatus: 'verified', isDefault: true },
+          { id: 'pm-2', type: 'bank', bankName: 'HDFC Bank', accountNumber: 'XXXX4321', verificationStatus: 'verified' },
+          { id: 'pm-3', type: 'upi', upiId: 'pending@upi', verificationStatus: 'pending' },
+        ])
+      );
+      api.createSettlementRequest.mockResolvedValue(ok({}));
+      const revenue = await openRevenue();
+
+      await userEvent.click(within(revenue).getByRole('combobox', { name: 'Pay Settlement To' }));
+      // Only verified methods can be paid to
+      expect(screen.queryByRole('option', { name: /pending@upi/ })).not.toBeInTheDocument();
+      await userEvent.click(screen.getByRole('option', { name: /HDFC Bank/ }));
+      await userEvent.click(within(revenue).getByRole('button', { name: /Request Settlement \(₹1500\.00\)/ }));
+
+      await waitFor(() => expect(api.createSettlementRequest).toHaveBeenCalledWith('pm-2'));
+      expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Settlement Request Created' }));
+    });
+
+    it('shows the settlement cycle and the status timeline of a request', async () => {
+      mockDashboardData({});
+      api.getSettlementSchedule.mockResolvedValue(ok({ cycle: 'weekly', nextRunAt: '2026-10-19T12:00:00.000Z' }));
+      api.getVendorSettlements.mockResolvedValue(
+        ok([
+          {
+            id: 's-1',
+            amount: 1200,
+            amountPaid: 500,
+            status: 'approved',
+            createdAt: '2026-10-10T09:00:00.000Z',
+            events: [
+              { type: 'requested', at: '2026-10-10T09:00:00.000Z', actorName: 'Test Vendor' },
+              { type: 'approved', at: '2026-10-11T09:00:00.000Z', actorName: 'Test Admin', amount: 500 },
+            ],
+          },
+        ])
+      );
+      const revenue = await openRevenue();
+
+      expect(await within(revenue).findByText(/Next run:/)).toHaveTextContent('Next run: Mon, 19 Oct 2026');
+      expect(within(revenue).getByRole('combobox', { name: 'Settlement cycle' })).toHaveTextContent('Weekly');
+
+      await userEvent.click(within(revenue).getByRole('button', { name: /View Request/ }));
+      const details = await screen.findByRole('dialog', { name: 'Settlement Details' });
+      expect(within(details).getByText('Status Timeline')).toBeInTheDocument();
+      expect(within(details).getByText('by Test Vendor')).toBeInTheDocument();
+      expect(within(details).getByText('by Test Admin')).toBeInTheDocument();
+    });
+  });
+});